@@ -0,0 +1,154 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/IWCORE.sol";
+import "./interfaces/Vault.sol";
+
+/// @title NativeGateway Contract
+/// @notice Lets users enter and leave WCORE-denominated vaults with native CORE
+/// @dev A native CORE vault is a regular Vault whose asset is WCORE. The gateway wraps
+///      msg.value on deposit and unwraps on withdraw, while the vault itself books native
+///      strategy rewards through its receive function. Shares are always held by the user,
+///      so exits require the user to approve the gateway for their shares first
+contract NativeGateway is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // ============ State Variables ============
+
+    /// @notice The wrapped CORE token vaults served by this gateway must use as their asset
+    IWCORE public immutable wcore;
+
+    // ============ Events ============
+
+    event NativeDeposited(
+        address indexed vault,
+        address indexed sender,
+        address indexed receiver,
+        uint256 assets,
+        uint256 shares
+    );
+    event NativeWithdrawn(
+        address indexed vault,
+        address indexed owner,
+        address indexed receiver,
+        uint256 assets,
+        uint256 shares
+    );
+
+    // ============ Errors ============
+
+    error InvalidAddress();
+    error InvalidAmount();
+    error AssetNotWCORE(address vault);
+    error UnexpectedNativeSender(address sender);
+    error NativeTransferFailed();
+
+    // ============ Constructor ============
+
+    constructor(IWCORE _wcore) {
+        if (address(_wcore) == address(0)) revert InvalidAddress();
+        wcore = _wcore;
+    }
+
+    /// @notice Only accepts CORE released by unwrapping WCORE
+    receive() external payable {
+        if (msg.sender != address(wcore)) revert UnexpectedNativeSender(msg.sender);
+    }
+
+    // ============ External Functions ============
+
+    /// @notice Wraps the CORE sent with the call and deposits it into a vault
+    /// @dev The gateway is the vault's caller, so in allowlist mode it must be allowlisted too
+    /// @param vault The WCORE vault to deposit into
+    /// @param receiver The address receiving the vault shares
+    /// @return shares The amount of shares minted
+    function depositNative(
+        IVault vault,
+        address receiver
+    ) external payable nonReentrant returns (uint256 shares) {
+        if (msg.value == 0) revert InvalidAmount();
+        _checkVault(vault);
+
+        wcore.deposit{value: msg.value}();
+        IERC20(address(wcore)).forceApprove(address(vault), msg.value);
+        shares = vault.deposit(msg.value, receiver);
+
+        emit NativeDeposited(
+            address(vault),
+            msg.sender,
+            receiver,
+            msg.value,
+            shares
+        );
+    }
+
+    /// @notice Withdraws an exact amount of assets from a vault on behalf of the caller and pays them out in CORE
+    /// @dev The CORE paid out is what the vault actually sent, which can fall short of `assets`
+    ///      when strategies realize a loss while liquidity is pulled
+    /// @param vault The WCORE vault to withdraw from
+    /// @param assets The amount of assets to withdraw
+    /// @param receiver The address receiving the CORE
+    /// @return shares The amount of the caller's shares burned
+    function withdrawNative(
+        IVault vault,
+        uint256 assets,
+        address payable receiver
+    ) external nonReentrant returns (uint256 shares) {
+        _checkVault(vault);
+
+        uint256 balanceBefore = wcore.balanceOf(address(this));
+        shares = vault.withdraw(assets, address(this), msg.sender);
+
+        _payOut(vault, receiver, wcore.balanceOf(address(this)) - balanceBefore, shares);
+    }
+
+    /// @notice Redeems the caller's shares from a vault and pays the assets out in CORE
+    /// @param vault The WCORE vault to redeem from
+    /// @param shares The amount of shares to redeem
+    /// @param receiver The address receiving the CORE
+    /// @return assets The amount of CORE paid out
+    function redeemNative(
+        IVault vault,
+        uint256 shares,
+        address payable receiver
+    ) external nonReentrant returns (uint256 assets) {
+        _checkVault(vault);
+
+        uint256 balanceBefore = wcore.balanceOf(address(this));
+        vault.redeem(shares, address(this), msg.sender);
+        assets = wcore.balanceOf(address(this)) - balanceBefore;
+
+        _payOut(vault, receiver, assets, shares);
+    }
+
+    // ============ Private Functions ============
+
+    /// @dev Reverts if the vault is not denominated in this gateway's WCORE
+    /// @param vault The vault to check
+    function _checkVault(IVault vault) private view {
+        if (vault.asset() != address(wcore)) revert AssetNotWCORE(address(vault));
+    }
+
+    /// @dev Unwraps the WCORE received from a vault exit and forwards it as CORE
+    /// @param vault The vault that was exited
+    /// @param receiver The address receiving the CORE
+    /// @param assets The amount of WCORE received
+    /// @param shares The amount of shares burned
+    function _payOut(
+        IVault vault,
+        address payable receiver,
+        uint256 assets,
+        uint256 shares
+    ) private {
+        if (receiver == address(0)) revert InvalidAddress();
+
+        wcore.withdraw(assets);
+        (bool success, ) = receiver.call{value: assets}("");
+        if (!success) revert NativeTransferFailed();
+
+        emit NativeWithdrawn(address(vault), msg.sender, receiver, assets, shares);
+    }
+}
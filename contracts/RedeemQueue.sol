@@ -0,0 +1,228 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/Vault.sol";
+import "./interfaces/ICoreAgent.sol";
+import "./interfaces/IRedeemQueue.sol";
+import "./strategies/CoreStrategy.sol";
+
+/// @title RedeemQueue Contract
+/// @notice Asynchronous, ERC-7540 style redemptions for vaults backed by a CoreStrategy
+/// @dev requestRedeem locks the caller's shares here and starts unbonding their value in the
+///      strategy; claimRedeem pulls the released stake into the vault and redeems the shares
+///      once the Core Agent's unbonding period has passed. Assets are priced at claim time, so
+///      locked shares keep earning until then. The queue needs AGENT_ROLE on the vault, and
+///      CoreStrategy.startUnbonding must be an approved selector for the strategy. Pointing
+///      CoreStrategy.setRedeemQueue at the queue keeps the stake unbonding for pending
+///      requests out of the vault's withdrawal queue
+contract RedeemQueue is IRedeemQueue, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // ============ Structs ============
+
+    /// @notice A redemption request, the stake it started unbonding and its unbonding deadline
+    struct Request {
+        address controller;
+        uint256 shares;
+        uint256 unbonding;
+        uint256 claimableAt;
+        bool claimed;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice The vault whose shares are redeemed
+    IVault public immutable vault;
+
+    /// @notice The strategy unbonding stake for the requests
+    CoreStrategy public immutable strategy;
+
+    /// @notice Requests by ID
+    mapping(uint256 => Request) public requests;
+
+    /// @notice Number of requests made, also the next request ID
+    uint256 public requestCount;
+
+    /// @notice Shares locked in requests not yet claimed
+    uint256 public totalPendingShares;
+
+    /// @notice Stake unbonding for requests not yet claimed
+    uint256 public reservedUnbonding;
+
+    /// @notice Request IDs of each controller
+    mapping(address => uint256[]) private _controllerRequests;
+
+    // ============ Events ============
+
+    event RedeemRequest(
+        address indexed controller,
+        address indexed owner,
+        uint256 indexed requestId,
+        address sender,
+        uint256 shares
+    );
+    event RedeemClaimed(
+        address indexed controller,
+        address indexed receiver,
+        uint256 indexed requestId,
+        uint256 shares,
+        uint256 assets
+    );
+
+    // ============ Errors ============
+
+    error InvalidAddress();
+    error InvalidAmount();
+    error NotController(uint256 requestId);
+    error AlreadyClaimed(uint256 requestId);
+    error RequestNotClaimable(uint256 requestId, uint256 claimableAt);
+
+    // ============ Constructor ============
+
+    constructor(IVault _vault, CoreStrategy _strategy) {
+        if (address(_vault) == address(0) || address(_strategy) == address(0)) {
+            revert InvalidAddress();
+        }
+        vault = _vault;
+        strategy = _strategy;
+    }
+
+    // ============ External Functions ============
+
+    /// @notice Locks the caller's shares and starts unbonding the assets they are worth
+    /// @dev The caller must have approved the queue for the shares. In allowlist mode the
+    ///      queue must be allowlisted to receive them
+    /// @param shares The amount of shares to redeem
+    /// @param controller The address allowed to claim the request
+    /// @return requestId ID of the new request
+    function requestRedeem(
+        uint256 shares,
+        address controller
+    ) external nonReentrant returns (uint256 requestId) {
+        if (shares == 0) revert InvalidAmount();
+        if (controller == address(0)) revert InvalidAddress();
+
+        IERC20(address(vault)).safeTransferFrom(
+            msg.sender,
+            address(this),
+            shares
+        );
+
+        // Unbond what the shares are worth now, as far as the strategy holds stake
+        uint256 assets = vault.previewRedeem(shares);
+        uint256 staked = strategy.totalStaked();
+        if (assets > staked) assets = staked;
+        if (assets != 0) {
+            vault.executeStrategy(
+                address(strategy),
+                abi.encodeCall(CoreStrategy.startUnbonding, (assets))
+            );
+        }
+
+        requestId = requestCount++;
+        requests[requestId] = Request({
+            controller: controller,
+            shares: shares,
+            unbonding: assets,
+            claimableAt: block.timestamp +
+                ICoreAgent(strategy.coreAgent()).unbondingPeriod(),
+            claimed: false
+        });
+        _controllerRequests[controller].push(requestId);
+        totalPendingShares += shares;
+        reservedUnbonding += assets;
+
+        emit RedeemRequest(controller, msg.sender, requestId, msg.sender, shares);
+    }
+
+    /// @notice Redeems the shares of a request whose unbonding period has passed
+    /// @dev The stake this request started unbonding is withdrawn from the strategy into the
+    ///      vault first, up to what the shares are worth, so stake unbonding for other requests
+    ///      stays in place for them; the vault's usual withdrawal fee applies
+    /// @param requestId ID of the request
+    /// @param receiver The address receiving the assets
+    /// @return assets The amount of assets paid out
+    function claimRedeem(
+        uint256 requestId,
+        address receiver
+    ) external nonReentrant returns (uint256 assets) {
+        Request storage request = requests[requestId];
+        if (request.controller != msg.sender) revert NotController(requestId);
+        if (request.claimed) revert AlreadyClaimed(requestId);
+        if (block.timestamp < request.claimableAt) {
+            revert RequestNotClaimable(requestId, request.claimableAt);
+        }
+
+        request.claimed = true;
+        totalPendingShares -= request.shares;
+        reservedUnbonding -= request.unbonding;
+
+        uint256 needed = vault.previewRedeem(request.shares);
+        uint256 released = strategy.claimableUnbonded();
+        if (released > request.unbonding) released = request.unbonding;
+        if (released > needed) released = needed;
+        if (released != 0) {
+            vault.withdrawFromStrategy(address(strategy), released, "");
+        }
+
+        assets = vault.redeem(request.shares, receiver, address(this));
+
+        emit RedeemClaimed(
+            msg.sender,
+            receiver,
+            requestId,
+            request.shares,
+            assets
+        );
+    }
+
+    // ============ View Functions ============
+
+    /// @notice Gets the shares of a request still waiting out the unbonding period
+    /// @param requestId ID of the request
+    /// @param controller The controller of the request
+    /// @return shares Pending shares, 0 if claimable, claimed or not the controller's
+    function pendingRedeemRequest(
+        uint256 requestId,
+        address controller
+    ) external view returns (uint256 shares) {
+        Request storage request = requests[requestId];
+        if (
+            request.controller == controller &&
+            !request.claimed &&
+            block.timestamp < request.claimableAt
+        ) {
+            shares = request.shares;
+        }
+    }
+
+    /// @notice Gets the shares of a request that can be claimed now
+    /// @param requestId ID of the request
+    /// @param controller The controller of the request
+    /// @return shares Claimable shares, 0 if pending, claimed or not the controller's
+    function claimableRedeemRequest(
+        uint256 requestId,
+        address controller
+    ) external view returns (uint256 shares) {
+        Request storage request = requests[requestId];
+        if (
+            request.controller == controller &&
+            !request.claimed &&
+            block.timestamp >= request.claimableAt
+        ) {
+            shares = request.shares;
+        }
+    }
+
+    /// @notice Gets the IDs of every request made for a controller
+    /// @param controller The controller
+    /// @return IDs of the controller's requests, claimed ones included
+    function getRequestIds(
+        address controller
+    ) external view returns (uint256[] memory) {
+        return _controllerRequests[controller];
+    }
+}
@@ -26,12 +26,50 @@ contract Vault is
     using SafeERC20 for IERC20;
     using YieldMath for uint256;
 
+    // ============ Structs ============
+    /// @notice A single call in a multicall batch
+    /// @param data Calldata for a Vault function
+    /// @param allowFailure Whether the batch may continue if this call reverts
+    struct Call {
+        bytes data;
+        bool allowFailure;
+    }
+
+    /// @notice Outcome of a single call in a multicall batch
+    /// @param success Whether the call succeeded
+    /// @param returnData Return data of the call, or its revert data if it failed
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
     // ============ State Variables ============
     // Yield state is now inherited from VaultCore
 
+    /// @notice Maximum total assets the vault accepts through deposits and mints
+    uint256 public depositLimit = type(uint256).max;
+
+    /// @notice Maximum assets a single account may hold in the vault through deposits and mints
+    uint256 public accountDepositLimit = type(uint256).max;
+
+    /// @notice Whether the vault has been shut down for good, blocking new deposits
+    bool public shutdown;
+
+    /// @notice Maximum virtual-shares decimals offset
+    uint8 internal constant MAX_DECIMALS_OFFSET = 18;
+
+    /// @dev Decimals offset of the virtual shares guarding the share price against donations
+    uint8 private immutable _offset;
+
     // ============ Events ============
     event YieldAccrued(uint256 yieldAmount, uint256 totalAssets);
     event YieldRateUpdated(uint256 oldRate, uint256 newRate);
+    event CompoundingModeUpdated(bool continuous);
+    event VaultShutdown();
+    event DepositLimitsUpdated(
+        uint256 depositLimit,
+        uint256 accountDepositLimit
+    );
 
     // ============ Errors ============
     /// @dev Thrown when yield rate exceeds maximum allowed
@@ -43,6 +81,12 @@ contract Vault is
     /// @dev Thrown when invalid parameters are provided
     error InvalidParameters();
 
+    /// @dev Thrown when depositing into or deploying funds from a shut down vault
+    error VaultIsShutdown();
+
+    /// @dev Thrown when the virtual-shares decimals offset exceeds the maximum
+    error InvalidDecimalsOffset();
+
     // ============ Constructor ============
     /// @notice Initializes the vault with the underlying asset and token details
     /// @dev Sets up initial roles and initializes ERC4626 and ERC20
@@ -52,8 +96,12 @@ contract Vault is
     /// @param manager The initial manager address
     /// @param agent The initial agent address
     /// @param _withdrawalFee Withdrawal fee in basis points (max 1000 = 10%)
-    /// @param _yieldRate Annual yield rate in basis points (max 2000 = 20%)
+    /// @param _yieldRate Annual fixed yield rate in basis points (max 2000 = 20%). Zero, the
+    ///        default, prices shares from realized strategy P&L instead; a non-zero rate opts
+    ///        into fixed yield accrual and strategy gains are then not booked on top of it
     /// @param _treasury Treasury address for fee collection
+    /// @param decimalsOffset_ Extra share decimals backing the virtual shares (max 18); each
+    ///        step makes a first-depositor donation attack ten times more expensive
     constructor(
         IERC20 _asset,
         string memory _name,
@@ -62,7 +110,8 @@ contract Vault is
         address agent,
         uint256 _withdrawalFee,
         uint256 _yieldRate,
-        address _treasury
+        address _treasury,
+        uint8 decimalsOffset_
     )
         ERC4626(_asset)
         ERC20(_name, _symbol)
@@ -71,29 +120,40 @@ contract Vault is
     {
         if (!YieldMath.isValidYieldRate(_yieldRate, MAX_YIELD_RATE))
             revert YieldRateTooHigh();
-
-        yieldRate = _yieldRate;
-        lastYieldUpdate = block.timestamp;
-        accruedYield = 0;
-        baseAssets = 0;
+        if (decimalsOffset_ > MAX_DECIMALS_OFFSET)
+            revert InvalidDecimalsOffset();
+
+        _offset = decimalsOffset_;
+        _accounting.yieldRate = _yieldRate;
+        _accounting.lastYieldUpdate = block.timestamp;
+        // Share price of an empty vault; the offset is capped above, so this cannot overflow
+        unchecked {
+            highWaterMark = 1e18 / 10 ** decimalsOffset_;
+        }
     }
 
     // ============ Override Modifiers ============
     /// @dev Override the VaultCore modifier to use VaultAccessControl
     modifier onlyManager() override(VaultAccessControl, VaultCore, VaultFees) {
-        require(
-            hasRole(MANAGER_ROLE, msg.sender),
-            "Vault: caller is not a manager"
-        );
+        _checkManager();
         _;
     }
 
     /// @dev Override the VaultCore modifier to use VaultAccessControl
     modifier onlyAgent() override(VaultAccessControl, VaultCore) {
-        require(
-            hasRole(AGENT_ROLE, msg.sender),
-            "Vault: caller is not an agent"
-        );
+        _checkAgent();
+        _;
+    }
+
+    /// @dev Override the VaultCore modifier to use VaultAccessControl
+    modifier onlyAgentOrGuardian() override(VaultAccessControl, VaultCore) {
+        if (!hasRole(GUARDIAN_ROLE, msg.sender)) _checkAgent();
+        _;
+    }
+
+    /// @dev Override the VaultCore modifier to use VaultAccessControl
+    modifier onlyManagerOrGuardian() override(VaultAccessControl, VaultCore) {
+        if (!hasRole(GUARDIAN_ROLE, msg.sender)) _checkManager();
         _;
     }
 
@@ -102,7 +162,16 @@ contract Vault is
         _;
     }
 
+    /// @dev Blocks strategy deployment while paused or shut down
     modifier whenVaultNotPaused() override {
+        _requireNotPaused();
+        if (shutdown) revert VaultIsShutdown();
+        _;
+    }
+
+    /// @dev Override the VaultCore and VaultFees modifier to use the VaultAccessControl timelock
+    modifier timelocked() override(VaultAccessControl, VaultCore, VaultFees) {
+        _consumeOperation();
         _;
     }
 
@@ -111,27 +180,10 @@ contract Vault is
      * @notice Updates the accrued yield based on time elapsed since last update
      * @dev This function should be called before any deposit/withdrawal to ensure accurate yield calculation
      * @dev Uses YieldMath library for efficient compound interest calculations
+     * @dev Accrues nothing while paused
      */
-    function updateYield() public {
-        if (baseAssets == 0 || yieldRate == 0) {
-            lastYieldUpdate = block.timestamp;
-            return;
-        }
-
-        uint256 timeElapsed = block.timestamp - lastYieldUpdate;
-        if (timeElapsed == 0) return;
-
-        uint256 currentTotalAssets = baseAssets + accruedYield;
-        uint256 yieldForPeriod = YieldMath.computeYield(
-            currentTotalAssets,
-            yieldRate,
-            timeElapsed
-        );
-
-        accruedYield += yieldForPeriod;
-        lastYieldUpdate = block.timestamp;
-
-        emit YieldAccrued(yieldForPeriod, currentTotalAssets + yieldForPeriod);
+    function updateYield() public override {
+        AccountingLogic.updateYield(_accounting, paused());
     }
 
     /**
@@ -142,110 +194,212 @@ contract Vault is
     function calculatePendingYield()
         public
         view
-        override
         returns (uint256 pendingYield)
     {
-        if (baseAssets == 0 || yieldRate == 0) {
-            return 0;
-        }
-
-        uint256 timeElapsed = block.timestamp - lastYieldUpdate;
-        uint256 currentTotalAssets = baseAssets + accruedYield;
-        pendingYield = YieldMath.computeYield(
-            currentTotalAssets,
-            yieldRate,
-            timeElapsed
-        );
+        return AccountingLogic.pendingYield(_accounting, paused());
     }
 
     /**
      * @notice Sets a new yield rate (only callable by manager)
      * @dev Updates yield before changing rate to ensure accurate calculations
+     * @dev Zero returns the vault to realized P&L accounting; while the rate is non-zero,
+     *      reported strategy gains only back the promised yield
+     * @dev Must be queued first while the timelock is active
      * @param newYieldRate The new yield rate in basis points (max 5000 = 50%)
      * @custom:security Only MANAGER_ROLE can call this function
      */
-    function setYieldRate(uint256 newYieldRate) external onlyManager {
+    function setYieldRate(
+        uint256 newYieldRate
+    ) external onlyManager timelocked {
         if (!YieldMath.isValidYieldRate(newYieldRate, MAX_YIELD_RATE))
             revert YieldRateTooHigh();
 
         updateYield();
 
-        uint256 oldRate = yieldRate;
-        yieldRate = newYieldRate;
+        uint256 oldRate = _accounting.yieldRate;
+        _accounting.yieldRate = newYieldRate;
 
         emit YieldRateUpdated(oldRate, newYieldRate);
     }
 
-    // ============ Pause Functions ============
     /**
-     * @dev Pauses the vault, stopping deposits and withdrawals
-     * @notice Only callable by addresses with PAUSER_ROLE
+     * @notice Switches between per-second compounding and the Taylor approximation
+     * @dev Updates yield before switching so past periods keep the old model
+     * @param enabled True to compound every second, false for the Taylor approximation
+     * @custom:security Only MANAGER_ROLE can call this function
+     */
+    function setContinuousCompounding(bool enabled) external onlyManager {
+        updateYield();
+
+        _accounting.continuousCompounding = enabled;
+
+        emit CompoundingModeUpdated(enabled);
+    }
+
+    // ============ Deposit Limit Functions ============
+    /**
+     * @notice Sets the vault-wide and per-account deposit caps
+     * @dev Deposits and mints above maxDeposit/maxMint revert with the ERC4626 max errors.
+     *      Callable by the owner so the factory can seed caps at creation
+     * @param newDepositLimit Maximum total assets, type(uint256).max for no cap
+     * @param newAccountDepositLimit Maximum assets per account, type(uint256).max for no cap
+     * @custom:security Only the owner or MANAGER_ROLE can call this function; GUARDIAN_ROLE
+     *                  can call it when neither cap goes up
      */
-    function pause() external onlyPauser {
+    function setDepositLimits(
+        uint256 newDepositLimit,
+        uint256 newAccountDepositLimit
+    ) external {
+        bool lowering = newDepositLimit <= depositLimit &&
+            newAccountDepositLimit <= accountDepositLimit;
+        if (!lowering || !hasRole(GUARDIAN_ROLE, msg.sender)) {
+            _requireOwnerOrManager();
+        }
+
+        depositLimit = newDepositLimit;
+        accountDepositLimit = newAccountDepositLimit;
+
+        emit DepositLimitsUpdated(newDepositLimit, newAccountDepositLimit);
+    }
+
+    // ============ Pause and Shutdown Functions ============
+    /**
+     * @dev Pauses the vault, stopping deposits, mints and strategy deployment
+     * @dev Withdrawals, redemptions, harvests and emergency exits stay open. Yield and the
+     *      management fee are settled here and do not accrue while paused, so exits
+     *      use the last known share price
+     * @notice Only callable by addresses with PAUSER_ROLE or GUARDIAN_ROLE
+     */
+    function pause() external {
+        if (!hasRole(GUARDIAN_ROLE, msg.sender)) _checkPauser();
+        updateYield();
+        _accrueManagementFee();
         _pause();
     }
 
     /**
-     * @dev Unpauses the vault, allowing deposits and withdrawals
+     * @dev Unpauses the vault, allowing deposits and strategy deployment again
+     * @dev Yield and the management fee resume from now, skipping the paused period
      * @notice Only callable by addresses with PAUSER_ROLE
      */
     function unpause() external onlyPauser {
+        _accounting.lastYieldUpdate = block.timestamp;
+        lastManagementFeeAccrual = block.timestamp;
         _unpause();
     }
 
+    /**
+     * @notice Permanently stops new deposits and mints
+     * @dev Withdrawals, redemptions and strategy exits keep working, while deploying funds
+     *      into strategies is blocked. Cannot be undone
+     * @custom:security Only the owner can call this function
+     */
+    function shutdownVault() external {
+        _requireOwner();
+
+        shutdown = true;
+
+        emit VaultShutdown();
+    }
+
+    // ============ Batch Functions ============
+    /**
+     * @notice Runs a batch of Vault calls in a single transaction
+     * @dev Each call is delegatecalled into this vault, so it runs with the caller's own
+     *      roles and is checked exactly as a direct call would be. A failing call reverts
+     *      the whole batch with its revert data unless it sets allowFailure
+     * @param calls The calls to run, in order
+     * @return results The outcome of each call
+     */
+    function multicall(
+        Call[] calldata calls
+    ) external returns (Result[] memory results) {
+        results = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory returnData) = address(this)
+                .delegatecall(calls[i].data);
+            if (!success && !calls[i].allowFailure) {
+                assembly ("memory-safe") {
+                    revert(add(returnData, 0x20), mload(returnData))
+                }
+            }
+            results[i] = Result(success, returnData);
+        }
+    }
+
     // ============ ERC4626 Functions ============
     /**
      * @dev Returns the total amount of assets held by the vault including accrued yield
+     * @dev Excludes realized strategy profit that is still locked
      * @return Total assets including yield
      */
-    function totalAssets() public view override returns (uint256) {
-        return baseAssets + accruedYield + calculatePendingYield();
+    function totalAssets()
+        public
+        view
+        override(ERC4626, VaultCore, VaultFees)
+        returns (uint256)
+    {
+        return AccountingLogic.totalAssets(_accounting, paused());
     }
 
     /**
      * @dev See {IERC4626-deposit}
      * @dev Updates yield before processing deposit
+     * @dev In allowlist mode both the caller and the receiver must be allowlisted
+     * @dev Reverts once the vault is shut down
      */
     function deposit(
         uint256 assets,
         address receiver
     ) public override nonReentrant whenNotPaused returns (uint256) {
-        updateYield();
+        _beforeDeposit(receiver);
         uint256 shares = super.deposit(assets, receiver);
-        baseAssets += assets;
+        _accounting.baseAssets += assets;
         return shares;
     }
 
     /**
      * @dev See {IERC4626-mint}
      * @dev Updates yield before processing mint
+     * @dev In allowlist mode both the caller and the receiver must be allowlisted
+     * @dev Reverts once the vault is shut down
      */
     function mint(
         uint256 shares,
         address receiver
     ) public override nonReentrant whenNotPaused returns (uint256) {
-        updateYield();
+        _beforeDeposit(receiver);
         uint256 actualAssets = super.mint(shares, receiver);
-        baseAssets += actualAssets;
+        _accounting.baseAssets += actualAssets;
         return actualAssets;
     }
 
     /**
      * @dev See {IERC4626-withdraw}
-     * @dev Updates yield and charges withdrawal fee on the assets being withdrawn
+     * @dev The receiver gets exactly `assets`; the owner burns shares for `assets` plus the
+     *      withdrawal fee, matching previewWithdraw
+     * @dev Pulls any missing liquidity from the withdrawal queue; the receiver bears
+     *      any loss realized while pulling, up to maxLoss
+     * @dev Stays open while paused or shut down
      */
     function withdraw(
         uint256 assets,
         address receiver,
         address owner
-    ) public override nonReentrant whenNotPaused returns (uint256) {
-        updateYield();
+    ) public override nonReentrant returns (uint256) {
+        _accrue();
+
+        uint256 maxAssets = maxWithdraw(owner);
+        if (assets > maxAssets) {
+            revert ERC4626ExceededMaxWithdraw(owner, assets, maxAssets);
+        }
 
-        uint256 feeAmount = (assets * withdrawalFee) / 10000;
-        uint256 netAssets = assets - feeAmount;
+        uint256 grossAssets = _grossFromNet(assets);
+        uint256 feeAmount = grossAssets - assets;
 
-        uint256 shares = super.withdraw(netAssets, receiver, owner);
-        _updateAssetsOnWithdrawal(assets);
+        uint256 shares = super.previewWithdraw(grossAssets);
+        _payout(receiver, owner, assets, shares);
+        _updateAssetsOnWithdrawal(grossAssets);
 
         if (feeAmount > 0) {
             emit WithdrawalFeeCollected(owner, feeAmount);
@@ -256,28 +410,119 @@ contract Vault is
 
     /**
      * @dev See {IERC4626-redeem}
-     * @dev Updates yield and charges withdrawal fee on the assets being redeemed
+     * @dev The receiver gets the shares' value minus the withdrawal fee, matching previewRedeem
+     * @dev Pulls any missing liquidity from the withdrawal queue; the receiver bears
+     *      any loss realized while pulling, up to maxLoss
+     * @dev Stays open while paused or shut down
      */
     function redeem(
         uint256 shares,
         address receiver,
         address owner
-    ) public override nonReentrant whenNotPaused returns (uint256) {
-        updateYield();
+    ) public override nonReentrant returns (uint256) {
+        _accrue();
 
-        uint256 assets = previewRedeem(shares);
-        uint256 feeAmount = (assets * withdrawalFee) / 10000;
-        uint256 netAssets = assets - feeAmount;
+        uint256 maxShares = maxRedeem(owner);
+        if (shares > maxShares) {
+            revert ERC4626ExceededMaxRedeem(owner, shares, maxShares);
+        }
+
+        uint256 grossAssets = super.previewRedeem(shares);
+        uint256 feeAmount = _feeOnGross(grossAssets);
 
-        super.redeem(shares, address(this), owner);
-        IERC20(asset()).safeTransfer(receiver, netAssets);
-        _updateAssetsOnWithdrawal(assets);
+        uint256 paid = _payout(
+            receiver,
+            owner,
+            grossAssets - feeAmount,
+            shares
+        );
+        _updateAssetsOnWithdrawal(grossAssets);
 
         if (feeAmount > 0) {
             emit WithdrawalFeeCollected(owner, feeAmount);
         }
 
-        return netAssets;
+        return paid;
+    }
+
+    /**
+     * @dev See {IERC4626-previewWithdraw}
+     * @dev Includes the shares burned for the withdrawal fee
+     */
+    function previewWithdraw(
+        uint256 assets
+    ) public view override returns (uint256) {
+        return super.previewWithdraw(_grossFromNet(assets));
+    }
+
+    /**
+     * @dev See {IERC4626-previewRedeem}
+     * @dev Returns the assets received after the withdrawal fee
+     */
+    function previewRedeem(
+        uint256 shares
+    ) public view override returns (uint256) {
+        uint256 grossAssets = super.previewRedeem(shares);
+        return grossAssets - _feeOnGross(grossAssets);
+    }
+
+    /**
+     * @dev See {IERC4626-maxDeposit}
+     * @dev The room left under both the vault and the receiver's deposit cap, and zero
+     *      while the vault is paused or shut down or the receiver is not allowlisted
+     */
+    function maxDeposit(
+        address receiver
+    ) public view override returns (uint256) {
+        if (paused() || shutdown || !canHoldShares(receiver)) return 0;
+
+        uint256 vaultRoom = _remaining(depositLimit, totalAssets());
+        uint256 accountRoom = _remaining(
+            accountDepositLimit,
+            _convertToAssets(balanceOf(receiver), Math.Rounding.Ceil)
+        );
+        return Math.min(vaultRoom, accountRoom);
+    }
+
+    /**
+     * @dev See {IERC4626-maxMint}
+     * @dev The shares worth maxDeposit, unbounded when neither cap is set
+     */
+    function maxMint(address receiver) public view override returns (uint256) {
+        uint256 maxAssets = maxDeposit(receiver);
+        if (maxAssets == type(uint256).max) return maxAssets;
+        return _convertToShares(maxAssets, Math.Rounding.Floor);
+    }
+
+    /**
+     * @dev See {IERC4626-maxWithdraw}
+     * @dev Net of the withdrawal fee, rounded down so grossing it back up fits within maxRedeem
+     */
+    function maxWithdraw(address owner) public view override returns (uint256) {
+        return
+            Math.mulDiv(
+                super.previewRedeem(maxRedeem(owner)),
+                10000 - withdrawalFee(),
+                10000
+            );
+    }
+
+    /**
+     * @dev Burns the owner's shares and pays the receiver, pulling liquidity from strategies if needed
+     * @param receiver The address receiving the assets
+     * @param owner The owner of the shares being burned
+     * @param assets The amount of assets owed to the receiver
+     * @param shares The amount of shares to burn
+     * @return paid The amount of assets actually sent, net of any strategy loss
+     */
+    function _payout(
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal returns (uint256 paid) {
+        paid = assets - _pullFromStrategies(assets);
+        _withdraw(_msgSender(), receiver, owner, paid, shares);
     }
 
     /**
@@ -285,25 +530,61 @@ contract Vault is
      * @param withdrawnAssets Total assets being withdrawn (including fees)
      */
     function _updateAssetsOnWithdrawal(uint256 withdrawnAssets) internal {
-        uint256 totalAssetsBeforeWithdrawal = baseAssets + accruedYield;
+        AccountingLogic.reduceOnWithdrawal(_accounting, withdrawnAssets);
+    }
 
-        if (totalAssetsBeforeWithdrawal == 0) return;
+    // ============ Internal Functions ============
+    /**
+     * @dev Settles yield and the management fee, except while paused when both are frozen
+     */
+    function _accrue() internal {
+        if (paused()) return;
+        updateYield();
+        _accrueManagementFee();
+    }
 
-        uint256 baseReduction = (baseAssets * withdrawnAssets) /
-            totalAssetsBeforeWithdrawal;
-        uint256 yieldReduction = (accruedYield * withdrawnAssets) /
-            totalAssetsBeforeWithdrawal;
+    /**
+     * @dev Checks a deposit or mint is allowed and settles accruals before pricing it
+     * @param receiver The address receiving the shares
+     */
+    function _beforeDeposit(address receiver) internal {
+        if (shutdown) revert VaultIsShutdown();
+        _requireAllowlisted(_msgSender());
+        _requireAllowlisted(receiver);
+        _accrue();
+    }
 
-        baseReduction = baseReduction > baseAssets ? baseAssets : baseReduction;
-        yieldReduction = yieldReduction > accruedYield
-            ? accruedYield
-            : yieldReduction;
+    /**
+     * @dev See {ERC20-_update}
+     * @dev In allowlist mode share transfers need both sides allowlisted. Mints are
+     *      gated in deposit/mint and burns stay open so removed holders can still exit
+     */
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        if (from != address(0) && to != address(0)) {
+            _requireAllowlisted(from);
+            _requireAllowlisted(to);
+        }
+        super._update(from, to, value);
+    }
 
-        baseAssets -= baseReduction;
-        accruedYield -= yieldReduction;
+    /**
+     * @dev Returns how far `used` is below `limit`, keeping an unset limit unbounded
+     * @param limit The cap, type(uint256).max when unset
+     * @param used The amount already counted against the cap
+     * @return uint256 The room left under the cap
+     */
+    function _remaining(
+        uint256 limit,
+        uint256 used
+    ) internal pure returns (uint256) {
+        if (limit == type(uint256).max) return limit;
+        return limit > used ? limit - used : 0;
     }
 
-    // ============ Internal Functions ============
     /**
      * @dev Internal function to check owner access for VaultFees
      */
@@ -315,10 +596,7 @@ contract Vault is
      * @dev Internal function to check owner or manager access for VaultFees
      */
     function _requireOwnerOrManager() internal view override {
-        require(
-            msg.sender == owner() || hasRole(MANAGER_ROLE, msg.sender),
-            "Vault: not owner/manager"
-        );
+        _checkOwnerOrManager();
     }
 
     // ============ View Functions ============
@@ -327,7 +605,7 @@ contract Vault is
      * @return uint256 The yield rate (10000 = 100%)
      */
     function getYieldRate() external view returns (uint256) {
-        return yieldRate;
+        return _accounting.yieldRate;
     }
 
     /**
@@ -335,7 +613,7 @@ contract Vault is
      * @return uint256 The total accrued yield including pending
      */
     function getTotalAccruedYield() external view returns (uint256) {
-        return accruedYield + calculatePendingYield();
+        return _accounting.accruedYield + calculatePendingYield();
     }
 
     /**
@@ -343,7 +621,7 @@ contract Vault is
      * @return uint256 The last update timestamp
      */
     function getLastYieldUpdate() external view returns (uint256) {
-        return lastYieldUpdate;
+        return _accounting.lastYieldUpdate;
     }
 
     /**
@@ -354,7 +632,7 @@ contract Vault is
     function calculateAnnualYield(
         uint256 amount
     ) external view returns (uint256) {
-        return YieldMath.calculateAnnualYield(amount, yieldRate);
+        return YieldMath.calculateAnnualYield(amount, _accounting.yieldRate);
     }
 
     /**
@@ -368,7 +646,11 @@ contract Vault is
         uint256 timeInSeconds
     ) external view returns (uint256) {
         return
-            YieldMath.calculateYieldForPeriod(amount, yieldRate, timeInSeconds);
+            YieldMath.calculateYieldForPeriod(
+                amount,
+                _accounting.yieldRate,
+                timeInSeconds
+            );
     }
 
     // ============ Override Functions ============
@@ -383,12 +665,62 @@ contract Vault is
     }
 
     /// @dev Returns the base assets amount (principal deposits minus withdrawals)
-    function getBaseAssets() public view override returns (uint256) {
-        return baseAssets;
+    function getBaseAssets() public view returns (uint256) {
+        return _accounting.baseAssets;
     }
 
     /// @dev Returns the accrued yield amount
-    function getAccruedYield() public view override returns (uint256) {
-        return accruedYield;
+    function getAccruedYield() public view returns (uint256) {
+        return _accounting.accruedYield;
+    }
+
+    /**
+     * @dev Returns the amount of fees available for collection
+     * @dev Calculates fees as vault balance plus strategy debt minus baseAssets and accrued
+     *      and pending yield; only idle balance can be paid out
+     * @return uint256 The amount of fees that can be collected
+     */
+    function getCollectableFees() public view override returns (uint256) {
+        return AccountingLogic.collectableFees(_accounting, paused(), totalDebt);
+    }
+
+    /// @dev Returns the virtual-shares decimals offset set at construction
+    function _decimalsOffset() internal view override returns (uint8) {
+        return _offset;
+    }
+
+    /// @dev Returns totalAssets plus the realized profit that has not unlocked yet
+    function _realizedAssets() internal view override returns (uint256) {
+        return totalAssets() + lockedProfit();
+    }
+
+    /// @dev Returns the realized assets backing 1e18 shares, using the same virtual offset as ERC4626
+    function _sharePrice() internal view override returns (uint256) {
+        return
+            Math.mulDiv(
+                _realizedAssets() + 1,
+                1e18,
+                totalSupply() + 10 ** _decimalsOffset()
+            );
+    }
+
+    /// @dev Mints treasury shares diluting holders by `feeAssets`, priced against realized assets
+    ///      so the shares take no cut of profit that unlocks later
+    function _mintFeeShares(
+        uint256 feeAssets
+    ) internal override returns (uint256 shares) {
+        uint256 supply = totalSupply();
+        uint256 assets = _realizedAssets();
+        if (feeAssets == 0 || supply == 0 || feeAssets >= assets) return 0;
+
+        shares = Math.mulDiv(feeAssets, supply, assets - feeAssets);
+        _mint(treasury, shares);
+    }
+
+    /// @dev Charges the performance fee on realized strategy gains
+    function _onGainRealized(
+        uint256 gain
+    ) internal override returns (uint256) {
+        return _chargePerformanceFee(gain);
     }
 }
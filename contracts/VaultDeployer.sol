@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./Vault.sol";
+
+/// @title VaultDeployer Contract
+/// @notice Holds the Vault creation code on behalf of VaultFactory
+/// @dev VaultFactory reaches this contract through delegatecall, so vaults are still
+///      created from the factory's own context while the factory stays under the
+///      contract size limit
+contract VaultDeployer {
+    // ============ State Variables ============
+
+    /// @notice Address of this deployer, used to reject direct calls
+    address private immutable self;
+
+    // ============ Errors ============
+
+    error DelegateCallOnly();
+
+    // ============ Constructor ============
+
+    constructor() {
+        self = address(this);
+    }
+
+    // ============ External Functions ============
+
+    /// @notice Deploys a new Vault
+    /// @dev Must be reached through delegatecall so msg.sender of the Vault constructor is the factory.
+    ///      Payable because delegatecall carries over the creation fee sent to the factory
+    /// @param asset The underlying asset for the vault
+    /// @param name Name of the vault token
+    /// @param symbol Symbol of the vault token
+    /// @param manager The initial manager address
+    /// @param agent The initial agent address
+    /// @param withdrawalFee Withdrawal fee in basis points
+    /// @param yieldRate Annual yield rate in basis points
+    /// @param treasury Treasury address for fee collection
+    /// @param decimalsOffset Virtual-shares decimals offset
+    /// @return vaultAddress Address of the created vault
+    function deployVault(
+        IERC20 asset,
+        string calldata name,
+        string calldata symbol,
+        address manager,
+        address agent,
+        uint256 withdrawalFee,
+        uint256 yieldRate,
+        address treasury,
+        uint8 decimalsOffset
+    ) external payable returns (address vaultAddress) {
+        if (address(this) == self) revert DelegateCallOnly();
+
+        Vault vault = new Vault(
+            asset,
+            name,
+            symbol,
+            manager,
+            agent,
+            withdrawalFee,
+            yieldRate,
+            treasury,
+            decimalsOffset
+        );
+
+        return address(vault);
+    }
+}
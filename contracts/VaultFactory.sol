@@ -4,19 +4,30 @@ pragma solidity ^0.8.26;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "./Vault.sol";
+import "./VaultDeployer.sol";
 
 /// @title VaultFactory Contract
 /// @notice Factory contract for creating and managing Vault instances
 /// @dev Implements access control for vault creation and management
 contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     // ============ State Variables ============
 
+    /// @notice Receiver of the dead shares minted by a seed deposit
+    address public constant DEAD_SHARES_RECEIVER =
+        0x000000000000000000000000000000000000dEaD;
+
     /// @notice Role identifier for factory managers
     bytes32 public constant FACTORY_MANAGER_ROLE =
         keccak256("FACTORY_MANAGER_ROLE");
 
+    /// @notice Helper holding the Vault creation code, reached via delegatecall
+    address public immutable vaultDeployer;
+
     /// @notice Counter for vault IDs
     uint256 public vaultCounter;
 
@@ -64,6 +75,10 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
         address agent;
         uint256 withdrawalFee;
         uint256 yieldRate;
+        uint256 depositLimit; // 0 for no cap
+        uint256 accountDepositLimit; // 0 for no cap
+        uint8 decimalsOffset; // virtual-shares decimals offset, 0 for none
+        uint256 seedDeposit; // assets pulled from the creator for dead shares, 0 for none
     }
 
     /// @notice Struct containing vault information
@@ -142,7 +157,8 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
     /// @param _treasury Treasury address to receive creation fees
     /// @param _creationFee Fee required to create a vault
     /// @param _defaultWithdrawalFee Default withdrawal fee for new vaults (in basis points, max 1000 = 10%)
-    /// @param _defaultYieldRate Default yield rate for new vaults (in basis points, max 2000 = 20%)
+    /// @param _defaultYieldRate Default fixed yield rate for new vaults (in basis points, max 2000 = 20%),
+    ///        zero to keep them on realized strategy P&L accounting
     constructor(
         address _defaultManager,
         address _defaultAgent,
@@ -162,6 +178,8 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
         defaultWithdrawalFee = _defaultWithdrawalFee;
         defaultYieldRate = _defaultYieldRate;
 
+        vaultDeployer = address(new VaultDeployer());
+
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(FACTORY_MANAGER_ROLE, msg.sender);
     }
@@ -186,7 +204,11 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
             manager: address(0), // Will use default
             agent: address(0), // Will use default
             withdrawalFee: 0, // Will use default
-            yieldRate: 0 // Will use default
+            yieldRate: 0, // Will use default
+            depositLimit: 0, // No cap
+            accountDepositLimit: 0, // No cap
+            decimalsOffset: 0, // No virtual-shares offset
+            seedDeposit: 0 // No dead shares
         });
 
         return _createVault(params);
@@ -221,39 +243,71 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
         if (msg.value < creationFee) revert InsufficientFee();
 
         // Use default values if not provided
-        address manager = params.manager != address(0)
-            ? params.manager
-            : defaultManager;
-        address agent = params.agent != address(0)
-            ? params.agent
-            : defaultAgent;
-        uint256 withdrawalFee = params.withdrawalFee != 0
-            ? params.withdrawalFee
-            : defaultWithdrawalFee;
-        uint256 yieldRate = params.yieldRate != 0
-            ? params.yieldRate
-            : defaultYieldRate;
-
-        if (manager == address(0)) revert InvalidManager();
-        if (agent == address(0)) revert InvalidAgent();
+        if (params.manager == address(0)) params.manager = defaultManager;
+        if (params.agent == address(0)) params.agent = defaultAgent;
+        if (params.withdrawalFee == 0) {
+            params.withdrawalFee = defaultWithdrawalFee;
+        }
+        if (params.yieldRate == 0) params.yieldRate = defaultYieldRate;
+
+        if (params.manager == address(0)) revert InvalidManager();
+        if (params.agent == address(0)) revert InvalidAgent();
 
         // Increment vault counter
         vaultCounter++;
         vaultId = vaultCounter;
 
-        // Create new vault
-        Vault vault = new Vault(
-            params.asset,
-            params.name,
-            params.symbol,
-            manager,
-            agent,
-            withdrawalFee,
-            yieldRate,
-            treasury
+        // Create new vault from this contract's context
+        (bool deployed, bytes memory result) = vaultDeployer.delegatecall(
+            abi.encodeCall(
+                VaultDeployer.deployVault,
+                (
+                    params.asset,
+                    params.name,
+                    params.symbol,
+                    params.manager,
+                    params.agent,
+                    params.withdrawalFee,
+                    params.yieldRate,
+                    treasury,
+                    params.decimalsOffset
+                )
+            )
         );
+        if (!deployed) {
+            // Bubble up the Vault constructor's revert reason
+            assembly {
+                revert(add(result, 0x20), mload(result))
+            }
+        }
 
-        vaultAddress = address(vault);
+        vaultAddress = abi.decode(result, (address));
+
+        // Mint shares nobody can redeem so the share price cannot be inflated
+        // by the first depositor
+        if (params.seedDeposit != 0) {
+            params.asset.safeTransferFrom(
+                msg.sender,
+                address(this),
+                params.seedDeposit
+            );
+            params.asset.forceApprove(vaultAddress, params.seedDeposit);
+            Vault(payable(vaultAddress)).deposit(
+                params.seedDeposit,
+                DEAD_SHARES_RECEIVER
+            );
+        }
+
+        // Seed deposit caps while the factory still owns the vault
+        if (params.depositLimit != 0 || params.accountDepositLimit != 0) {
+            Vault(payable(vaultAddress)).setDepositLimits(
+                _capOrUnlimited(params.depositLimit),
+                _capOrUnlimited(params.accountDepositLimit)
+            );
+        }
+
+        // Hand the vault over now that the factory's setup calls are done
+        _handOverVault(Vault(payable(vaultAddress)), msg.sender);
 
         // Store vault information
         vaults[vaultId] = vaultAddress;
@@ -274,8 +328,8 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
             address(params.asset),
             params.name,
             params.symbol,
-            manager,
-            agent,
+            params.manager,
+            params.agent,
             msg.sender
         );
 
@@ -401,7 +455,7 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
             return info; // Return empty struct for non-existent vault
         }
 
-        Vault vault = Vault(vaultAddress);
+        Vault vault = Vault(payable(vaultAddress));
 
         info = VaultInfo({
             id: vaultId,
@@ -435,7 +489,7 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
             return info; // Return empty struct for non-existent vault
         }
 
-        Vault vault = Vault(vaultAddr);
+        Vault vault = Vault(payable(vaultAddr));
 
         info = VaultInfo({
             id: vaultId,
@@ -460,4 +514,31 @@ contract VaultFactory is Ownable, AccessControl, ReentrancyGuard {
     ) external view returns (bool isFromFactory) {
         return isVaultFromFactory[vaultAddress];
     }
+
+    // ============ Internal Functions ============
+
+    /// @notice Maps an unset (zero) cap to the vault's "no cap" value
+    /// @param cap Cap from the creation parameters
+    /// @return The cap to set on the vault
+    function _capOrUnlimited(uint256 cap) internal pure returns (uint256) {
+        return cap == 0 ? type(uint256).max : cap;
+    }
+
+    /// @notice Transfers ownership and the owner's default roles from the factory to the creator
+    /// @dev The creator can then use the timelock, shutdown, fee delay and allowlist, and
+    ///      grant GUARDIAN_ROLE. The factory keeps no role on the vault
+    /// @param vault The newly created vault
+    /// @param creator The address creating the vault
+    function _handOverVault(Vault vault, address creator) internal {
+        bytes32[3] memory roles = [
+            vault.PAUSER_ROLE(),
+            vault.ALLOWLIST_ADMIN_ROLE(),
+            vault.DEFAULT_ADMIN_ROLE()
+        ];
+        for (uint256 i = 0; i < roles.length; i++) {
+            vault.grantRole(roles[i], creator);
+            vault.renounceRole(roles[i], address(this));
+        }
+        vault.transferOwnership(creator);
+    }
 }
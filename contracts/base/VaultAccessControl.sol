@@ -3,6 +3,7 @@ pragma solidity ^0.8.13;
 
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "../libraries/AccessLogic.sol";
 
 /// @title VaultAccessControl
 /// @notice Handles all role-based access control for the vault
@@ -21,6 +22,67 @@ contract VaultAccessControl is AccessControl, Ownable {
     /// @dev Used in AccessControl for emergency pause permissions
     bytes32 public constant PAUSER_ROLE = keccak256("VAULT_PAUSER_ROLE");
 
+    /// @notice Role identifier for allowlist admins
+    /// @dev Used in AccessControl to manage the deposit and transfer allowlist
+    bytes32 public constant ALLOWLIST_ADMIN_ROLE =
+        keccak256("VAULT_ALLOWLIST_ADMIN_ROLE");
+
+    /// @notice Role identifier for vault guardians
+    /// @dev Can only reduce risk: pause, revoke strategies, exit strategies, lower deposit
+    ///      caps and cancel timelocked operations
+    bytes32 public constant GUARDIAN_ROLE = keccak256("VAULT_GUARDIAN_ROLE");
+
+    // ============ Allowlist State ============
+    /// @notice Whether deposits, mints and share transfers are restricted to allowlisted addresses
+    bool public allowlistEnabled;
+
+    /// @notice Merkle root of addresses that may join the allowlist with a proof
+    bytes32 public allowlistRoot;
+
+    /// @notice Whether an address is on the allowlist
+    mapping(address => bool) public isAllowlisted;
+
+    // ============ Timelock State ============
+    /// @notice Maximum timelock delay
+    uint256 internal constant MAX_TIMELOCK_DELAY = 30 days;
+
+    /// @notice Delay between queueing and executing a timelocked call, zero when the timelock is off
+    uint256 public timelockDelay;
+
+    /// @notice Time from which a queued operation can be executed, keyed by keccak256 of its calldata
+    mapping(bytes32 => uint256) public operationReadyAt;
+
+    // ============ Events ============
+    event OperationQueued(bytes32 indexed id, bytes data, uint256 readyAt);
+    event OperationExecuted(bytes32 indexed id);
+    event OperationCancelled(bytes32 indexed id);
+    event TimelockDelayUpdated(uint256 oldDelay, uint256 newDelay);
+    event AllowlistModeUpdated(bool enabled);
+    event AllowlistUpdated(address indexed account, bool allowed);
+    event AllowlistRootUpdated(bytes32 root);
+
+    // ============ Errors ============
+    /// @dev Thrown when queueing while the timelock is off
+    error TimelockInactive();
+
+    /// @dev Thrown when the timelock delay exceeds MAX_TIMELOCK_DELAY
+    error TimelockDelayTooLong();
+
+    /// @dev Thrown when an operation is queued twice
+    error OperationAlreadyQueued(bytes32 id);
+
+    /// @dev Thrown when executing or cancelling an operation that was not queued
+    error OperationNotQueued(bytes32 id);
+
+    /// @dev Thrown when executing an operation before its delay has passed
+    error OperationNotReady(bytes32 id, uint256 readyAt);
+
+    /// @dev Thrown when an address outside the allowlist deposits, mints or moves shares
+    error NotAllowlisted(address account);
+
+    /// @dev Thrown when a Merkle proof does not match the allowlist root
+    error InvalidAllowlistProof();
+
     // ============ Constructor ============
     /// @notice Initializes the access control with owner and initial roles
     /// @param _owner The owner of the vault
@@ -40,39 +102,127 @@ contract VaultAccessControl is AccessControl, Ownable {
         _grantRole(MANAGER_ROLE, manager);
         _grantRole(AGENT_ROLE, agent);
         _grantRole(PAUSER_ROLE, _owner); // Owner can pause by default
+        _grantRole(ALLOWLIST_ADMIN_ROLE, _owner); // Owner manages the allowlist by default
     }
 
     // ============ Modifiers ============
     /// @notice Restricts function access to addresses with MANAGER_ROLE
     /// @dev Reverts if caller doesn't have MANAGER_ROLE
     modifier onlyManager() virtual {
-        require(
-            hasRole(MANAGER_ROLE, msg.sender),
-            "Vault: caller is not a manager"
-        );
+        _checkManager();
         _;
     }
 
     /// @notice Restricts function access to addresses with AGENT_ROLE
     /// @dev Reverts if caller doesn't have AGENT_ROLE
     modifier onlyAgent() virtual {
-        require(
-            hasRole(AGENT_ROLE, msg.sender),
-            "Vault: caller is not an agent"
-        );
+        _checkAgent();
+        _;
+    }
+
+    /// @notice Restricts function access to addresses with AGENT_ROLE or GUARDIAN_ROLE
+    modifier onlyAgentOrGuardian() virtual {
+        if (!hasRole(GUARDIAN_ROLE, msg.sender)) _checkAgent();
+        _;
+    }
+
+    /// @notice Restricts function access to addresses with MANAGER_ROLE or GUARDIAN_ROLE
+    modifier onlyManagerOrGuardian() virtual {
+        if (!hasRole(GUARDIAN_ROLE, msg.sender)) _checkManager();
         _;
     }
 
     /// @notice Restricts function access to addresses with PAUSER_ROLE
     /// @dev Reverts if caller doesn't have PAUSER_ROLE
     modifier onlyPauser() virtual {
-        require(
-            hasRole(PAUSER_ROLE, msg.sender),
-            "Vault: caller is not a pauser"
-        );
+        _checkPauser();
+        _;
+    }
+
+    /// @notice Restricts function access to addresses with ALLOWLIST_ADMIN_ROLE
+    /// @dev Reverts if caller doesn't have ALLOWLIST_ADMIN_ROLE
+    modifier onlyAllowlistAdmin() virtual {
+        _checkAllowlistAdmin();
+        _;
+    }
+
+    /// @notice Requires timelocked calls to have been queued for timelockDelay
+    /// @dev Has no effect while the timelock is off
+    modifier timelocked() virtual {
+        _consumeOperation();
         _;
     }
 
+    // ============ Timelock Functions ============
+    /// @notice Queues a timelocked call for execution after timelockDelay
+    /// @dev The call is later made by its usual role holder with exactly the same calldata
+    /// @param data ABI-encoded call to a timelocked function of this vault
+    /// @return id The operation identifier
+    function queueOperation(bytes calldata data) external returns (bytes32 id) {
+        _checkOwnerOrManager();
+
+        id = AccessLogic.queueOperation(operationReadyAt, timelockDelay, data);
+    }
+
+    /// @notice Cancels a queued operation
+    /// @dev Callable by the owner or a guardian
+    /// @param id The operation identifier
+    function cancelOperation(bytes32 id) external {
+        if (!hasRole(GUARDIAN_ROLE, msg.sender)) _checkOwner();
+
+        AccessLogic.cancelOperation(operationReadyAt, id);
+    }
+
+    /// @notice Sets the timelock delay
+    /// @dev Zero turns the timelock off. Once on, changing the delay is itself timelocked
+    /// @param newDelay The new delay in seconds (max 30 days)
+    function setTimelockDelay(uint256 newDelay) external onlyOwner timelocked {
+        if (newDelay > MAX_TIMELOCK_DELAY) revert TimelockDelayTooLong();
+
+        uint256 oldDelay = timelockDelay;
+        timelockDelay = newDelay;
+
+        emit TimelockDelayUpdated(oldDelay, newDelay);
+    }
+
+    // ============ Allowlist Functions ============
+    /// @notice Turns allowlist mode on or off
+    /// @param enabled True to restrict deposits, mints and share transfers to the allowlist
+    function setAllowlistEnabled(bool enabled) external onlyAllowlistAdmin {
+        allowlistEnabled = enabled;
+        emit AllowlistModeUpdated(enabled);
+    }
+
+    /// @notice Adds or removes a batch of addresses
+    /// @param accounts The addresses to update
+    /// @param allowed True to add the addresses, false to remove them
+    function setAllowlisted(
+        address[] calldata accounts,
+        bool allowed
+    ) external onlyAllowlistAdmin {
+        AccessLogic.setAllowlisted(isAllowlisted, accounts, allowed);
+    }
+
+    /// @notice Sets the Merkle root that addresses can prove membership against
+    /// @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(account)))). Removing an
+    ///      address that is still under the root also requires publishing a new root
+    /// @param root The new Merkle root, zero to disable proofs
+    function setAllowlistRoot(bytes32 root) external onlyAllowlistAdmin {
+        allowlistRoot = root;
+        emit AllowlistRootUpdated(root);
+    }
+
+    /// @notice Adds an address to the allowlist with a proof against the Merkle root
+    /// @dev Callable by anyone, the proof alone authorizes the address
+    /// @param account The address to add
+    /// @param proof Merkle proof for the account's leaf
+    function claimAllowlist(
+        address account,
+        bytes32[] calldata proof
+    ) external {
+        AccessLogic.claimAllowlist(isAllowlisted, allowlistRoot, account, proof);
+    }
+
     // ============ View Functions ============
     /// @dev Returns whether an address has the manager role
     /// @param account The address to check
@@ -94,4 +244,74 @@ contract VaultAccessControl is AccessControl, Ownable {
     function hasPauserRole(address account) external view returns (bool) {
         return hasRole(PAUSER_ROLE, account);
     }
+
+    /// @dev Returns whether an address has the guardian role
+    /// @param account The address to check
+    /// @return bool Whether the address has the guardian role
+    function hasGuardianRole(address account) external view returns (bool) {
+        return hasRole(GUARDIAN_ROLE, account);
+    }
+
+    /// @dev Returns whether an address may hold new shares under the current mode
+    /// @param account The address to check
+    /// @return bool True when allowlist mode is off or the address is allowlisted
+    function canHoldShares(address account) public view returns (bool) {
+        return !allowlistEnabled || isAllowlisted[account];
+    }
+
+    // ============ Internal Functions ============
+    /// @dev Consumes the queued operation matching the current calldata
+    /// @dev Does nothing while the timelock is off
+    function _consumeOperation() internal {
+        if (timelockDelay == 0) return;
+
+        AccessLogic.consumeOperation(operationReadyAt, keccak256(msg.data));
+    }
+
+    /// @dev Reverts if the caller doesn't have MANAGER_ROLE
+    /// @dev Kept out of the modifier so its code is not inlined into every managed function
+    function _checkManager() internal view {
+        require(
+            hasRole(MANAGER_ROLE, msg.sender),
+            "Vault: caller is not a manager"
+        );
+    }
+
+    /// @dev Reverts if the caller doesn't have AGENT_ROLE
+    function _checkAgent() internal view {
+        require(
+            hasRole(AGENT_ROLE, msg.sender),
+            "Vault: caller is not an agent"
+        );
+    }
+
+    /// @dev Reverts if the caller doesn't have PAUSER_ROLE
+    function _checkPauser() internal view {
+        require(
+            hasRole(PAUSER_ROLE, msg.sender),
+            "Vault: caller is not a pauser"
+        );
+    }
+
+    /// @dev Reverts if the caller doesn't have ALLOWLIST_ADMIN_ROLE
+    function _checkAllowlistAdmin() internal view {
+        require(
+            hasRole(ALLOWLIST_ADMIN_ROLE, msg.sender),
+            "Vault: caller is not an allowlist admin"
+        );
+    }
+
+    /// @dev Reverts if the caller is neither the owner nor has MANAGER_ROLE
+    function _checkOwnerOrManager() internal view {
+        require(
+            msg.sender == owner() || hasRole(MANAGER_ROLE, msg.sender),
+            "Vault: not owner/manager"
+        );
+    }
+
+    /// @dev Reverts if allowlist mode is on and the address is not allowlisted
+    /// @param account The address to check
+    function _requireAllowlisted(address account) internal view {
+        if (!canHoldShares(account)) revert NotAllowlisted(account);
+    }
 }
@@ -3,42 +3,122 @@ pragma solidity ^0.8.13;
 
 import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "../interfaces/Strategies.sol";
+import "../libraries/StrategyLogic.sol";
+import "../libraries/AccountingLogic.sol";
 
 /// @title VaultCore
 /// @notice Handles core vault functionality including strategy management
 /// @dev Provides strategy management and core vault operations
 abstract contract VaultCore {
-    using SafeERC20 for IERC20;
     using EnumerableSet for EnumerableSet.AddressSet;
 
+    // ============ Structs ============
+    /// @notice Configuration and accounting record kept for every registered strategy
+    /// @dev currentDebt is the amount of vault assets the strategy is accountable for,
+    ///      bounded by maxDebt and by targetAllocation (basis points of totalAssets)
+    struct StrategyParams {
+        uint256 currentDebt;
+        uint256 maxDebt;
+        uint256 targetAllocation;
+        uint256 totalGain;
+        uint256 totalLoss;
+        uint256 lastReport;
+    }
+
+    /// @notice Principal, yield and locked profit bookkeeping of the vault
+    /// @dev lockedProfit is the realized profit still locked as of lastProfitLock
+    struct Accounting {
+        uint256 yieldRate;
+        bool continuousCompounding;
+        uint256 lastYieldUpdate;
+        uint256 accruedYield;
+        uint256 baseAssets;
+        uint256 profitUnlockPeriod;
+        uint256 lockedProfit;
+        uint256 lastProfitLock;
+    }
+
     // ============ State Variables ============
     /// @notice Set of strategy addresses for efficient management
     /// @dev Uses EnumerableSet for O(1) add/remove operations
     EnumerableSet.AddressSet private _strategies;
 
-    /// @notice Annual yield rate in basis points (500 = 5%)
-    uint256 public yieldRate;
+    /// @notice Configuration and accounting record for each strategy
+    mapping(address => StrategyParams) internal _strategyParams;
+
+    /// @notice Basis points denominator for strategy allocations
+    uint256 internal constant MAX_BPS = StrategyLogic.MAX_BPS;
+
+    /// @notice Sum of currentDebt across all strategies
+    uint256 public totalDebt;
+
+    /// @notice Ordered list of strategies that withdrawals pull liquidity from
+    address[] internal _withdrawalQueue;
+
+    /// @notice Maximum number of strategies in the withdrawal queue
+    uint256 internal constant MAX_QUEUE_LENGTH = StrategyLogic.MAX_QUEUE_LENGTH;
+
+    /// @notice Maximum loss accepted when pulling liquidity for a withdrawal, in basis points
+    uint256 public maxLoss;
+
+    /// @notice Function selectors the agent may call on each strategy, or that the strategy may
+    ///         forward to its protocol
+    mapping(address => mapping(bytes4 => bool)) public isSelectorAllowed;
+
+    /// @notice Swapper strategies use to convert each harvested reward token into the underlying asset
+    mapping(address => address) public rewardSwapper;
+
+    /// @notice WCORE-style wrapper native strategy rewards are wrapped with, zero to reject them
+    address public wrappedNative;
 
     /// @notice Maximum yield rate allowed (50%)
     uint256 public constant MAX_YIELD_RATE = 5000;
 
-    /// @notice Timestamp of last yield accrual
-    uint256 public lastYieldUpdate;
+    /// @notice Maximum profit unlock period
+    uint256 internal constant MAX_PROFIT_UNLOCK_PERIOD =
+        AccountingLogic.MAX_PROFIT_UNLOCK_PERIOD;
 
-    /// @notice Total yield accrued but not yet distributed
-    uint256 public accruedYield;
-
-    /// @notice Base asset amount (deposits minus withdrawals, excluding yield)
-    uint256 public baseAssets;
+    /// @dev Yield, principal and locked profit state, read through the getters below
+    Accounting internal _accounting;
 
     // ============ Events ============
     event StrategyAdded(address indexed strategy);
     event StrategyRemoved(address indexed strategy);
     event StrategyExecuted(address indexed strategy, bytes data);
+    event StrategySelectorUpdated(
+        address indexed strategy,
+        bytes4 indexed selector,
+        bool allowed
+    );
     event StrategyHarvested(address indexed strategy, bytes data);
+    event RewardSwapperUpdated(address indexed token, address indexed swapper);
+    event WrappedNativeUpdated(address indexed wrapper);
     event EmergencyExit(address indexed strategy, bytes data);
+    event StrategyLimitsUpdated(
+        address indexed strategy,
+        uint256 maxDebt,
+        uint256 targetAllocation
+    );
+    event DebtUpdated(
+        address indexed strategy,
+        uint256 oldDebt,
+        uint256 newDebt
+    );
+    event StrategyWithdrawn(
+        address indexed strategy,
+        uint256 amount,
+        uint256 returned
+    );
+    event WithdrawalQueueUpdated(address[] queue);
+    event MaxLossUpdated(uint256 maxLoss);
+    event ProfitUnlockPeriodUpdated(uint256 profitUnlockPeriod);
+    event StrategyReported(
+        address indexed strategy,
+        uint256 gain,
+        uint256 loss,
+        uint256 currentDebt
+    );
 
     // ============ Errors ============
     error InvalidStrategy();
@@ -47,6 +127,16 @@ abstract contract VaultCore {
     error ExecutionFailed();
     error InvalidAddress();
     error InsufficientBalance();
+    error StrategyHasDebt();
+    error InvalidAllocation();
+    error MaxDebtExceeded();
+    error AllocationExceeded();
+    error InvalidQueue();
+    error InvalidMaxLoss();
+    error ExcessiveLoss();
+    error InvalidUnlockPeriod();
+    error SelectorNotAllowed(address strategy, bytes4 selector);
+    error NativeRewardsNotAccepted();
 
     // ============ Modifiers (to be implemented by inheriting contract) ============
     modifier onlyManager() virtual {
@@ -60,35 +150,156 @@ abstract contract VaultCore {
     // These modifiers will be provided by the inheriting contract
     modifier whenVaultNotPaused() virtual;
     modifier nonReentrantVault() virtual;
+    modifier timelocked() virtual;
+    modifier onlyAgentOrGuardian() virtual;
+    modifier onlyManagerOrGuardian() virtual;
 
     // ============ Strategy Management Functions ============
     /**
      * @dev Adds a new strategy to the vault
+     * @dev The strategy starts without debt limits; use setStrategyLimits to cap it
+     * @dev Must be queued first while the timelock is active
      * @param strategy The address of the strategy to add
      */
-    function addStrategy(address strategy) external onlyManager {
-        if (strategy == address(0)) revert InvalidAddress();
-        if (_strategies.contains(strategy)) revert StrategyAlreadyExists();
+    function addStrategy(
+        address strategy
+    ) external onlyManager timelocked {
+        StrategyLogic.addStrategy(_strategies, _strategyParams, strategy);
+    }
 
-        _strategies.add(strategy);
+    /**
+     * @dev Sets the debt ceiling and target allocation of a strategy
+     * @dev Limits only gate new deposits; existing debt above them is not force-withdrawn
+     * @param strategy The address of the strategy
+     * @param maxDebt The maximum amount of assets the strategy may hold
+     * @param targetAllocation The maximum share of totalAssets in basis points (10000 = 100%)
+     */
+    function setStrategyLimits(
+        address strategy,
+        uint256 maxDebt,
+        uint256 targetAllocation
+    ) external onlyManager {
+        StrategyLogic.setStrategyLimits(
+            _strategies,
+            _strategyParams,
+            strategy,
+            maxDebt,
+            targetAllocation
+        );
+    }
 
-        emit StrategyAdded(strategy);
+    /**
+     * @dev Stops new deposits into a strategy by zeroing its debt limits
+     * @dev Existing debt stays in place and can still be withdrawn or exited
+     * @param strategy The address of the strategy to revoke
+     */
+    function revokeStrategy(address strategy) external onlyManagerOrGuardian {
+        StrategyLogic.setStrategyLimits(
+            _strategies,
+            _strategyParams,
+            strategy,
+            0,
+            0
+        );
     }
 
     /**
-     * @dev Removes a strategy from the vault
-     * @param strategy The address of the strategy to remove
+     * @dev Approves or revokes function selectors for a strategy
+     * @dev Covers both calls made through executeStrategy and custom calldata that generic
+     *      strategies forward to their protocol
+     * @param strategy The address of the strategy
+     * @param selectors The function selectors to update
+     * @param allowed True to approve the selectors, false to revoke them
      */
-    function removeStrategy(address strategy) external onlyManager {
-        if (!_strategies.contains(strategy)) revert StrategyDoesNotExist();
+    function setStrategySelectors(
+        address strategy,
+        bytes4[] calldata selectors,
+        bool allowed
+    ) external onlyManager {
+        StrategyLogic.setStrategySelectors(
+            _strategies,
+            isSelectorAllowed,
+            strategy,
+            selectors,
+            allowed
+        );
+    }
+
+    /**
+     * @dev Registers the swapper strategies use to convert a reward token into the underlying asset
+     * @dev Pass the zero address to stop swapping the token
+     * @param token The reward token
+     * @param swapper The swapper to route the token through
+     */
+    function setRewardSwapper(
+        address token,
+        address swapper
+    ) external onlyManager {
+        StrategyLogic.setRewardSwapper(rewardSwapper, token, swapper);
+    }
+
+    /**
+     * @dev Sets the wrapper native CORE rewards from strategies are wrapped with
+     * @dev Rewards are only accepted while the wrapper is the vault asset; pass the zero
+     *      address to reject them
+     * @param wrapper The WCORE-style wrapper
+     */
+    function setWrappedNative(address wrapper) external onlyManager {
+        wrappedNative = wrapper;
 
-        _strategies.remove(strategy);
+        emit WrappedNativeUpdated(wrapper);
+    }
 
-        emit StrategyRemoved(strategy);
+    /**
+     * @dev Sets the order in which withdrawals pull liquidity from strategies
+     * @param queue The strategies to pull from, first to last
+     */
+    function setWithdrawalQueue(
+        address[] calldata queue
+    ) external onlyManager {
+        StrategyLogic.setWithdrawalQueue(_strategies, _withdrawalQueue, queue);
+    }
+
+    /**
+     * @dev Sets the maximum loss accepted when withdrawals pull from strategies
+     * @param newMaxLoss The maximum loss in basis points of the amount pulled (10000 = 100%)
+     */
+    function setMaxLoss(uint256 newMaxLoss) external onlyManager {
+        if (newMaxLoss > MAX_BPS) revert InvalidMaxLoss();
+
+        maxLoss = newMaxLoss;
+
+        emit MaxLossUpdated(newMaxLoss);
+    }
+
+    /**
+     * @dev Sets the period over which realized strategy profit unlocks
+     * @dev Profit still locked keeps unlocking from now over the new period; zero releases it at once
+     * @param period The unlock period in seconds (max 30 days)
+     */
+    function setProfitUnlockPeriod(uint256 period) external onlyManager {
+        AccountingLogic.setProfitUnlockPeriod(_accounting, period);
+    }
+
+    /**
+     * @dev Removes a strategy from the vault
+     * @dev Must be queued first while the timelock is active
+     * @param strategy The address of the strategy to remove
+     */
+    function removeStrategy(
+        address strategy
+    ) external onlyManager timelocked {
+        StrategyLogic.removeStrategy(
+            _strategies,
+            _strategyParams,
+            _withdrawalQueue,
+            strategy
+        );
     }
 
     /**
      * @dev Executes a strategy with the given data
+     * @dev The selector of `data` must be approved for the strategy with setStrategySelectors
      * @param strategy The address of the strategy to execute
      * @param data The data to pass to the strategy
      */
@@ -96,12 +307,9 @@ abstract contract VaultCore {
         address strategy,
         bytes calldata data
     ) external onlyAgent nonReentrantVault whenVaultNotPaused {
-        if (!_strategies.contains(strategy)) revert StrategyDoesNotExist();
+        _checkStrategy(strategy);
 
-        (bool success, ) = strategy.call(data);
-        if (!success) revert ExecutionFailed();
-
-        emit StrategyExecuted(strategy, data);
+        StrategyLogic.executeStrategy(isSelectorAllowed, strategy, data);
     }
 
     /**
@@ -115,64 +323,242 @@ abstract contract VaultCore {
         uint256 amount,
         bytes calldata data
     ) external onlyAgent nonReentrantVault whenVaultNotPaused {
-        if (!_strategies.contains(strategy)) revert StrategyDoesNotExist();
-        if (amount == 0) revert InvalidAddress(); // Reusing error for zero amount
-
-        // Check vault has enough assets
-        uint256 vaultBalance = IERC20(asset()).balanceOf(address(this));
-        if (vaultBalance < amount) revert InsufficientBalance();
-
-        // Approve strategy to spend vault's tokens (safe approval pattern)
-        IERC20(asset()).safeIncreaseAllowance(strategy, amount);
+        _checkStrategy(strategy);
+
+        totalDebt += StrategyLogic.depositToStrategy(
+            _strategyParams[strategy],
+            strategy,
+            amount,
+            totalAssets(),
+            data
+        );
+    }
 
-        // Call strategy execute function
-        IStrategies(strategy).execute(amount, data);
+    /**
+     * @dev Withdraws assets from a strategy back to the vault
+     * @dev Releases the debt that left the strategy, so stake it keeps unbonding stays on its
+     *      debt; any shortfall between the debt released and the assets returned is realized
+     *      as a loss
+     * @param strategy The address of the strategy to withdraw from
+     * @param amount The amount of assets to ask the strategy for
+     * @param data Additional data for the strategy withdrawal
+     * @return returned The amount of assets received by the vault
+     */
+    function withdrawFromStrategy(
+        address strategy,
+        uint256 amount,
+        bytes calldata data
+    ) external onlyAgent nonReentrantVault returns (uint256 returned) {
+        _checkStrategy(strategy);
+        if (amount == 0) revert InvalidAddress(); // Reusing error for zero amount
 
-        // Reset allowance to zero for security (only if there's remaining allowance)
-        uint256 remainingAllowance = IERC20(asset()).allowance(
-            address(this),
-            strategy
+        uint256 released;
+        (returned, released) = StrategyLogic.withdrawFromStrategy(
+            _strategyParams[strategy],
+            strategy,
+            amount,
+            data
         );
-        if (remainingAllowance > 0) {
-            IERC20(asset()).safeDecreaseAllowance(strategy, remainingAllowance);
-        }
-
-        emit StrategyExecuted(strategy, data);
+        _settleDebt(released, returned);
     }
 
     /**
      * @dev Harvests rewards from a strategy
+     * @dev Stays available while the vault is paused or shut down
      * @param strategy The address of the strategy to harvest from
      * @param data The data to pass to the strategy
      */
     function harvestStrategy(
         address strategy,
         bytes calldata data
-    ) external onlyAgent nonReentrantVault whenVaultNotPaused {
-        if (!_strategies.contains(strategy)) revert StrategyDoesNotExist();
+    ) external onlyAgent nonReentrantVault {
+        _checkStrategy(strategy);
 
-        IStrategies(strategy).harvest(data);
+        StrategyLogic.harvestStrategy(strategy, data);
+    }
 
-        emit StrategyHarvested(strategy, data);
+    /**
+     * @dev Books native CORE rewards paid out by a strategy harvest as a gain for that strategy
+     * @dev The CORE is wrapped into the asset, so this reverts and the strategy keeps its
+     *      rewards unless the vault asset is the wrapper set with setWrappedNative
+     */
+    receive() external payable {
+        _checkStrategy(msg.sender);
+
+        StrategyLogic.wrapNativeReward(
+            _strategyParams[msg.sender],
+            wrappedNative,
+            msg.value
+        );
+        updateYield();
+        _realizeGain(msg.value);
     }
 
     /**
      * @dev Performs an emergency exit from a strategy
+     * @dev Stays available while the vault is paused or shut down
      * @param strategy The address of the strategy to exit
      * @param data The data to pass to the strategy
      */
     function emergencyExitStrategy(
         address strategy,
         bytes calldata data
-    ) external onlyAgent nonReentrantVault whenVaultNotPaused {
+    ) external onlyAgentOrGuardian nonReentrantVault {
+        _checkStrategy(strategy);
+
+        (uint256 returned, uint256 released) = StrategyLogic
+            .emergencyExitStrategy(_strategyParams[strategy], strategy, data);
+
+        _settleDebt(released, returned);
+    }
+
+    /**
+     * @dev Reports a strategy's realized profit or loss against its recorded debt
+     * @dev Gains and losses flow into baseAssets, so totalAssets tracks what strategies actually hold.
+     *      Vaults with a fixed yieldRate only book losses, as their yield already prices the gains
+     * @param strategy The address of the strategy to report on
+     * @return gain The profit realized since the last report
+     * @return loss The loss realized since the last report
+     */
+    function report(
+        address strategy
+    )
+        external
+        onlyAgent
+        nonReentrantVault
+        returns (uint256 gain, uint256 loss)
+    {
+        _checkStrategy(strategy);
+
+        // Settle yield on the pre-report principal before it changes
+        updateYield();
+
+        (gain, loss) = StrategyLogic.report(_strategyParams[strategy], strategy);
+
+        if (gain != 0) {
+            totalDebt += gain;
+            _realizeGain(gain);
+        } else if (loss != 0) {
+            totalDebt -= loss;
+            _realizeLoss(loss);
+        }
+    }
+
+    // ============ Internal Functions ============
+    /**
+     * @dev Pulls liquidity from the withdrawal queue until the vault holds `needed` idle assets
+     * @dev Shortfalls are left to the caller rather than realized against the vault, and
+     *      revert if they exceed maxLoss of `needed`
+     * @param needed The amount of assets the vault must hold after pulling
+     * @return loss The amount strategies failed to return
+     */
+    function _pullFromStrategies(
+        uint256 needed
+    ) internal returns (uint256 loss) {
+        uint256 released;
+        uint256 gain;
+        (loss, released, gain) = StrategyLogic.pullFromStrategies(
+            _strategyParams,
+            _withdrawalQueue,
+            needed,
+            maxLoss
+        );
+        totalDebt -= released;
+
+        if (gain != 0) {
+            updateYield();
+            _realizeGain(gain);
+        }
+    }
+
+    /**
+     * @dev Reverts unless the address is a registered strategy
+     * @param strategy The address to check
+     */
+    function _checkStrategy(address strategy) internal view {
         if (!_strategies.contains(strategy)) revert StrategyDoesNotExist();
+    }
 
-        IStrategies(strategy).emergencyExit(data);
+    /**
+     * @dev Drops debt released by a strategy and realizes any difference from what came back
+     * @param released The amount of debt released
+     * @param returned The amount of assets received by the vault
+     */
+    function _settleDebt(uint256 released, uint256 returned) internal {
+        totalDebt -= released;
+        if (returned == released) return;
+
+        updateYield();
+        if (returned > released) {
+            _realizeGain(returned - released);
+        } else {
+            _realizeLoss(released - returned);
+        }
+    }
 
-        emit EmergencyExit(strategy, data);
+    /**
+     * @dev Books a strategy gain as vault principal and charges the performance fee on it
+     * @dev The gain net of the fee is locked and released into totalAssets over
+     *      profitUnlockPeriod, so depositing right before a harvest earns nothing from it
+     * @dev Nothing is booked while a fixed yieldRate is set: the rate alone prices the vault,
+     *      so the gain only backs yield already counted and any surplus is collectable as fees
+     * @param gain The amount of profit realized
+     */
+    function _realizeGain(uint256 gain) internal {
+        if (_accounting.yieldRate != 0) return;
+
+        _accounting.baseAssets += gain;
+        AccountingLogic.lockProfit(_accounting, gain - _onGainRealized(gain));
+    }
+
+    /**
+     * @dev Writes a strategy loss off against locked profit first, then principal, then accrued yield
+     * @dev Whatever profit stays locked unlocks over a full period from now
+     * @param loss The amount of loss realized
+     */
+    function _realizeLoss(uint256 loss) internal {
+        AccountingLogic.realizeLoss(_accounting, loss);
     }
 
     // ============ View Functions ============
+    /**
+     * @dev Returns the realized profit not yet released into totalAssets
+     * @return uint256 The amount of profit still locked
+     */
+    function lockedProfit() public view returns (uint256) {
+        return AccountingLogic.lockedProfit(_accounting);
+    }
+
+    /// @notice Annual yield rate in basis points (500 = 5%)
+    function yieldRate() external view returns (uint256) {
+        return _accounting.yieldRate;
+    }
+
+    /// @notice Whether yield compounds per second instead of using the Taylor approximation
+    function continuousCompounding() external view returns (bool) {
+        return _accounting.continuousCompounding;
+    }
+
+    /// @notice Timestamp of last yield accrual
+    function lastYieldUpdate() external view returns (uint256) {
+        return _accounting.lastYieldUpdate;
+    }
+
+    /// @notice Total yield accrued but not yet distributed
+    function accruedYield() external view returns (uint256) {
+        return _accounting.accruedYield;
+    }
+
+    /// @notice Base asset amount (deposits minus withdrawals plus realized strategy P&L, excluding yield)
+    function baseAssets() external view returns (uint256) {
+        return _accounting.baseAssets;
+    }
+
+    /// @notice Period over which realized strategy profit is released into totalAssets
+    function profitUnlockPeriod() external view returns (uint256) {
+        return _accounting.profitUnlockPeriod;
+    }
+
     /**
      * @dev Checks if an address is a registered strategy
      * @param strategy The address to check
@@ -204,15 +590,41 @@ abstract contract VaultCore {
      * @return address[] Array of all strategy addresses
      */
     function getStrategies() external view returns (address[] memory) {
-        uint256 length = _strategies.length();
-        address[] memory strategiesArray = new address[](length);
-        for (uint256 i = 0; i < length; i++) {
-            strategiesArray[i] = _strategies.at(i);
-        }
-        return strategiesArray;
+        return _strategies.values();
+    }
+
+    /**
+     * @dev Returns the withdrawal queue
+     * @return address[] The strategies withdrawals pull from, first to last
+     */
+    function getWithdrawalQueue() external view returns (address[] memory) {
+        return _withdrawalQueue;
+    }
+
+    /**
+     * @dev Returns the configuration and accounting record of a strategy
+     * @param strategy The address of the strategy
+     * @return StrategyParams The strategy's debt, limits and realized P&L
+     */
+    function getStrategyParams(
+        address strategy
+    ) external view returns (StrategyParams memory) {
+        return _strategyParams[strategy];
     }
 
     // ============ Abstract Functions ============
     /// @dev Returns the underlying asset address - must be implemented by inheriting contract
     function asset() public view virtual returns (address);
+
+    /// @dev Returns the total assets managed by the vault - must be implemented by inheriting contract
+    function totalAssets() public view virtual returns (uint256);
+
+    /// @dev Accrues pending yield into state - must be implemented by inheriting contract
+    function updateYield() public virtual;
+
+    /// @dev Hook called after a strategy gain is booked, returning the fee charged on it in assets -
+    ///      must be implemented by inheriting contract
+    function _onGainRealized(
+        uint256 gain
+    ) internal virtual returns (uint256 fee);
 }
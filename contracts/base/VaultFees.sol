@@ -3,22 +3,59 @@ pragma solidity ^0.8.13;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 
 /// @title VaultFees
 /// @notice Handles fee management and treasury operations for the vault
-/// @dev Provides withdrawal fee calculation and treasury management
+/// @dev Provides withdrawal, management and performance fees and treasury management
 abstract contract VaultFees {
     using SafeERC20 for IERC20;
 
     // ============ State Variables ============
-    /// @notice Withdrawal fee in basis points (1000 = 10%)
-    /// @dev Fee charged on withdrawals, where 10000 = 100%
-    uint256 public immutable withdrawalFee;
+    /// @notice Withdrawal fee in basis points before any pending change activates
+    /// @dev Read the effective fee through withdrawalFee()
+    uint256 private _currentWithdrawalFee;
+
+    /// @notice Withdrawal fee that applies from withdrawalFeeActivation onwards
+    uint256 public pendingWithdrawalFee;
+
+    /// @notice Timestamp at which pendingWithdrawalFee takes effect (0 if none)
+    uint256 public withdrawalFeeActivation;
+
+    /// @notice Delay between proposing a withdrawal fee and it taking effect
+    uint256 public withdrawalFeeDelay;
 
     /// @notice Maximum withdrawal fee allowed (10%)
     /// @dev Prevents setting fees higher than 10%
     uint256 public constant MAX_WITHDRAWAL_FEE = 1000;
 
+    /// @notice Withdrawal fee delay applied to new vaults
+    uint256 internal constant DEFAULT_WITHDRAWAL_FEE_DELAY = 3 days;
+
+    /// @notice Maximum withdrawal fee delay allowed
+    uint256 internal constant MAX_WITHDRAWAL_FEE_DELAY = 30 days;
+
+    /// @notice Minimum delay before a withdrawal fee increase applies, whatever withdrawalFeeDelay is
+    uint256 internal constant MIN_WITHDRAWAL_FEE_INCREASE_DELAY = 1 days;
+
+    /// @notice Annual management fee in basis points, minted as shares to treasury
+    uint256 public managementFee;
+
+    /// @notice Performance fee in basis points of realized gains above the high-water mark
+    uint256 public performanceFee;
+
+    /// @notice Timestamp of the last management fee accrual
+    uint256 public lastManagementFeeAccrual;
+
+    /// @notice Highest share price (assets per 1e18 shares) on which performance fees were settled
+    uint256 public highWaterMark;
+
+    /// @notice Maximum management fee allowed (5% per year)
+    uint256 internal constant MAX_MANAGEMENT_FEE = 500;
+
+    /// @notice Maximum performance fee allowed (50%)
+    uint256 internal constant MAX_PERFORMANCE_FEE = 5000;
+
     /// @notice Treasury address for fee collection
     /// @dev Address where collected fees are sent
     address public treasury;
@@ -30,16 +67,32 @@ abstract contract VaultFees {
         address indexed oldTreasury,
         address indexed newTreasury
     );
+    event WithdrawalFeeProposed(
+        uint256 oldFee,
+        uint256 newFee,
+        uint256 activationTime
+    );
+    event WithdrawalFeeDelayUpdated(uint256 oldDelay, uint256 newDelay);
+    event ManagementFeeUpdated(uint256 oldFee, uint256 newFee);
+    event PerformanceFeeUpdated(uint256 oldFee, uint256 newFee);
+    event ManagementFeeCharged(uint256 feeAssets, uint256 shares);
+    event PerformanceFeeCharged(uint256 feeAssets, uint256 shares);
 
     // ============ Errors ============
     error WithdrawalFeeTooHigh();
     error InvalidTreasury();
+    error WithdrawalFeeDelayTooLong();
+    error ManagementFeeTooHigh();
+    error PerformanceFeeTooHigh();
 
     // ============ Modifiers (to be overridden by inheriting contract) ============
     modifier onlyManager() virtual {
         _;
     }
 
+    // Provided by the inheriting contract
+    modifier timelocked() virtual;
+
     // ============ Constructor ============
     /// @notice Initializes the fees module with withdrawal fee and treasury
     /// @param _withdrawalFee Withdrawal fee in basis points (max 1000 = 10%)
@@ -48,17 +101,19 @@ abstract contract VaultFees {
         if (_treasury == address(0)) revert InvalidTreasury();
         if (_withdrawalFee > MAX_WITHDRAWAL_FEE) revert WithdrawalFeeTooHigh();
 
-        withdrawalFee = _withdrawalFee;
+        _currentWithdrawalFee = _withdrawalFee;
+        withdrawalFeeDelay = DEFAULT_WITHDRAWAL_FEE_DELAY;
         treasury = _treasury;
     }
 
     // ============ Fee Management Functions ============
     /**
      * @dev Sets a new treasury address
+     * @dev Must be queued first while the timelock is active
      * @param newTreasury The new treasury address
      * @notice Only callable by owner
      */
-    function setTreasury(address newTreasury) external {
+    function setTreasury(address newTreasury) external timelocked {
         _requireOwner();
 
         if (newTreasury == address(0)) revert InvalidTreasury();
@@ -69,24 +124,87 @@ abstract contract VaultFees {
         emit TreasuryUpdated(oldTreasury, newTreasury);
     }
 
+    /**
+     * @dev Proposes a new withdrawal fee that takes effect after withdrawalFeeDelay
+     * @dev Replaces any pending proposal; depositors can exit before an increase applies.
+     *      An increase waits at least MIN_WITHDRAWAL_FEE_INCREASE_DELAY even if the owner
+     *      has just lowered withdrawalFeeDelay
+     * @param newFee The new withdrawal fee in basis points (max 1000 = 10%)
+     */
+    function setWithdrawalFee(uint256 newFee) external onlyManager {
+        if (newFee > MAX_WITHDRAWAL_FEE) revert WithdrawalFeeTooHigh();
+
+        uint256 currentFee = withdrawalFee();
+        uint256 delay = withdrawalFeeDelay;
+        if (newFee > currentFee && delay < MIN_WITHDRAWAL_FEE_INCREASE_DELAY) {
+            delay = MIN_WITHDRAWAL_FEE_INCREASE_DELAY;
+        }
+        uint256 activationTime = block.timestamp + delay;
+
+        _currentWithdrawalFee = currentFee;
+        pendingWithdrawalFee = newFee;
+        withdrawalFeeActivation = activationTime;
+
+        emit WithdrawalFeeProposed(currentFee, newFee, activationTime);
+    }
+
+    /**
+     * @dev Sets the delay applied to future withdrawal fee proposals
+     * @dev Increases still wait at least MIN_WITHDRAWAL_FEE_INCREASE_DELAY
+     * @param newDelay The new delay in seconds (max 30 days)
+     * @notice Only callable by owner
+     */
+    function setWithdrawalFeeDelay(uint256 newDelay) external {
+        _requireOwner();
+
+        if (newDelay > MAX_WITHDRAWAL_FEE_DELAY)
+            revert WithdrawalFeeDelayTooLong();
+
+        uint256 oldDelay = withdrawalFeeDelay;
+        withdrawalFeeDelay = newDelay;
+
+        emit WithdrawalFeeDelayUpdated(oldDelay, newDelay);
+    }
+
+    /**
+     * @dev Sets the annual management fee, settling the fee accrued at the old rate first
+     * @param newFee The new management fee in basis points (max 500 = 5%)
+     */
+    function setManagementFee(uint256 newFee) external onlyManager {
+        if (newFee > MAX_MANAGEMENT_FEE) revert ManagementFeeTooHigh();
+
+        _accrueManagementFee();
+        lastManagementFeeAccrual = block.timestamp;
+
+        uint256 oldFee = managementFee;
+        managementFee = newFee;
+
+        emit ManagementFeeUpdated(oldFee, newFee);
+    }
+
+    /**
+     * @dev Sets the performance fee charged on realized strategy gains
+     * @param newFee The new performance fee in basis points (max 5000 = 50%)
+     */
+    function setPerformanceFee(uint256 newFee) external onlyManager {
+        if (newFee > MAX_PERFORMANCE_FEE) revert PerformanceFeeTooHigh();
+
+        uint256 oldFee = performanceFee;
+        performanceFee = newFee;
+
+        emit PerformanceFeeUpdated(oldFee, newFee);
+    }
+
     /**
      * @dev Collects accumulated withdrawal fees and sends them to treasury
      * @notice Only callable by owner or manager
-     * @dev Calculates fees as vault balance minus baseAssets and accruedYield
+     * @dev Leaves the assets backing accrued and pending yield in the vault
      */
     function collectFees() external {
         // Access control check will be implemented in the inheriting contract
         _requireOwnerOrManager();
 
-        // Calculate available fees: total balance minus actual vault assets
-        uint256 vaultBalance = IERC20(asset()).balanceOf(address(this));
-        uint256 actualVaultAssets = getBaseAssets() + getAccruedYield();
-
-        if (vaultBalance <= actualVaultAssets) {
-            return; // No fees to collect
-        }
-
-        uint256 feesToCollect = vaultBalance - actualVaultAssets;
+        uint256 feesToCollect = getCollectableFees();
 
         if (feesToCollect > 0) {
             IERC20(asset()).safeTransfer(treasury, feesToCollect);
@@ -96,19 +214,17 @@ abstract contract VaultFees {
 
     // ============ View Functions ============
     /**
-     * @dev Returns the amount of fees available for collection
-     * @return uint256 The amount of fees that can be collected
+     * @dev Returns the withdrawal fee currently in effect
+     * @return uint256 The withdrawal fee in basis points (10000 = 100%)
      */
-    function getCollectableFees() external view returns (uint256) {
-        uint256 vaultBalance = IERC20(asset()).balanceOf(address(this));
-        uint256 actualVaultAssets = getBaseAssets() +
-            getAccruedYield() +
-            calculatePendingYield();
-
-        return
-            vaultBalance > actualVaultAssets
-                ? vaultBalance - actualVaultAssets
-                : 0;
+    function withdrawalFee() public view returns (uint256) {
+        if (
+            withdrawalFeeActivation != 0 &&
+            block.timestamp >= withdrawalFeeActivation
+        ) {
+            return pendingWithdrawalFee;
+        }
+        return _currentWithdrawalFee;
     }
 
     /**
@@ -116,7 +232,7 @@ abstract contract VaultFees {
      * @return uint256 The withdrawal fee (10000 = 100%)
      */
     function getWithdrawalFee() external view returns (uint256) {
-        return withdrawalFee;
+        return withdrawalFee();
     }
 
     /**
@@ -127,10 +243,82 @@ abstract contract VaultFees {
     function calculateWithdrawalFee(
         uint256 assets
     ) external view returns (uint256) {
-        return (assets * withdrawalFee) / 10000;
+        return _feeOnGross(assets);
     }
 
     // ============ Internal Functions ============
+    /**
+     * @dev Returns the withdrawal fee charged on a gross withdrawal
+     * @param grossAssets The assets withdrawn including the fee
+     * @return uint256 The fee amount
+     */
+    function _feeOnGross(uint256 grossAssets) internal view returns (uint256) {
+        return (grossAssets * withdrawalFee()) / 10000;
+    }
+
+    /**
+     * @dev Returns the gross withdrawal needed for the receiver to get `netAssets` after the fee
+     * @param netAssets The assets the receiver gets
+     * @return uint256 The assets withdrawn including the fee, rounded up
+     */
+    function _grossFromNet(uint256 netAssets) internal view returns (uint256) {
+        return
+            Math.mulDiv(
+                netAssets,
+                10000,
+                10000 - withdrawalFee(),
+                Math.Rounding.Ceil
+            );
+    }
+
+    /**
+     * @dev Mints treasury shares for the management fee accrued since the last accrual
+     */
+    function _accrueManagementFee() internal {
+        uint256 fee = managementFee;
+        if (fee == 0) return;
+
+        uint256 elapsed = block.timestamp - lastManagementFeeAccrual;
+        if (elapsed == 0) return;
+        lastManagementFeeAccrual = block.timestamp;
+
+        uint256 feeAssets = (totalAssets() * fee * elapsed) /
+            (10000 * 365 days);
+        uint256 shares = _mintFeeShares(feeAssets);
+        if (shares > 0) {
+            emit ManagementFeeCharged(feeAssets, shares);
+        }
+    }
+
+    /**
+     * @dev Mints treasury shares for the part of a realized gain that lifts the share price
+     *      above the high-water mark, then raises the mark. The price counts profit still
+     *      locked, so gains reported during an unlock period are measured against the full mark
+     * @param gain The realized gain already booked into totalAssets
+     * @return feeAssets The assets the minted fee shares are worth, zero if none were minted
+     */
+    function _chargePerformanceFee(
+        uint256 gain
+    ) internal returns (uint256 feeAssets) {
+        uint256 price = _sharePrice();
+        uint256 mark = highWaterMark;
+        if (price <= mark) return 0;
+
+        uint256 profit = Math.mulDiv(_realizedAssets(), price - mark, price);
+        if (profit > gain) profit = gain;
+
+        feeAssets = (profit * performanceFee) / 10000;
+        uint256 shares = _mintFeeShares(feeAssets);
+        if (shares > 0) {
+            price = _sharePrice();
+            emit PerformanceFeeCharged(feeAssets, shares);
+        } else {
+            feeAssets = 0;
+        }
+
+        highWaterMark = price;
+    }
+
     /**
      * @dev Internal function to check owner access
      * @dev Must be implemented by inheriting contract
@@ -147,12 +335,20 @@ abstract contract VaultFees {
     /// @dev Returns the underlying asset address - must be implemented by inheriting contract
     function asset() public view virtual returns (address);
 
-    /// @dev Returns the base assets amount - must be implemented by inheriting contract
-    function getBaseAssets() public view virtual returns (uint256);
+    /// @dev Returns the amount of fees available for collection - must be implemented by inheriting contract
+    function getCollectableFees() public view virtual returns (uint256);
+
+    /// @dev Returns the total assets managed by the vault - must be implemented by inheriting contract
+    function totalAssets() public view virtual returns (uint256);
+
+    /// @dev Returns totalAssets plus realized profit still locked - must be implemented by inheriting contract
+    function _realizedAssets() internal view virtual returns (uint256);
 
-    /// @dev Returns the accrued yield amount - must be implemented by inheriting contract
-    function getAccruedYield() public view virtual returns (uint256);
+    /// @dev Returns the realized assets backing 1e18 shares - must be implemented by inheriting contract
+    function _sharePrice() internal view virtual returns (uint256);
 
-    /// @dev Returns the pending yield amount - must be implemented by inheriting contract
-    function calculatePendingYield() public view virtual returns (uint256);
+    /// @dev Mints shares worth `feeAssets` to treasury - must be implemented by inheriting contract
+    function _mintFeeShares(
+        uint256 feeAssets
+    ) internal virtual returns (uint256 shares);
 }
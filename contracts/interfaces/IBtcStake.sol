@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+/**
+ * @title IBtcStake
+ * @dev Interface for Core Chain BTC staking records
+ * @notice Interface for self-custodial BTC stakes: BTC is locked in a timelock script on
+ *         Bitcoin and the lock transaction is relayed to Core, where it earns rewards
+ *         for its delegator through StakeHub until the lock time passes
+ */
+interface IBtcStake {
+    /**
+     * @dev Records a relayed BTC lock transaction with the caller as delegator
+     * @param txHash Hash of the Bitcoin lock transaction
+     * @param amount Amount of BTC locked
+     * @param lockTime Timestamp at which the timelock expires
+     * @param validator Address of the validator the stake is delegated to
+     */
+    function delegate(
+        bytes32 txHash,
+        uint256 amount,
+        uint256 lockTime,
+        address validator
+    ) external;
+
+    /**
+     * @dev Closes an expired stake of the caller
+     * @param txHash Hash of the Bitcoin lock transaction
+     * @return amount Amount of BTC released
+     */
+    function redeem(bytes32 txHash) external returns (uint256 amount);
+
+    /**
+     * @dev Gets a recorded stake
+     * @param txHash Hash of the Bitcoin lock transaction
+     * @return delegator Address earning the stake's rewards
+     * @return validator Address of the validator
+     * @return amount Amount of BTC locked
+     * @return lockTime Timestamp at which the timelock expires
+     */
+    function getStake(
+        bytes32 txHash
+    )
+        external
+        view
+        returns (
+            address delegator,
+            address validator,
+            uint256 amount,
+            uint256 lockTime
+        );
+
+    /**
+     * @dev Gets the BTC a delegator has staked and not yet redeemed
+     * @param delegator Address of the delegator
+     * @return uint256 Total staked amount
+     */
+    function stakedAmount(address delegator) external view returns (uint256);
+}
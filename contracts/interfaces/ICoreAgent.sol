@@ -7,6 +7,14 @@ pragma solidity ^0.8.26;
  * @notice Interface for CORE token staking operations through the agent system
  */
 interface ICoreAgent {
+    // A delegator's CORE stake on one candidate
+    struct CoreDelegator {
+        uint256 stakedAmount;
+        uint256 realtimeAmount;
+        uint256 changeRound;
+        uint256 transferredAmount;
+    }
+
     /**
      * @dev Delegates CORE tokens to a validator
      * @param validator Address of the validator to delegate to
@@ -21,6 +29,27 @@ interface ICoreAgent {
      */
     function undelegate(address validator, uint256 amount) external;
 
+    /**
+     * @dev Gets the time undelegated CORE stays locked before it can be withdrawn
+     * @return uint256 Unbonding period in seconds
+     */
+    function unbondingPeriod() external view returns (uint256);
+
+    /**
+     * @dev Gets the undelegated CORE of a delegator whose unbonding period has ended
+     * @param delegator Address of the delegator
+     * @return uint256 Amount that withdrawUnbonded would release
+     */
+    function claimableUnbonded(
+        address delegator
+    ) external view returns (uint256);
+
+    /**
+     * @dev Sends the caller's undelegated CORE whose unbonding period has ended
+     * @return amount Amount of CORE released
+     */
+    function withdrawUnbonded() external returns (uint256 amount);
+
     /**
      * @dev Claims rewards for a delegator
      * @param delegator Address of the delegator
@@ -56,6 +85,17 @@ interface ICoreAgent {
         uint256 round
     ) external view returns (uint256[] memory amounts, uint256 totalAmount);
 
+    /**
+     * @dev Gets the stake a delegator holds on a candidate
+     * @param candidate Address of the candidate
+     * @param delegator Address of the delegator
+     * @return CoreDelegator struct with the staked and real-time amounts
+     */
+    function getDelegator(
+        address candidate,
+        address delegator
+    ) external view returns (CoreDelegator memory);
+
     /**
      * @dev Distributes rewards to validators
      * @param validators Array of validator addresses
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+/**
+ * @title IRedeemQueue
+ * @dev Interface for the asynchronous redeem queue of a CoreStrategy-backed vault
+ * @notice Exposes the unbonding stake pending redeem requests hold a claim on
+ */
+interface IRedeemQueue {
+    /**
+     * @dev Gets the stake unbonding for requests not yet claimed
+     * @return uint256 Stake only claimRedeem may withdraw from the strategy
+     */
+    function reservedUnbonding() external view returns (uint256);
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+/**
+ * @title ISwapper
+ * @dev Interface for the swap adapters a vault uses to convert harvested reward tokens
+ * @notice A swapper pulls `amountIn` of `tokenIn` from the caller and sends the
+ *         `tokenOut` it receives back to the caller
+ */
+interface ISwapper {
+    /**
+     * @dev Swaps an exact amount of one token for another
+     * @param tokenIn The token to sell
+     * @param tokenOut The token to buy
+     * @param amountIn The amount of tokenIn to sell
+     * @param minAmountOut The minimum amount of tokenOut to accept
+     * @return amountOut The amount of tokenOut sent to the caller
+     */
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut
+    ) external returns (uint256 amountOut);
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/**
+ * @title IWCORE
+ * @dev Interface for the wrapped native CORE token
+ * @notice Wraps native CORE 1:1 into an ERC20 and back, in the style of WETH9
+ */
+interface IWCORE is IERC20 {
+    /**
+     * @dev Wraps the native CORE sent with the call into WCORE for the caller
+     */
+    function deposit() external payable;
+
+    /**
+     * @dev Burns WCORE from the caller and sends back the same amount of native CORE
+     * @param amount The amount to unwrap
+     */
+    function withdraw(uint256 amount) external;
+}
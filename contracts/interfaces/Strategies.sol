@@ -100,6 +100,12 @@ interface IStrategies {
      */
     function getBalance() external view returns (uint256);
 
+    /**
+     * @dev Gets the part of the balance a withdraw can pay out right now
+     * @return uint256 Balance that is not locked or still unbonding
+     */
+    function availableLiquidity() external view returns (uint256);
+
     /**
      * @dev Query the protocol with custom parameters (read-only)
      * @param selector Function selector to call on the protocol
@@ -137,12 +143,34 @@ interface IStrategies {
      */
     function harvest(bytes calldata data) external;
 
+    /**
+     * @dev Harvests rewards and converts them into the underlying token
+     * @param data Additional data needed for harvesting
+     * @param minAmountsOut Minimum underlying to accept for each known reward token
+     * @return uint256 Amount of underlying received from all swaps
+     */
+    function harvestAndSwap(
+        bytes calldata data,
+        uint256[] calldata minAmountsOut
+    ) external returns (uint256);
+
     /**
      * @dev Performs an emergency exit, withdrawing all funds from the protocol
      * @param data Additional data needed for emergency exit
      */
     function emergencyExit(bytes calldata data) external;
 
+    /**
+     * @dev Withdraws part of the position from the protocol back to the vault
+     * @param amount Amount of tokens to withdraw
+     * @param data Additional data needed for the withdrawal
+     * @return uint256 Amount of tokens sent back to the vault
+     */
+    function withdraw(
+        uint256 amount,
+        bytes calldata data
+    ) external returns (uint256);
+
     /**
      * @dev Claims rewards from the protocol
      * @param data Additional data needed for claiming rewards
@@ -11,10 +11,55 @@ import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
  * @custom:security-contact security@vaults.com
  */
 interface IVault is IERC20, IERC20Metadata {
+    // ============ Structs ============
+    struct Call {
+        bytes data;
+        bool allowFailure;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
     // ============ Events ============
     event StrategyAdded(address indexed strategy);
     event StrategyRemoved(address indexed strategy);
     event StrategyExecuted(address indexed strategy, bytes data);
+    event StrategySelectorUpdated(
+        address indexed strategy,
+        bytes4 indexed selector,
+        bool allowed
+    );
+    event RewardSwapperUpdated(address indexed token, address indexed swapper);
+    event StrategyLimitsUpdated(
+        address indexed strategy,
+        uint256 maxDebt,
+        uint256 targetAllocation
+    );
+    event DebtUpdated(
+        address indexed strategy,
+        uint256 oldDebt,
+        uint256 newDebt
+    );
+    event StrategyWithdrawn(
+        address indexed strategy,
+        uint256 amount,
+        uint256 returned
+    );
+    event WithdrawalQueueUpdated(address[] queue);
+    event MaxLossUpdated(uint256 maxLoss);
+    event ProfitUnlockPeriodUpdated(uint256 profitUnlockPeriod);
+    event DepositLimitsUpdated(
+        uint256 depositLimit,
+        uint256 accountDepositLimit
+    );
+    event StrategyReported(
+        address indexed strategy,
+        uint256 gain,
+        uint256 loss,
+        uint256 currentDebt
+    );
 
     // ============ Errors ============
     error InvalidStrategy();
@@ -22,6 +67,15 @@ interface IVault is IERC20, IERC20Metadata {
     error StrategyDoesNotExist();
     error ExecutionFailed();
     error InvalidAddress();
+    error StrategyHasDebt();
+    error InvalidAllocation();
+    error MaxDebtExceeded();
+    error AllocationExceeded();
+    error InvalidQueue();
+    error InvalidMaxLoss();
+    error ExcessiveLoss();
+    error InvalidUnlockPeriod();
+    error SelectorNotAllowed(address strategy, bytes4 selector);
 
     // ============ View Functions ============
     /**
@@ -36,6 +90,66 @@ interface IVault is IERC20, IERC20Metadata {
      */
     function totalAssets() external view returns (uint256);
 
+    /**
+     * @dev Returns the total assets currently deployed to strategies
+     * @return uint256 The sum of all strategy debts
+     */
+    function totalDebt() external view returns (uint256);
+
+    /**
+     * @dev Returns the withdrawal queue
+     * @return address[] The strategies withdrawals pull from, first to last
+     */
+    function getWithdrawalQueue() external view returns (address[] memory);
+
+    /**
+     * @dev Returns the maximum loss accepted when withdrawals pull from strategies
+     * @return uint256 The maximum loss in basis points
+     */
+    function maxLoss() external view returns (uint256);
+
+    /**
+     * @dev Returns the period over which realized strategy profit is released into totalAssets
+     * @return uint256 The unlock period in seconds
+     */
+    function profitUnlockPeriod() external view returns (uint256);
+
+    /**
+     * @dev Returns the realized profit not yet released into totalAssets
+     * @return uint256 The amount of profit still locked
+     */
+    function lockedProfit() external view returns (uint256);
+
+    /**
+     * @dev Returns the maximum total assets accepted through deposits and mints
+     * @return uint256 The vault-wide cap, type(uint256).max when uncapped
+     */
+    function depositLimit() external view returns (uint256);
+
+    /**
+     * @dev Returns the maximum assets a single account may hold through deposits and mints
+     * @return uint256 The per-account cap, type(uint256).max when uncapped
+     */
+    function accountDepositLimit() external view returns (uint256);
+
+    /**
+     * @dev Returns whether a function selector is approved for a strategy
+     * @param strategy The address of the strategy
+     * @param selector The function selector
+     * @return bool True if the selector is approved
+     */
+    function isSelectorAllowed(
+        address strategy,
+        bytes4 selector
+    ) external view returns (bool);
+
+    /**
+     * @dev Returns the swapper registered for a reward token
+     * @param token The reward token
+     * @return address The swapper, or the zero address if none is registered
+     */
+    function rewardSwapper(address token) external view returns (address);
+
     /**
      * @dev Returns the list of strategies
      * @return address[] The list of strategies
@@ -95,6 +209,94 @@ interface IVault is IERC20, IERC20Metadata {
         bytes calldata data
     ) external;
 
+    /**
+     * @dev Sets the debt ceiling and target allocation of a strategy
+     * @param strategy The address of the strategy
+     * @param maxDebt The maximum amount of assets the strategy may hold
+     * @param targetAllocation The maximum share of totalAssets in basis points
+     */
+    function setStrategyLimits(
+        address strategy,
+        uint256 maxDebt,
+        uint256 targetAllocation
+    ) external;
+
+    /**
+     * @dev Stops new deposits into a strategy by zeroing its debt limits
+     * @param strategy The address of the strategy
+     */
+    function revokeStrategy(address strategy) external;
+
+    /**
+     * @dev Sets the order in which withdrawals pull liquidity from strategies
+     * @param queue The strategies to pull from, first to last
+     */
+    function setWithdrawalQueue(address[] calldata queue) external;
+
+    /**
+     * @dev Approves or revokes function selectors for a strategy
+     * @param strategy The address of the strategy
+     * @param selectors The function selectors to update
+     * @param allowed True to approve the selectors, false to revoke them
+     */
+    function setStrategySelectors(
+        address strategy,
+        bytes4[] calldata selectors,
+        bool allowed
+    ) external;
+
+    /**
+     * @dev Registers the swapper strategies use to convert a reward token into the underlying
+     * @param token The reward token
+     * @param swapper The swapper, or the zero address to stop swapping the token
+     */
+    function setRewardSwapper(address token, address swapper) external;
+
+    /**
+     * @dev Sets the maximum loss accepted when withdrawals pull from strategies
+     * @param newMaxLoss The maximum loss in basis points
+     */
+    function setMaxLoss(uint256 newMaxLoss) external;
+
+    /**
+     * @dev Sets the period over which realized strategy profit unlocks
+     * @param period The unlock period in seconds
+     */
+    function setProfitUnlockPeriod(uint256 period) external;
+
+    /**
+     * @dev Sets the vault-wide and per-account deposit caps
+     * @param newDepositLimit Maximum total assets, type(uint256).max for no cap
+     * @param newAccountDepositLimit Maximum assets per account, type(uint256).max for no cap
+     */
+    function setDepositLimits(
+        uint256 newDepositLimit,
+        uint256 newAccountDepositLimit
+    ) external;
+
+    /**
+     * @dev Withdraws assets from a strategy back to the vault
+     * @param strategy The address of the strategy to withdraw from
+     * @param amount The amount of debt to release from the strategy
+     * @param data Additional data for the strategy withdrawal
+     * @return returned The amount of assets received by the vault
+     */
+    function withdrawFromStrategy(
+        address strategy,
+        uint256 amount,
+        bytes calldata data
+    ) external returns (uint256 returned);
+
+    /**
+     * @dev Reports a strategy's realized profit or loss against its recorded debt
+     * @param strategy The address of the strategy to report on
+     * @return gain The profit realized since the last report
+     * @return loss The loss realized since the last report
+     */
+    function report(
+        address strategy
+    ) external returns (uint256 gain, uint256 loss);
+
     /**
      * @dev Deposits assets into the vault
      * @param assets The amount of assets to deposit
@@ -139,4 +341,20 @@ interface IVault is IERC20, IERC20Metadata {
         address receiver,
         address owner
     ) external returns (uint256);
+
+    /**
+     * @dev Previews the assets a redemption would pay out, net of the withdrawal fee
+     * @param shares The amount of shares to redeem
+     * @return uint256 The amount of assets that would be withdrawn
+     */
+    function previewRedeem(uint256 shares) external view returns (uint256);
+
+    /**
+     * @dev Runs a batch of Vault calls, each checked against the caller's roles
+     * @param calls The calls to run, each optionally allowed to fail
+     * @return results The success flag and return or revert data of each call
+     */
+    function multicall(
+        Call[] calldata calls
+    ) external returns (Result[] memory results);
 }
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.13;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "../base/VaultAccessControl.sol";
+
+/// @title AccessLogic
+/// @notice Timelock queue and allowlist bookkeeping for VaultAccessControl
+/// @dev Linked as an external library to keep the vault under the contract size limit.
+///      Role checks stay in the vault; events and reverts use VaultAccessControl's declarations
+library AccessLogic {
+    // ============ Timelock Functions ============
+    /**
+     * @dev Queues a call for execution after `delay`
+     * @param operationReadyAt The vault's queued operations
+     * @param delay The vault's timelock delay
+     * @param data ABI-encoded call to a timelocked function of the vault
+     * @return id The operation identifier
+     */
+    function queueOperation(
+        mapping(bytes32 => uint256) storage operationReadyAt,
+        uint256 delay,
+        bytes calldata data
+    ) public returns (bytes32 id) {
+        if (delay == 0) revert VaultAccessControl.TimelockInactive();
+
+        id = keccak256(data);
+        if (operationReadyAt[id] != 0) {
+            revert VaultAccessControl.OperationAlreadyQueued(id);
+        }
+
+        uint256 readyAt = block.timestamp + delay;
+        operationReadyAt[id] = readyAt;
+
+        emit VaultAccessControl.OperationQueued(id, data, readyAt);
+    }
+
+    /**
+     * @dev Drops a queued operation
+     * @param operationReadyAt The vault's queued operations
+     * @param id The operation identifier
+     */
+    function cancelOperation(
+        mapping(bytes32 => uint256) storage operationReadyAt,
+        bytes32 id
+    ) public {
+        if (operationReadyAt[id] == 0) {
+            revert VaultAccessControl.OperationNotQueued(id);
+        }
+
+        delete operationReadyAt[id];
+
+        emit VaultAccessControl.OperationCancelled(id);
+    }
+
+    /**
+     * @dev Consumes a queued operation that has become ready
+     * @param operationReadyAt The vault's queued operations
+     * @param id The operation identifier
+     */
+    function consumeOperation(
+        mapping(bytes32 => uint256) storage operationReadyAt,
+        bytes32 id
+    ) public {
+        uint256 readyAt = operationReadyAt[id];
+        if (readyAt == 0) revert VaultAccessControl.OperationNotQueued(id);
+        if (block.timestamp < readyAt) {
+            revert VaultAccessControl.OperationNotReady(id, readyAt);
+        }
+
+        delete operationReadyAt[id];
+
+        emit VaultAccessControl.OperationExecuted(id);
+    }
+
+    // ============ Allowlist Functions ============
+    /**
+     * @dev Adds or removes a batch of addresses
+     * @param isAllowlisted The vault's allowlist
+     * @param accounts The addresses to update
+     * @param allowed True to add the addresses, false to remove them
+     */
+    function setAllowlisted(
+        mapping(address => bool) storage isAllowlisted,
+        address[] calldata accounts,
+        bool allowed
+    ) public {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            isAllowlisted[accounts[i]] = allowed;
+            emit VaultAccessControl.AllowlistUpdated(accounts[i], allowed);
+        }
+    }
+
+    /**
+     * @dev Adds an address to the allowlist with a proof against `root`
+     * @param isAllowlisted The vault's allowlist
+     * @param root The vault's allowlist Merkle root
+     * @param account The address to add
+     * @param proof Merkle proof for the account's leaf
+     */
+    function claimAllowlist(
+        mapping(address => bool) storage isAllowlisted,
+        bytes32 root,
+        address account,
+        bytes32[] calldata proof
+    ) public {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        if (
+            root == bytes32(0) ||
+            !MerkleProof.verifyCalldata(proof, root, leaf)
+        ) revert VaultAccessControl.InvalidAllowlistProof();
+
+        isAllowlisted[account] = true;
+        emit VaultAccessControl.AllowlistUpdated(account, true);
+    }
+}
@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "../base/VaultCore.sol";
+import "../Vault.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "./YieldMath.sol";
+
+/// @title AccountingLogic
+/// @notice Principal, yield and locked profit bookkeeping for the vault
+/// @dev Linked as an external library so the vault stays under the contract size limit.
+///      Works on VaultCore's Accounting struct in place; performance fees stay in the vault
+library AccountingLogic {
+    // ============ Constants ============
+    /// @notice Maximum profit unlock period
+    uint256 internal constant MAX_PROFIT_UNLOCK_PERIOD = 30 days;
+
+    // ============ Yield Functions ============
+    /**
+     * @dev Moves the yield pending since the last update into accruedYield
+     * @param accounting The vault's accounting
+     * @param paused Whether the vault is paused, in which case nothing accrues
+     */
+    function updateYield(
+        VaultCore.Accounting storage accounting,
+        bool paused
+    ) public {
+        if (accounting.baseAssets == 0 || accounting.yieldRate == 0 || paused) {
+            accounting.lastYieldUpdate = block.timestamp;
+            return;
+        }
+        if (block.timestamp == accounting.lastYieldUpdate) return;
+
+        uint256 yieldForPeriod = pendingYield(accounting, paused);
+        accounting.accruedYield += yieldForPeriod;
+        accounting.lastYieldUpdate = block.timestamp;
+
+        emit Vault.YieldAccrued(
+            yieldForPeriod,
+            accounting.baseAssets + accounting.accruedYield
+        );
+    }
+
+    // ============ Realization Functions ============
+    /**
+     * @dev Locks profit net of fees, adding it to whatever is still unlocking
+     * @dev Does nothing when the unlock period is zero, so the profit is released at once
+     * @param accounting The vault's accounting
+     * @param profit The profit to lock, already booked into baseAssets
+     */
+    function lockProfit(
+        VaultCore.Accounting storage accounting,
+        uint256 profit
+    ) public {
+        if (accounting.profitUnlockPeriod == 0) return;
+
+        accounting.lockedProfit = lockedProfit(accounting) + profit;
+        accounting.lastProfitLock = block.timestamp;
+    }
+
+    /**
+     * @dev Writes a loss off against locked profit first, then principal, then accrued yield
+     * @dev Whatever profit stays locked unlocks over a full period from now
+     * @param accounting The vault's accounting
+     * @param loss The amount of loss realized
+     */
+    function realizeLoss(
+        VaultCore.Accounting storage accounting,
+        uint256 loss
+    ) public {
+        uint256 locked = lockedProfit(accounting);
+        if (locked != 0) {
+            accounting.lockedProfit = locked > loss ? locked - loss : 0;
+            accounting.lastProfitLock = block.timestamp;
+        }
+
+        uint256 base = accounting.baseAssets;
+        if (loss <= base) {
+            accounting.baseAssets = base - loss;
+        } else {
+            uint256 remaining = loss - base;
+            uint256 accrued = accounting.accruedYield;
+            accounting.baseAssets = 0;
+            accounting.accruedYield = remaining < accrued
+                ? accrued - remaining
+                : 0;
+        }
+    }
+
+    /**
+     * @dev Reduces baseAssets and accruedYield proportionally on withdrawal
+     * @param accounting The vault's accounting
+     * @param withdrawnAssets Total assets being withdrawn (including fees)
+     */
+    function reduceOnWithdrawal(
+        VaultCore.Accounting storage accounting,
+        uint256 withdrawnAssets
+    ) public {
+        uint256 base = accounting.baseAssets;
+        uint256 accrued = accounting.accruedYield;
+        uint256 totalAssetsBeforeWithdrawal = base + accrued;
+
+        if (totalAssetsBeforeWithdrawal == 0) return;
+
+        uint256 baseReduction = (base * withdrawnAssets) /
+            totalAssetsBeforeWithdrawal;
+        uint256 yieldReduction = (accrued * withdrawnAssets) /
+            totalAssetsBeforeWithdrawal;
+
+        accounting.baseAssets = baseReduction > base ? 0 : base - baseReduction;
+        accounting.accruedYield = yieldReduction > accrued
+            ? 0
+            : accrued - yieldReduction;
+    }
+
+    /**
+     * @dev Sets the profit unlock period, restarting what is still locked over the new period
+     * @param accounting The vault's accounting
+     * @param period The unlock period in seconds
+     */
+    function setProfitUnlockPeriod(
+        VaultCore.Accounting storage accounting,
+        uint256 period
+    ) public {
+        if (period > MAX_PROFIT_UNLOCK_PERIOD) {
+            revert VaultCore.InvalidUnlockPeriod();
+        }
+
+        accounting.lockedProfit = lockedProfit(accounting);
+        accounting.lastProfitLock = block.timestamp;
+        accounting.profitUnlockPeriod = period;
+
+        emit VaultCore.ProfitUnlockPeriodUpdated(period);
+    }
+
+    // ============ View Functions ============
+    /**
+     * @dev Returns the vault's assets including yield, excluding profit still locked
+     * @param accounting The vault's accounting
+     * @param paused Whether the vault is paused
+     * @return uint256 The total assets
+     */
+    function totalAssets(
+        VaultCore.Accounting storage accounting,
+        bool paused
+    ) public view returns (uint256) {
+        uint256 assets = accounting.baseAssets +
+            accounting.accruedYield +
+            pendingYield(accounting, paused);
+        uint256 locked = lockedProfit(accounting);
+        return assets > locked ? assets - locked : 0;
+    }
+
+    /**
+     * @dev Returns the idle assets not owed to depositors, i.e. collected withdrawal fees
+     * @param accounting The vault's accounting
+     * @param paused Whether the vault is paused
+     * @param totalDebt The assets deployed to strategies
+     * @return uint256 The amount of fees that can be collected, capped at the idle balance
+     */
+    function collectableFees(
+        VaultCore.Accounting storage accounting,
+        bool paused,
+        uint256 totalDebt
+    ) public view returns (uint256) {
+        uint256 vaultBalance = IERC20(IERC4626(address(this)).asset())
+            .balanceOf(address(this));
+        uint256 vaultHoldings = vaultBalance + totalDebt;
+        uint256 actualVaultAssets = accounting.baseAssets +
+            accounting.accruedYield +
+            pendingYield(accounting, paused);
+
+        if (vaultHoldings <= actualVaultAssets) {
+            return 0;
+        }
+
+        uint256 fees = vaultHoldings - actualVaultAssets;
+        return fees > vaultBalance ? vaultBalance : fees;
+    }
+
+    /**
+     * @dev Returns the yield accrued since the last update
+     * @param accounting The vault's accounting
+     * @param paused Whether the vault is paused
+     * @return uint256 The pending yield, zero while paused
+     */
+    function pendingYield(
+        VaultCore.Accounting storage accounting,
+        bool paused
+    ) public view returns (uint256) {
+        uint256 rate = accounting.yieldRate;
+        // Nothing accrues while paused, so withdrawals use the price at pause time
+        if (accounting.baseAssets == 0 || rate == 0 || paused) {
+            return 0;
+        }
+
+        uint256 timeElapsed = block.timestamp - accounting.lastYieldUpdate;
+        uint256 currentTotalAssets = accounting.baseAssets +
+            accounting.accruedYield;
+        return
+            accounting.continuousCompounding
+                ? YieldMath.computeContinuousYield(
+                    currentTotalAssets,
+                    rate,
+                    timeElapsed
+                )
+                : YieldMath.computeYield(currentTotalAssets, rate, timeElapsed);
+    }
+
+    /**
+     * @dev Returns the realized profit not yet released into totalAssets
+     * @param accounting The vault's accounting
+     * @return uint256 The amount of profit still locked
+     */
+    function lockedProfit(
+        VaultCore.Accounting storage accounting
+    ) public view returns (uint256) {
+        uint256 period = accounting.profitUnlockPeriod;
+        uint256 elapsed = block.timestamp - accounting.lastProfitLock;
+        if (elapsed >= period) return 0;
+
+        return (accounting.lockedProfit * (period - elapsed)) / period;
+    }
+}
@@ -0,0 +1,495 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../base/VaultCore.sol";
+import "../interfaces/Strategies.sol";
+import "../interfaces/IWCORE.sol";
+
+/// @title StrategyLogic
+/// @notice Strategy registry and debt bookkeeping for VaultCore
+/// @dev Linked as an external library so the vault stays under the contract size limit.
+///      Runs in the vault's context: events and reverts use VaultCore's declarations, and
+///      gains and losses are returned for the vault to realize
+library StrategyLogic {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // ============ Constants ============
+    /// @notice Basis points denominator for strategy allocations
+    uint256 internal constant MAX_BPS = 10000;
+
+    /// @notice Maximum number of strategies in the withdrawal queue
+    uint256 internal constant MAX_QUEUE_LENGTH = 10;
+
+    // ============ Registry Functions ============
+    /**
+     * @dev Registers a strategy without debt limits
+     * @param strategies The vault's strategy set
+     * @param strategyParams The vault's strategy records
+     * @param strategy The address of the strategy to add
+     */
+    function addStrategy(
+        EnumerableSet.AddressSet storage strategies,
+        mapping(address => VaultCore.StrategyParams) storage strategyParams,
+        address strategy
+    ) public {
+        if (strategy == address(0)) revert VaultCore.InvalidAddress();
+        if (!strategies.add(strategy)) revert VaultCore.StrategyAlreadyExists();
+
+        VaultCore.StrategyParams storage params = strategyParams[strategy];
+        params.maxDebt = type(uint256).max;
+        params.targetAllocation = MAX_BPS;
+        params.lastReport = block.timestamp;
+
+        emit VaultCore.StrategyAdded(strategy);
+    }
+
+    /**
+     * @dev Sets the debt ceiling and target allocation of a strategy
+     * @param strategies The vault's strategy set
+     * @param strategyParams The vault's strategy records
+     * @param strategy The address of the strategy
+     * @param maxDebt The maximum amount of assets the strategy may hold
+     * @param targetAllocation The maximum share of totalAssets in basis points
+     */
+    function setStrategyLimits(
+        EnumerableSet.AddressSet storage strategies,
+        mapping(address => VaultCore.StrategyParams) storage strategyParams,
+        address strategy,
+        uint256 maxDebt,
+        uint256 targetAllocation
+    ) public {
+        if (!strategies.contains(strategy)) {
+            revert VaultCore.StrategyDoesNotExist();
+        }
+        if (targetAllocation > MAX_BPS) revert VaultCore.InvalidAllocation();
+
+        VaultCore.StrategyParams storage params = strategyParams[strategy];
+        params.maxDebt = maxDebt;
+        params.targetAllocation = targetAllocation;
+
+        emit VaultCore.StrategyLimitsUpdated(strategy, maxDebt, targetAllocation);
+    }
+
+    /**
+     * @dev Approves or revokes function selectors for a strategy
+     * @param strategies The vault's strategy set
+     * @param isSelectorAllowed The vault's selector allowlist
+     * @param strategy The address of the strategy
+     * @param selectors The function selectors to update
+     * @param allowed True to approve the selectors, false to revoke them
+     */
+    function setStrategySelectors(
+        EnumerableSet.AddressSet storage strategies,
+        mapping(address => mapping(bytes4 => bool)) storage isSelectorAllowed,
+        address strategy,
+        bytes4[] calldata selectors,
+        bool allowed
+    ) public {
+        if (!strategies.contains(strategy)) {
+            revert VaultCore.StrategyDoesNotExist();
+        }
+
+        for (uint256 i = 0; i < selectors.length; i++) {
+            isSelectorAllowed[strategy][selectors[i]] = allowed;
+            emit VaultCore.StrategySelectorUpdated(
+                strategy,
+                selectors[i],
+                allowed
+            );
+        }
+    }
+
+    /**
+     * @dev Registers the swapper for a reward token, or clears it with the zero address
+     * @dev The vault's own asset is never swapped
+     * @param rewardSwapper The vault's reward swappers
+     * @param token The reward token
+     * @param swapper The swapper to route the token through
+     */
+    function setRewardSwapper(
+        mapping(address => address) storage rewardSwapper,
+        address token,
+        address swapper
+    ) public {
+        if (token == address(0) || token == address(_asset())) {
+            revert VaultCore.InvalidAddress();
+        }
+
+        rewardSwapper[token] = swapper;
+
+        emit VaultCore.RewardSwapperUpdated(token, swapper);
+    }
+
+    /**
+     * @dev Replaces the withdrawal queue
+     * @param strategies The vault's strategy set
+     * @param withdrawalQueue The vault's withdrawal queue
+     * @param queue The strategies to pull from, first to last
+     */
+    function setWithdrawalQueue(
+        EnumerableSet.AddressSet storage strategies,
+        address[] storage withdrawalQueue,
+        address[] calldata queue
+    ) public {
+        uint256 length = queue.length;
+        if (length > MAX_QUEUE_LENGTH) revert VaultCore.InvalidQueue();
+
+        for (uint256 i = 0; i < length; i++) {
+            if (!strategies.contains(queue[i])) {
+                revert VaultCore.StrategyDoesNotExist();
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (queue[i] == queue[j]) revert VaultCore.InvalidQueue();
+            }
+        }
+
+        while (withdrawalQueue.length != 0) withdrawalQueue.pop();
+        for (uint256 i = 0; i < length; i++) withdrawalQueue.push(queue[i]);
+
+        emit VaultCore.WithdrawalQueueUpdated(queue);
+    }
+
+    /**
+     * @dev Unregisters a strategy without debt and drops it from the withdrawal queue
+     * @param strategies The vault's strategy set
+     * @param strategyParams The vault's strategy records
+     * @param withdrawalQueue The vault's withdrawal queue
+     * @param strategy The address of the strategy to remove
+     */
+    function removeStrategy(
+        EnumerableSet.AddressSet storage strategies,
+        mapping(address => VaultCore.StrategyParams) storage strategyParams,
+        address[] storage withdrawalQueue,
+        address strategy
+    ) public {
+        if (!strategies.contains(strategy)) {
+            revert VaultCore.StrategyDoesNotExist();
+        }
+        if (strategyParams[strategy].currentDebt > 0) {
+            revert VaultCore.StrategyHasDebt();
+        }
+
+        strategies.remove(strategy);
+        delete strategyParams[strategy];
+
+        // Preserve the order of the rest of the queue
+        uint256 length = withdrawalQueue.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (withdrawalQueue[i] == strategy) {
+                for (uint256 j = i; j < length - 1; j++) {
+                    withdrawalQueue[j] = withdrawalQueue[j + 1];
+                }
+                withdrawalQueue.pop();
+                break;
+            }
+        }
+
+        emit VaultCore.StrategyRemoved(strategy);
+    }
+
+    // ============ Operation Functions ============
+    /**
+     * @dev Calls a strategy with calldata whose selector is approved for it
+     * @param isSelectorAllowed The vault's selector allowlist
+     * @param strategy The address of the strategy to execute
+     * @param data The data to pass to the strategy
+     */
+    function executeStrategy(
+        mapping(address => mapping(bytes4 => bool)) storage isSelectorAllowed,
+        address strategy,
+        bytes calldata data
+    ) public {
+        bytes4 selector = bytes4(data);
+        if (!isSelectorAllowed[strategy][selector]) {
+            revert VaultCore.SelectorNotAllowed(strategy, selector);
+        }
+
+        (bool success, ) = strategy.call(data);
+        if (!success) revert VaultCore.ExecutionFailed();
+
+        emit VaultCore.StrategyExecuted(strategy, data);
+    }
+
+    /**
+     * @dev Sends assets to a strategy within its limits and adds what it took to its debt
+     * @param params The strategy's accounting record
+     * @param strategy The address of the strategy to deposit to
+     * @param amount The amount of assets to deposit
+     * @param totalAssets The vault's total assets, for the allocation check
+     * @param data Additional data for the strategy execution
+     * @return deployed The amount of assets the strategy took
+     */
+    function depositToStrategy(
+        VaultCore.StrategyParams storage params,
+        address strategy,
+        uint256 amount,
+        uint256 totalAssets,
+        bytes calldata data
+    ) public returns (uint256 deployed) {
+        if (amount == 0) revert VaultCore.InvalidAddress(); // Reusing error for zero amount
+
+        IERC20 asset = _asset();
+        uint256 vaultBalance = asset.balanceOf(address(this));
+        if (vaultBalance < amount) revert VaultCore.InsufficientBalance();
+
+        // Enforce the strategy's debt ceiling and allocation
+        uint256 oldDebt = params.currentDebt;
+        if (oldDebt + amount > params.maxDebt) {
+            revert VaultCore.MaxDebtExceeded();
+        }
+        if ((oldDebt + amount) * MAX_BPS > totalAssets * params.targetAllocation) {
+            revert VaultCore.AllocationExceeded();
+        }
+
+        // Approve strategy to spend vault's tokens (safe approval pattern)
+        asset.safeIncreaseAllowance(strategy, amount);
+
+        IStrategies(strategy).execute(amount, data);
+
+        // Reset allowance to zero for security (only if there's remaining allowance)
+        uint256 remainingAllowance = asset.allowance(address(this), strategy);
+        if (remainingAllowance > 0) {
+            asset.safeDecreaseAllowance(strategy, remainingAllowance);
+        }
+
+        // Track what the strategy now owes the vault
+        deployed = vaultBalance - asset.balanceOf(address(this));
+        params.currentDebt = oldDebt + deployed;
+
+        emit VaultCore.DebtUpdated(strategy, oldDebt, params.currentDebt);
+        emit VaultCore.StrategyExecuted(strategy, data);
+    }
+
+    /**
+     * @dev Pulls assets out of a strategy, releases the debt that left it and records the difference
+     * @dev Debt is released by the drop in the strategy's reported balance, so stake a strategy
+     *      keeps unbonding stays on its debt instead of being booked as a loss
+     * @param params The strategy's accounting record
+     * @param strategy The address of the strategy to withdraw from
+     * @param amount The amount of assets to ask the strategy for
+     * @param data Additional data for the strategy withdrawal
+     * @return returned The amount of assets received by the vault
+     * @return released The amount of debt released
+     */
+    function withdrawFromStrategy(
+        VaultCore.StrategyParams storage params,
+        address strategy,
+        uint256 amount,
+        bytes memory data
+    ) public returns (uint256 returned, uint256 released) {
+        IERC20 asset = _asset();
+        uint256 balanceBefore = asset.balanceOf(address(this));
+        uint256 heldBefore = IStrategies(strategy).getBalance();
+        IStrategies(strategy).withdraw(amount, data);
+        returned = asset.balanceOf(address(this)) - balanceBefore;
+        uint256 heldAfter = IStrategies(strategy).getBalance();
+        released = heldBefore > heldAfter ? heldBefore - heldAfter : 0;
+
+        uint256 oldDebt = params.currentDebt;
+        if (released > oldDebt) released = oldDebt;
+        params.currentDebt = oldDebt - released;
+        _recordResult(params, returned, released);
+
+        emit VaultCore.DebtUpdated(strategy, oldDebt, params.currentDebt);
+        emit VaultCore.StrategyWithdrawn(strategy, amount, returned);
+    }
+
+    /**
+     * @dev Pulls liquidity from the withdrawal queue until the vault holds `needed` idle assets
+     * @dev Strategies are asked for at most their debt and the liquidity they can pay out
+     *      now, and skipped when they have none, so locked or unbonding stake stays put.
+     *      Debt that left a strategy without reaching the vault is a loss, recorded against
+     *      the strategy but left for the caller to absorb, and the pull reverts if losses
+     *      exceed `maxLoss` of `needed`
+     * @param strategyParams The vault's strategy records
+     * @param withdrawalQueue The vault's withdrawal queue
+     * @param needed The amount of assets the vault must hold after pulling
+     * @param maxLoss The maximum shortfall in basis points of `needed`
+     * @return loss The amount strategies failed to return
+     * @return released The total debt released
+     * @return gain The amount strategies returned above the debt released
+     */
+    function pullFromStrategies(
+        mapping(address => VaultCore.StrategyParams) storage strategyParams,
+        address[] storage withdrawalQueue,
+        uint256 needed,
+        uint256 maxLoss
+    ) public returns (uint256 loss, uint256 released, uint256 gain) {
+        uint256 idle = _asset().balanceOf(address(this));
+        if (idle >= needed) return (0, 0, 0);
+
+        for (uint256 i = 0; i < withdrawalQueue.length; i++) {
+            if (idle + loss >= needed) break;
+
+            (uint256 debt, uint256 returned) = _pull(
+                strategyParams,
+                withdrawalQueue[i],
+                needed - idle - loss
+            );
+            released += debt;
+            if (returned > debt) gain += returned - debt;
+            if (returned < debt) loss += debt - returned;
+            idle += returned;
+        }
+
+        if (loss * MAX_BPS > needed * maxLoss) revert VaultCore.ExcessiveLoss();
+    }
+
+    /**
+     * @dev Harvests rewards from a strategy
+     * @param strategy The address of the strategy to harvest from
+     * @param data The data to pass to the strategy
+     */
+    function harvestStrategy(address strategy, bytes calldata data) public {
+        IStrategies(strategy).harvest(data);
+
+        emit VaultCore.StrategyHarvested(strategy, data);
+    }
+
+    /**
+     * @dev Wraps native CORE a strategy sent the vault and records it as that strategy's gain
+     * @dev Reverts unless the wrapper is the vault asset and minted the full amount to the vault
+     * @param params The strategy's accounting record
+     * @param wrapper The vault's configured WCORE-style wrapper
+     * @param amount The amount of native CORE received
+     */
+    function wrapNativeReward(
+        VaultCore.StrategyParams storage params,
+        address wrapper,
+        uint256 amount
+    ) public {
+        IERC20 asset = _asset();
+        if (wrapper == address(0) || wrapper != address(asset)) {
+            revert VaultCore.NativeRewardsNotAccepted();
+        }
+
+        uint256 balanceBefore = asset.balanceOf(address(this));
+        IWCORE(wrapper).deposit{value: amount}();
+        if (asset.balanceOf(address(this)) - balanceBefore < amount) {
+            revert VaultCore.NativeRewardsNotAccepted();
+        }
+
+        params.totalGain += amount;
+        params.lastReport = block.timestamp;
+    }
+
+    /**
+     * @dev Unwinds a strategy and settles its debt against what came back
+     * @dev Whatever the strategy still reports holding afterwards, such as stake that is
+     *      still unbonding, stays on its debt for a later withdrawal
+     * @param params The strategy's accounting record
+     * @param strategy The address of the strategy to exit
+     * @param data The data to pass to the strategy
+     * @return returned The amount of assets received by the vault
+     * @return released The amount of debt released
+     */
+    function emergencyExitStrategy(
+        VaultCore.StrategyParams storage params,
+        address strategy,
+        bytes calldata data
+    ) public returns (uint256 returned, uint256 released) {
+        IERC20 asset = _asset();
+        uint256 balanceBefore = asset.balanceOf(address(this));
+        IStrategies(strategy).emergencyExit(data);
+        returned = asset.balanceOf(address(this)) - balanceBefore;
+
+        uint256 oldDebt = params.currentDebt;
+        uint256 remaining = IStrategies(strategy).getBalance();
+        if (remaining > oldDebt) remaining = oldDebt;
+        released = oldDebt - remaining;
+        params.currentDebt = remaining;
+        params.lastReport = block.timestamp;
+        _recordResult(params, returned, released);
+
+        emit VaultCore.EmergencyExit(strategy, data);
+    }
+
+    /**
+     * @dev Marks a strategy's debt to its reported balance
+     * @param params The strategy's accounting record
+     * @param strategy The address of the strategy to report on
+     * @return gain The profit since the last report
+     * @return loss The loss since the last report
+     */
+    function report(
+        VaultCore.StrategyParams storage params,
+        address strategy
+    ) public returns (uint256 gain, uint256 loss) {
+        uint256 currentBalance = IStrategies(strategy).getBalance();
+        uint256 debt = params.currentDebt;
+
+        if (currentBalance > debt) {
+            gain = currentBalance - debt;
+        } else {
+            loss = debt - currentBalance;
+        }
+
+        params.currentDebt = currentBalance;
+        params.lastReport = block.timestamp;
+        _recordResult(params, currentBalance, debt);
+
+        emit VaultCore.StrategyReported(strategy, gain, loss, currentBalance);
+    }
+
+    // ============ Internal Functions ============
+    /**
+     * @dev Withdraws up to `wanted` from a strategy, capped by its debt and available liquidity
+     * @param strategyParams The vault's strategy records
+     * @param strategy The address of the strategy to withdraw from
+     * @param wanted The amount of assets still needed
+     * @return released The amount of debt released
+     * @return returned The amount of assets received by the vault
+     */
+    function _pull(
+        mapping(address => VaultCore.StrategyParams) storage strategyParams,
+        address strategy,
+        uint256 wanted
+    ) private returns (uint256 released, uint256 returned) {
+        VaultCore.StrategyParams storage params = strategyParams[strategy];
+        uint256 amount = wanted < params.currentDebt
+            ? wanted
+            : params.currentDebt;
+        uint256 available = IStrategies(strategy).availableLiquidity();
+        if (available < amount) amount = available;
+        if (amount == 0) return (0, 0);
+
+        (returned, released) = withdrawFromStrategy(
+            params,
+            strategy,
+            amount,
+            ""
+        );
+    }
+
+    /**
+     * @dev Returns the vault asset
+     * @dev The library runs in the vault's context, so this asks the vault itself
+     * @return IERC20 The underlying asset of the vault
+     */
+    function _asset() private view returns (IERC20) {
+        return IERC20(IERC4626(address(this)).asset());
+    }
+
+    /**
+     * @dev Adds the difference between what a strategy holds or returned and its debt to its realized P&L
+     * @param params The strategy's accounting record
+     * @param value The assets returned or reported
+     * @param debt The debt settled against them
+     */
+    function _recordResult(
+        VaultCore.StrategyParams storage params,
+        uint256 value,
+        uint256 debt
+    ) private {
+        if (value > debt) {
+            params.totalGain += value - debt;
+        } else if (value < debt) {
+            params.totalLoss += debt - value;
+        }
+    }
+}
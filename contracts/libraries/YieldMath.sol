@@ -8,6 +8,8 @@ library YieldMath {
     // ============ Constants ============
     /// @notice Fixed point scale factor (18 decimals)
     uint256 private constant SCALE = 1e18;
+    /// @notice Fixed point scale factor for per-second compounding (27 decimals)
+    uint256 internal constant RAY = 1e27;
     /// @notice Seconds in a year for compound interest calculations
     uint256 private constant SECONDS_PER_YEAR = 365 days;
     /// @notice Threshold for using linear approximation (7 days)
@@ -90,6 +92,52 @@ library YieldMath {
         }
     }
 
+    /**
+     * @dev Computes yield compounded every second, converging on continuous compounding
+     * @dev Unlike computeYield, has no period cap and keeps full precision at low rates
+     * @param principal The principal amount to calculate yield for
+     * @param yieldRate The annual yield rate in basis points
+     * @param timeElapsed The time elapsed in seconds
+     * @return uint256 The compounded yield amount
+     */
+    function computeContinuousYield(
+        uint256 principal,
+        uint256 yieldRate,
+        uint256 timeElapsed
+    ) internal pure returns (uint256) {
+        if (principal == 0 || yieldRate == 0 || timeElapsed == 0) {
+            return 0;
+        }
+
+        uint256 growth = rpow(perSecondRate(yieldRate), timeElapsed);
+        return (principal * (growth - RAY)) / RAY;
+    }
+
+    /**
+     * @dev Converts an annual rate to a per-second growth factor
+     * @param yieldRate The annual yield rate in basis points
+     * @return uint256 The per-second growth factor in ray (1e27 = no growth)
+     */
+    function perSecondRate(uint256 yieldRate) internal pure returns (uint256) {
+        return RAY + (yieldRate * RAY) / (10000 * SECONDS_PER_YEAR);
+    }
+
+    /**
+     * @dev Raises a ray fixed-point number to an integer power by repeated squaring
+     * @param x The base in ray
+     * @param n The exponent
+     * @return z x^n in ray, rounded half up at each step
+     */
+    function rpow(uint256 x, uint256 n) internal pure returns (uint256 z) {
+        z = n % 2 != 0 ? x : RAY;
+        for (n /= 2; n != 0; n /= 2) {
+            x = (x * x + RAY / 2) / RAY;
+            if (n % 2 != 0) {
+                z = (z * x + RAY / 2) / RAY;
+            }
+        }
+    }
+
     /**
      * @dev Calculates simple linear yield for a given period
      * @param principal The principal amount
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IBtcStake.sol";
+
+/**
+ * @title MockBtcStake
+ * @dev Mock implementation of Core Chain BTC staking for testing purposes
+ * @notice A BTC-pegged token held by this mock stands in for the BTC locked on Bitcoin:
+ *         delegate takes it in as the lock transaction is relayed, redeem hands it back
+ *         once the lock time has passed
+ */
+contract MockBtcStake is IBtcStake {
+    using SafeERC20 for IERC20;
+
+    // A relayed lock transaction
+    struct Stake {
+        address delegator;
+        address validator;
+        uint256 amount;
+        uint256 lockTime;
+    }
+
+    // Mock state
+    address public immutable btcToken;
+    mapping(bytes32 => Stake) internal _stakes; // lock tx hash => stake
+    mapping(address => uint256) public override stakedAmount; // delegator => total amount
+
+    // Events for testing
+    event BtcDelegated(
+        bytes32 indexed txHash,
+        address indexed delegator,
+        address indexed validator,
+        uint256 amount,
+        uint256 lockTime
+    );
+    event BtcRedeemed(
+        bytes32 indexed txHash,
+        address indexed delegator,
+        uint256 amount
+    );
+
+    constructor(address _btcToken) {
+        require(_btcToken != address(0), "Invalid BTC token address");
+        btcToken = _btcToken;
+    }
+
+    /**
+     * @dev Records a relayed BTC lock transaction with the caller as delegator
+     * @param txHash Hash of the Bitcoin lock transaction
+     * @param amount Amount of BTC locked
+     * @param lockTime Timestamp at which the timelock expires
+     * @param validator Address of the validator the stake is delegated to
+     */
+    function delegate(
+        bytes32 txHash,
+        uint256 amount,
+        uint256 lockTime,
+        address validator
+    ) external override {
+        require(txHash != bytes32(0), "Invalid tx hash");
+        require(_stakes[txHash].amount == 0, "Tx already relayed");
+        require(amount > 0, "Amount must be greater than 0");
+        require(lockTime > block.timestamp, "Lock time already passed");
+        require(validator != address(0), "Invalid validator address");
+
+        // Take the pegged tokens in place of the BTC locked on Bitcoin
+        IERC20(btcToken).safeTransferFrom(msg.sender, address(this), amount);
+
+        _stakes[txHash] = Stake(msg.sender, validator, amount, lockTime);
+        stakedAmount[msg.sender] += amount;
+
+        emit BtcDelegated(txHash, msg.sender, validator, amount, lockTime);
+    }
+
+    /**
+     * @dev Closes an expired stake of the caller and returns its tokens
+     * @param txHash Hash of the Bitcoin lock transaction
+     * @return amount Amount of BTC released
+     */
+    function redeem(
+        bytes32 txHash
+    ) external override returns (uint256 amount) {
+        Stake memory stake = _stakes[txHash];
+        require(stake.delegator == msg.sender, "Not the delegator");
+        require(block.timestamp >= stake.lockTime, "Stake still locked");
+
+        amount = stake.amount;
+        delete _stakes[txHash];
+        stakedAmount[msg.sender] -= amount;
+
+        IERC20(btcToken).safeTransfer(msg.sender, amount);
+
+        emit BtcRedeemed(txHash, msg.sender, amount);
+    }
+
+    /**
+     * @dev Gets a recorded stake
+     * @param txHash Hash of the Bitcoin lock transaction
+     * @return delegator Address earning the stake's rewards
+     * @return validator Address of the validator
+     * @return amount Amount of BTC locked
+     * @return lockTime Timestamp at which the timelock expires
+     */
+    function getStake(
+        bytes32 txHash
+    )
+        external
+        view
+        override
+        returns (
+            address delegator,
+            address validator,
+            uint256 amount,
+            uint256 lockTime
+        )
+    {
+        Stake memory stake = _stakes[txHash];
+        return (stake.delegator, stake.validator, stake.amount, stake.lockTime);
+    }
+}
@@ -13,11 +13,20 @@ import "../interfaces/ICoreAgent.sol";
 contract MockCoreAgent is ICoreAgent {
     using SafeERC20 for IERC20;
 
+    // Undelegated tokens waiting out the unbonding period
+    struct Unbonding {
+        uint256 amount;
+        uint256 releaseTime;
+    }
+
     // Mock state
     address public immutable coreToken;
     mapping(address => mapping(address => uint256)) public delegatedAmounts; // delegator => validator => amount
     mapping(address => uint256) public totalDelegated; // delegator => total amount
+    mapping(address => uint256) public candidateStake; // validator => total amount of all delegators
     mapping(address => uint256) public pendingRewards; // delegator => pending rewards
+    mapping(address => Unbonding[]) internal _unbondings; // delegator => unbonding entries
+    uint256 public unbondingPeriod; // 0 returns undelegated tokens right away
 
     bool public shouldFailDelegate = false;
     bool public shouldFailUndelegate = false;
@@ -39,6 +48,7 @@ contract MockCoreAgent is ICoreAgent {
         uint256 roundTag
     );
     event NewRoundSet(address[] validators, uint256 round);
+    event UnbondingWithdrawn(address indexed delegator, uint256 amount);
 
     constructor(address _coreToken) {
         require(_coreToken != address(0), "Invalid core token address");
@@ -58,6 +68,14 @@ contract MockCoreAgent is ICoreAgent {
         shouldFailUndelegate = _shouldFailUndelegate;
     }
 
+    /**
+     * @dev Sets the unbonding period applied to later undelegations (for testing)
+     * @param period Unbonding period in seconds
+     */
+    function setUnbondingPeriod(uint256 period) external {
+        unbondingPeriod = period;
+    }
+
     /**
      * @dev Sets pending rewards for a delegator (for testing)
      * @param delegator Address of the delegator
@@ -86,6 +104,7 @@ contract MockCoreAgent is ICoreAgent {
         // Update delegation records
         delegatedAmounts[msg.sender][validator] += amount;
         totalDelegated[msg.sender] += amount;
+        candidateStake[validator] += amount;
 
         emit Delegated(msg.sender, validator, amount);
     }
@@ -100,31 +119,65 @@ contract MockCoreAgent is ICoreAgent {
         require(validator != address(0), "Invalid validator address");
         require(amount > 0, "Amount must be greater than 0");
 
-        // For emergency exits (when trying to withdraw total amount), allow any validator
-        if (amount == totalDelegated[msg.sender]) {
-            // Clear all delegations and use total delegated amount
-            totalDelegated[msg.sender] = 0;
-            // Note: In a real implementation, we'd iterate through all validators
-            // For mock purposes, we'll just clear the current validator
-            if (delegatedAmounts[msg.sender][validator] > 0) {
-                delegatedAmounts[msg.sender][validator] = 0;
-            }
+        require(
+            delegatedAmounts[msg.sender][validator] >= amount,
+            "Insufficient delegated amount"
+        );
+        delegatedAmounts[msg.sender][validator] -= amount;
+        totalDelegated[msg.sender] -= amount;
+        candidateStake[validator] -= amount;
+
+        // Transfer tokens back to delegator, or lock them until unbonded
+        if (unbondingPeriod == 0) {
+            IERC20(coreToken).safeTransfer(msg.sender, amount);
         } else {
-            // Normal undelegate: check specific validator has enough delegation
-            require(
-                delegatedAmounts[msg.sender][validator] >= amount,
-                "Insufficient delegated amount"
+            _unbondings[msg.sender].push(
+                Unbonding(amount, block.timestamp + unbondingPeriod)
             );
-            delegatedAmounts[msg.sender][validator] -= amount;
-            totalDelegated[msg.sender] -= amount;
         }
 
-        // Transfer tokens back to delegator
-        IERC20(coreToken).safeTransfer(msg.sender, amount);
-
         emit Undelegated(msg.sender, validator, amount);
     }
 
+    /**
+     * @dev Gets the unbonded tokens of a delegator that can be withdrawn now
+     * @param delegator Address of the delegator
+     * @return amount Matured unbonding amount
+     */
+    function claimableUnbonded(
+        address delegator
+    ) external view override returns (uint256 amount) {
+        Unbonding[] storage entries = _unbondings[delegator];
+        for (uint256 i = 0; i < entries.length; i++) {
+            if (entries[i].releaseTime <= block.timestamp) {
+                amount += entries[i].amount;
+            }
+        }
+    }
+
+    /**
+     * @dev Sends the caller's matured unbonding entries back to it
+     * @return amount Amount of tokens released
+     */
+    function withdrawUnbonded() external override returns (uint256 amount) {
+        Unbonding[] storage entries = _unbondings[msg.sender];
+        uint256 i = 0;
+        while (i < entries.length) {
+            if (entries[i].releaseTime <= block.timestamp) {
+                amount += entries[i].amount;
+                entries[i] = entries[entries.length - 1];
+                entries.pop();
+            } else {
+                i++;
+            }
+        }
+
+        if (amount > 0) {
+            IERC20(coreToken).safeTransfer(msg.sender, amount);
+        }
+        emit UnbondingWithdrawn(msg.sender, amount);
+    }
+
     /**
      * @dev Claims rewards for a delegator
      * @param delegator Address of the delegator
@@ -162,6 +215,7 @@ contract MockCoreAgent is ICoreAgent {
 
     /**
      * @dev Gets stake amounts for candidates
+     * @notice Mock: reports what all delegators have staked on each candidate
      * @param candidates Array of candidate addresses
      * @return amounts Array of stake amounts for each candidate
      * @return totalAmount Total stake amount across all candidates
@@ -171,7 +225,7 @@ contract MockCoreAgent is ICoreAgent {
         uint256 /* round */
     )
         external
-        pure
+        view
         override
         returns (uint256[] memory amounts, uint256 totalAmount)
     {
@@ -179,12 +233,41 @@ contract MockCoreAgent is ICoreAgent {
         totalAmount = 0;
 
         for (uint256 i = 0; i < candidates.length; i++) {
-            // Mock: return some stake amount based on candidate address
-            amounts[i] = uint256(uint160(candidates[i])) % 1000000; // Mock stake amount
+            amounts[i] = candidateStake[candidates[i]];
             totalAmount += amounts[i];
         }
     }
 
+    /**
+     * @dev Gets the stake a delegator holds on a candidate
+     * @param candidate Address of the candidate
+     * @param delegator Address of the delegator
+     * @return CoreDelegator struct with the staked and real-time amounts
+     */
+    function getDelegator(
+        address candidate,
+        address delegator
+    ) external view override returns (CoreDelegator memory) {
+        uint256 amount = delegatedAmounts[delegator][candidate];
+        return CoreDelegator(amount, amount, 0, 0);
+    }
+
+    /**
+     * @dev Cuts a delegation without returning tokens, like a validator slash (for testing)
+     * @param delegator Address of the delegator
+     * @param validator Address of the validator
+     * @param amount Amount to cut
+     */
+    function slash(
+        address delegator,
+        address validator,
+        uint256 amount
+    ) external {
+        delegatedAmounts[delegator][validator] -= amount;
+        totalDelegated[delegator] -= amount;
+        candidateStake[validator] -= amount;
+    }
+
     /**
      * @dev Distributes rewards to validators
      * @param validators Array of validator addresses
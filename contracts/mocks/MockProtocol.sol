@@ -17,6 +17,7 @@ contract MockProtocol {
     IERC20 public immutable rewardToken;
     mapping(address => uint256) public deposits;
     mapping(address => uint256) public rewards;
+    uint256 public withdrawSlippage;
 
     // Events
     event Deposited(address indexed user, uint256 amount);
@@ -57,9 +58,10 @@ contract MockProtocol {
         if (deposits[msg.sender] < amount) revert InsufficientBalance();
 
         deposits[msg.sender] -= amount;
-        underlyingToken.safeTransfer(msg.sender, amount);
+        uint256 received = amount - (amount * withdrawSlippage) / 10000;
+        underlyingToken.safeTransfer(msg.sender, received);
 
-        emit Withdrawn(msg.sender, amount);
+        emit Withdrawn(msg.sender, received);
     }
 
     /**
@@ -75,6 +77,36 @@ contract MockProtocol {
         emit RewardsClaimed(msg.sender, rewardAmount);
     }
 
+    /**
+     * @dev Credits extra balance to a depositor to simulate yield (testing only)
+     * @notice The protocol must already hold enough underlying to back the credit
+     * @param user Address of the depositor
+     * @param amount Amount of yield to credit
+     */
+    function simulateYield(address user, uint256 amount) external {
+        deposits[user] += amount;
+    }
+
+    /**
+     * @dev Removes balance from a depositor to simulate a loss (testing only)
+     * @param user Address of the depositor
+     * @param amount Amount of balance lost
+     */
+    function simulateLoss(address user, uint256 amount) external {
+        if (deposits[user] < amount) revert InsufficientBalance();
+
+        deposits[user] -= amount;
+        underlyingToken.safeTransfer(msg.sender, amount);
+    }
+
+    /**
+     * @dev Sets a haircut applied to every withdrawal to simulate slippage (testing only)
+     * @param bps Share of each withdrawal that is not paid out, in basis points
+     */
+    function setWithdrawSlippage(uint256 bps) external {
+        withdrawSlippage = bps;
+    }
+
     /**
      * @dev Gets the balance of a user
      * @param user Address of the user
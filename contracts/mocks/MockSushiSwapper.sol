@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/ISwapper.sol";
+import "./MockSushiSwap.sol";
+
+/**
+ * @title MockSushiSwapper
+ * @dev A swapper adapter that routes swaps through a MockSushiSwap pool
+ * @notice This is used for testing reward conversion on harvest
+ */
+contract MockSushiSwapper is ISwapper {
+    using SafeERC20 for IERC20;
+
+    MockSushiSwap public immutable pool;
+
+    // Errors
+    error UnsupportedPair();
+
+    constructor(address _pool) {
+        pool = MockSushiSwap(_pool);
+    }
+
+    /**
+     * @dev Swaps `amountIn` of `tokenIn` for `tokenOut` through the pool
+     * @param tokenIn Token to sell
+     * @param tokenOut Token to buy
+     * @param amountIn Amount of tokenIn to sell
+     * @param minAmountOut Minimum amount of tokenOut to receive
+     * @return amountOut Amount of tokenOut sent to the caller
+     */
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut
+    ) external returns (uint256 amountOut) {
+        address token0 = address(pool.token0());
+        address token1 = address(pool.token1());
+        bool zeroForOne = tokenIn == token0 && tokenOut == token1;
+        if (!zeroForOne && !(tokenIn == token1 && tokenOut == token0))
+            revert UnsupportedPair();
+
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).forceApprove(address(pool), amountIn);
+
+        uint256 balanceBefore = IERC20(tokenOut).balanceOf(address(this));
+        pool.swap(amountIn, zeroForOne, minAmountOut);
+        amountOut = IERC20(tokenOut).balanceOf(address(this)) - balanceBefore;
+
+        IERC20(tokenOut).safeTransfer(msg.sender, amountOut);
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title MockWCORE
+/// @notice WETH9-style wrapped CORE for testing native vaults
+contract MockWCORE is ERC20 {
+    constructor() ERC20("Wrapped CORE", "WCORE") {}
+
+    receive() external payable {
+        deposit();
+    }
+
+    function deposit() public payable {
+        _mint(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 amount) external {
+        _burn(msg.sender, amount);
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "WCORE: transfer failed");
+    }
+}
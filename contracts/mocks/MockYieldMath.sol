@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../libraries/YieldMath.sol";
+
+/**
+ * @title MockYieldMath
+ * @dev Exposes YieldMath internals for testing
+ * @notice This is used for testing the YieldMath library precision
+ */
+contract MockYieldMath {
+    function computeYield(
+        uint256 principal,
+        uint256 yieldRate,
+        uint256 timeElapsed
+    ) external pure returns (uint256) {
+        return YieldMath.computeYield(principal, yieldRate, timeElapsed);
+    }
+
+    function computeContinuousYield(
+        uint256 principal,
+        uint256 yieldRate,
+        uint256 timeElapsed
+    ) external pure returns (uint256) {
+        return
+            YieldMath.computeContinuousYield(principal, yieldRate, timeElapsed);
+    }
+
+    function rpow(uint256 x, uint256 n) external pure returns (uint256) {
+        return YieldMath.rpow(x, n);
+    }
+}
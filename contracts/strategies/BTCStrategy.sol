@@ -0,0 +1,508 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "../interfaces/Strategies.sol";
+import "../interfaces/IBtcStake.sol";
+import "../interfaces/IStakeHub.sol";
+import "../interfaces/IWCORE.sol";
+import "../interfaces/ISwapper.sol";
+import "../interfaces/Vault.sol";
+
+/**
+ * @title BTCStrategy
+ * @dev Strategy implementation for Core Chain self-custodial BTC staking
+ * @notice Each deposit is backed by a BTC lock transaction relayed to Core: the strategy
+ *         records it (tx hash, amount, lock time, validator) and earns BTC staking rewards
+ *         through StakeHub until the timelock expires, after which the stake can be redeemed
+ *         back into the underlying BTC-pegged token
+ * @custom:security-contact security@vaults.com
+ */
+contract BTCStrategy is IStrategies, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
+    // ============ Structs ============
+
+    /// @notice A relayed BTC lock transaction held by the strategy
+    struct BtcStake {
+        uint256 amount;
+        uint256 lockTime;
+        address validator;
+    }
+
+    // ============ Constants ============
+
+    /// @notice Maximum number of open stakes, bounding the loops over them
+    uint256 public constant MAX_STAKES = 50;
+
+    /// @notice Index of BTC staking rewards in StakeHub reward arrays
+    uint256 public constant REWARD_BTC = 2;
+
+    // State variables - immutable for gas optimization
+    address public immutable underlyingToken; // BTC-pegged token
+    address public immutable protocol; // BTC staking contract
+    address public immutable stakeHub; // StakeHub contract
+    address public immutable rewardWrapper; // WCORE-style wrapper for native rewards
+
+    // Protocol selectors, fixed by IBtcStake and IStakeHub
+    bytes4 public constant depositSelector = IBtcStake.delegate.selector;
+    bytes4 public constant withdrawSelector = IBtcStake.redeem.selector;
+    bytes4 public constant claimSelector = IStakeHub.claimReward.selector;
+    bytes4 public constant getBalanceSelector = IBtcStake.stakedAmount.selector;
+
+    // Mutable state
+    address public vault;
+    bool public paused;
+    uint256 public totalStaked; // BTC in open stakes, expired ones included
+    uint256 public totalBtcRewards; // BTC staking rewards claimed so far
+
+    // Open stakes by lock tx hash
+    EnumerableSet.Bytes32Set private _stakeTxHashes;
+    mapping(bytes32 => BtcStake) public stakes;
+
+    // Reward tokens forwarded to the vault
+    mapping(address => bool) public knownRewardTokens;
+    address[] private _rewardTokens;
+
+    // Events
+    event BtcStakeRecorded(
+        bytes32 indexed txHash,
+        address indexed validator,
+        uint256 amount,
+        uint256 lockTime
+    );
+    event BtcStakeRedeemed(bytes32 indexed txHash, uint256 amount);
+    event RewardsClaimed(uint256[] rewards);
+    event RewardsSwapped(
+        address indexed token,
+        uint256 amountIn,
+        uint256 amountOut
+    );
+
+    // Errors
+    error InvalidStakeData();
+    error TooManyStakes();
+    error QueryFailed(bytes reason);
+    error LengthMismatch();
+    error InsufficientSwapOutput(
+        address token,
+        uint256 amountOut,
+        uint256 minAmountOut
+    );
+
+    // Modifiers
+    modifier onlyVault() {
+        if (vault == address(0)) revert NoVaultSet();
+        if (msg.sender != vault) {
+            revert("Only vault can call");
+        }
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (paused) revert StrategyPaused();
+        _;
+    }
+
+    /**
+     * @dev Constructor for initializing the BTC strategy
+     * @param _underlyingToken Address of the BTC-pegged token
+     * @param _btcStake Address of the BTC staking contract
+     * @param _stakeHub Address of the StakeHub contract
+     * @param _rewardWrapper Address of the WCORE-style wrapper for native rewards
+     */
+    constructor(
+        address _underlyingToken,
+        address _btcStake,
+        address _stakeHub,
+        address _rewardWrapper
+    ) {
+        require(_underlyingToken != address(0), "Invalid token address");
+        require(_btcStake != address(0), "Invalid BTC stake address");
+        require(_stakeHub != address(0), "Invalid StakeHub address");
+        require(_rewardWrapper != address(0), "Invalid reward wrapper address");
+
+        underlyingToken = _underlyingToken;
+        protocol = _btcStake;
+        stakeHub = _stakeHub;
+        rewardWrapper = _rewardWrapper;
+
+        // Wrapped CORE rewards are always forwarded
+        knownRewardTokens[_rewardWrapper] = true;
+        _rewardTokens.push(_rewardWrapper);
+        emit RewardTokenAdded(_rewardWrapper);
+    }
+
+    /**
+     * @dev Sets the vault address
+     * @param _vault Address of the vault
+     * @notice This can only be set once for security reasons
+     */
+    function setVault(address _vault) external {
+        require(_vault != address(0), "Invalid vault address");
+        require(vault == address(0), "Vault already set");
+        vault = _vault;
+        emit VaultSet(_vault);
+    }
+
+    /**
+     * @dev Add a known reward token to forward to the vault
+     * @param tokenAddress Address of the reward token
+     */
+    function addRewardToken(address tokenAddress) external onlyVault {
+        require(tokenAddress != address(0), "Invalid token address");
+        require(tokenAddress != underlyingToken, "Cannot add underlying token");
+        require(!knownRewardTokens[tokenAddress], "Token already added");
+
+        knownRewardTokens[tokenAddress] = true;
+        _rewardTokens.push(tokenAddress);
+        emit RewardTokenAdded(tokenAddress);
+    }
+
+    /**
+     * @dev Records a relayed BTC lock transaction backed by `amount` of the underlying
+     * @param amount Amount of BTC locked by the transaction
+     * @param data abi.encode(bytes32 txHash, uint256 lockTime, address validator)
+     */
+    function execute(
+        uint256 amount,
+        bytes calldata data
+    ) external onlyVault nonReentrant whenNotPaused {
+        if (amount == 0) revert InvalidAmount();
+        if (data.length != 96) revert InvalidStakeData();
+        if (_stakeTxHashes.length() >= MAX_STAKES) revert TooManyStakes();
+
+        (bytes32 txHash, uint256 lockTime, address validator) = abi.decode(
+            data,
+            (bytes32, uint256, address)
+        );
+
+        // Handle the token transfer first
+        IERC20(underlyingToken).safeTransferFrom(vault, address(this), amount);
+        IERC20(underlyingToken).forceApprove(protocol, amount);
+
+        IBtcStake(protocol).delegate(txHash, amount, lockTime, validator);
+
+        _stakeTxHashes.add(txHash);
+        stakes[txHash] = BtcStake(amount, lockTime, validator);
+        totalStaked += amount;
+
+        // Notify StakeHub of stake change
+        IStakeHub(stakeHub).onStakeChange(address(this));
+
+        emit BtcStakeRecorded(txHash, validator, amount, lockTime);
+        emit Deposit(amount);
+        emit Executed(amount, data);
+    }
+
+    /**
+     * @dev Harvests BTC staking rewards and forwards them to the vault
+     * @param data Additional data (unused)
+     */
+    function harvest(bytes calldata data) external onlyVault nonReentrant {
+        claimRewards(data);
+        emit Harvested(data);
+    }
+
+    /**
+     * @dev Harvests rewards and converts them into the underlying token
+     * @param data Additional data (unused)
+     * @param minAmountsOut Minimum underlying to accept for each entry of rewardTokensList
+     * @return swapped Amount of underlying received from all swaps
+     * @notice Swapped underlying cannot be restaked without a new lock transaction, so it is
+     *         held by the strategy: getBalance counts it, the vault books it as strategy profit
+     *         on its next report and withdraw pays it out first. Tokens without a swapper are
+     *         forwarded as-is
+     */
+    function harvestAndSwap(
+        bytes calldata data,
+        uint256[] calldata minAmountsOut
+    )
+        external
+        onlyVault
+        nonReentrant
+        whenNotPaused
+        returns (uint256 swapped)
+    {
+        uint256 tokenCount = _rewardTokens.length;
+        if (minAmountsOut.length != tokenCount) revert LengthMismatch();
+
+        _claim();
+
+        for (uint256 i = 0; i < tokenCount; i++) {
+            address tokenAddress = _rewardTokens[i];
+            address swapper = IVault(vault).rewardSwapper(tokenAddress);
+            uint256 amountIn = IERC20(tokenAddress).balanceOf(address(this));
+            if (swapper == address(0) || amountIn == 0) continue;
+
+            uint256 balanceBefore = IERC20(underlyingToken).balanceOf(
+                address(this)
+            );
+            IERC20(tokenAddress).forceApprove(swapper, amountIn);
+            ISwapper(swapper).swap(
+                tokenAddress,
+                underlyingToken,
+                amountIn,
+                minAmountsOut[i]
+            );
+            uint256 amountOut = IERC20(underlyingToken).balanceOf(
+                address(this)
+            ) - balanceBefore;
+
+            if (amountOut < minAmountsOut[i]) {
+                revert InsufficientSwapOutput(
+                    tokenAddress,
+                    amountOut,
+                    minAmountsOut[i]
+                );
+            }
+
+            swapped += amountOut;
+            emit RewardsSwapped(tokenAddress, amountIn, amountOut);
+        }
+
+        // Forward rewards that have no swapper
+        _forwardRewardTokens();
+
+        emit Harvested(data);
+    }
+
+    /**
+     * @dev Claims rewards from StakeHub and forwards them to the vault as wrapped CORE
+     */
+    function claimRewards(bytes calldata /* data */) public onlyVault {
+        uint256 claimed = _claim();
+        _forwardRewardTokens();
+
+        emit Claim(claimed);
+    }
+
+    /**
+     * @dev Redeems every expired stake, keeping the released tokens in the strategy
+     * @return released Amount of underlying released
+     */
+    function redeemExpired()
+        external
+        onlyVault
+        nonReentrant
+        returns (uint256 released)
+    {
+        released = _redeemExpired(type(uint256).max);
+    }
+
+    /**
+     * @dev Withdraws part of the position back to the vault
+     * @dev Pays from tokens the strategy holds first, then redeems expired stakes in the
+     *      order they were recorded. A stake is redeemed whole, so any excess stays in the
+     *      strategy. Stakes still timelocked cannot be redeemed, so this pays out short and
+     *      they stay open for a later withdrawal
+     * @param amount Amount of tokens to withdraw
+     * @return withdrawn Amount of tokens sent back to the vault
+     */
+    function withdraw(
+        uint256 amount,
+        bytes calldata /* data */
+    ) external onlyVault nonReentrant returns (uint256 withdrawn) {
+        if (amount == 0) revert InvalidAmount();
+
+        uint256 available = IERC20(underlyingToken).balanceOf(address(this));
+        if (available < amount) {
+            available += _redeemExpired(amount - available);
+        }
+        withdrawn = available < amount ? available : amount;
+
+        if (withdrawn > 0) {
+            IERC20(underlyingToken).safeTransfer(vault, withdrawn);
+        }
+
+        emit Withdraw(withdrawn);
+    }
+
+    /**
+     * @dev Performs an emergency exit, redeeming every expired stake and returning all tokens
+     * @dev Timelocked BTC cannot be released early: stakes still locked stay open and keep
+     *      counting in getBalance, so the vault keeps them on the strategy's debt
+     * @param data Additional data (unused)
+     */
+    function emergencyExit(
+        bytes calldata data
+    ) external onlyVault nonReentrant {
+        uint256 balance = getBalance();
+        if (balance == 0) revert NoUnderlyingBalance();
+
+        _redeemExpired(type(uint256).max);
+
+        uint256 tokenBalance = IERC20(underlyingToken).balanceOf(address(this));
+        IERC20(underlyingToken).safeTransfer(vault, tokenBalance);
+
+        emit Withdraw(tokenBalance);
+        emit EmergencyExited(balance, data);
+    }
+
+    /**
+     * @dev Sets the pause state
+     * @param _paused New pause state
+     */
+    function setPaused(bool _paused) external onlyVault {
+        paused = _paused;
+        emit PausedState(_paused);
+    }
+
+    /**
+     * @dev Allows the contract to receive CORE rewards
+     */
+    receive() external payable {
+        // Accept CORE rewards from StakeHub
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @dev Gets the BTC held by the strategy: open stakes plus tokens not yet paid out
+     * @return uint256 Balance of the strategy
+     */
+    function getBalance() public view returns (uint256) {
+        return
+            totalStaked + IERC20(underlyingToken).balanceOf(address(this));
+    }
+
+    /**
+     * @dev Gets the part of the balance a withdraw can pay out right now
+     * @return uint256 Tokens not yet paid out plus stakes whose timelock has expired
+     */
+    function availableLiquidity() external view returns (uint256) {
+        (, uint256 expired) = getExpiredStakes();
+        return IERC20(underlyingToken).balanceOf(address(this)) + expired;
+    }
+
+    /**
+     * @dev Gets the list of reward tokens forwarded to the vault
+     * @return address[] The reward tokens, the reward wrapper first
+     */
+    function rewardTokensList() external view returns (address[] memory) {
+        return _rewardTokens;
+    }
+
+    /**
+     * @dev Gets the lock tx hashes of all open stakes
+     * @return bytes32[] Hashes in the order the stakes were recorded
+     */
+    function getStakeTxHashes() external view returns (bytes32[] memory) {
+        return _stakeTxHashes.values();
+    }
+
+    /**
+     * @dev Gets the open stakes whose timelock has expired
+     * @return txHashes Lock tx hashes of the expired stakes
+     * @return amount Total BTC in the expired stakes
+     */
+    function getExpiredStakes()
+        public
+        view
+        returns (bytes32[] memory txHashes, uint256 amount)
+    {
+        bytes32[] memory all = _stakeTxHashes.values();
+        uint256 count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            if (stakes[all[i]].lockTime <= block.timestamp) count++;
+        }
+
+        txHashes = new bytes32[](count);
+        count = 0;
+        for (uint256 i = 0; i < all.length; i++) {
+            BtcStake storage stake = stakes[all[i]];
+            if (stake.lockTime <= block.timestamp) {
+                txHashes[count++] = all[i];
+                amount += stake.amount;
+            }
+        }
+    }
+
+    /**
+     * @dev Query the BTC staking contract with custom parameters (read-only)
+     * @param selector Function selector to call on the protocol
+     * @param params Encoded parameters for the function call
+     * @return bytes Raw response data from the protocol
+     */
+    function queryProtocol(
+        bytes4 selector,
+        bytes calldata params
+    ) external view returns (bytes memory) {
+        (bool success, bytes memory result) = protocol.staticcall(
+            abi.encodePacked(selector, params)
+        );
+        if (!success) revert QueryFailed(result);
+        return result;
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Claims rewards from StakeHub and wraps the CORE received
+     * @return claimed Amount of CORE claimed
+     */
+    function _claim() internal returns (uint256 claimed) {
+        try IStakeHub(stakeHub).claimReward() returns (
+            uint256[] memory rewards
+        ) {
+            if (rewards.length > REWARD_BTC) {
+                totalBtcRewards += rewards[REWARD_BTC];
+            }
+            emit RewardsClaimed(rewards);
+        } catch (bytes memory reason) {
+            emit ClaimRewardsFailed(reason);
+        }
+
+        claimed = address(this).balance;
+        if (claimed > 0) {
+            IWCORE(rewardWrapper).deposit{value: claimed}();
+        }
+    }
+
+    /**
+     * @dev Redeems expired stakes in the order they were recorded
+     * @param needed Amount to release; stops once reached
+     * @return released Amount of underlying released
+     */
+    function _redeemExpired(uint256 needed) internal returns (uint256 released) {
+        bytes32[] memory txHashes = _stakeTxHashes.values();
+        for (uint256 i = 0; i < txHashes.length && released < needed; i++) {
+            BtcStake memory stake = stakes[txHashes[i]];
+            if (stake.lockTime > block.timestamp) continue;
+
+            released += IBtcStake(protocol).redeem(txHashes[i]);
+            totalStaked -= stake.amount;
+            _stakeTxHashes.remove(txHashes[i]);
+            delete stakes[txHashes[i]];
+
+            emit BtcStakeRedeemed(txHashes[i], stake.amount);
+        }
+
+        if (released > 0) {
+            IStakeHub(stakeHub).onStakeChange(address(this));
+        }
+    }
+
+    /**
+     * @dev Forward all known reward tokens to the vault
+     */
+    function _forwardRewardTokens() internal {
+        uint256 tokenCount = _rewardTokens.length;
+
+        // Limit to avoid gas issues
+        uint256 maxTokens = tokenCount > 10 ? 10 : tokenCount;
+
+        for (uint256 i = 0; i < maxTokens; i++) {
+            address tokenAddress = _rewardTokens[i];
+            uint256 balance = IERC20(tokenAddress).balanceOf(address(this));
+            if (balance > 0) {
+                IERC20(tokenAddress).safeTransfer(vault, balance);
+                emit TokensForwarded(tokenAddress, balance);
+            }
+        }
+    }
+}
@@ -4,9 +4,14 @@ pragma solidity ^0.8.26;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "../interfaces/IStakeHub.sol";
 import "../interfaces/ICoreAgent.sol";
+import "../interfaces/IRedeemQueue.sol";
+import "../interfaces/IWCORE.sol";
+import "../interfaces/ISwapper.sol";
+import "../interfaces/Vault.sol";
 
 /**
  * @title CoreStrategy
@@ -16,6 +21,19 @@ import "../interfaces/ICoreAgent.sol";
  */
 contract CoreStrategy is ReentrancyGuard {
     using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @notice Maximum number of validators the strategy may hold stake with
+    uint256 public constant MAX_VALIDATORS = 20;
+
+    /// @notice Maximum keeper tip in basis points of the compounded rewards
+    uint256 public constant MAX_KEEPER_TIP = 500; // 5%
+    uint256 public constant MAX_BPS = 10000;
+
+    /// @notice Indexes of the asset types in StakeHub reward arrays
+    uint256 public constant REWARD_CORE = 0;
+    uint256 public constant REWARD_HASH_POWER = 1;
+    uint256 public constant REWARD_BTC = 2;
 
     // State variables - immutable for gas optimization
     address public immutable underlyingToken; // CORE token
@@ -27,17 +45,56 @@ contract CoreStrategy is ReentrancyGuard {
     address public vault;
     bool public paused;
     uint256 public totalStaked;
+    uint256 public totalUnbonding; // undelegated but not yet sent back to the vault
+    address public redeemQueue; // queue whose pending requests hold unbonding stake back
+
+    // Validator set: every validator with a target weight or with stake
+    EnumerableSet.AddressSet private _validators;
+    mapping(address => uint256) public validatorWeight; // relative target weight
+    mapping(address => uint256) internal _validatorStake; // staked per validator
+    uint256 public totalWeight;
+
+    // Compounding: restake native rewards instead of sending them to the vault
+    bool public compoundMode;
+    address public rewardWrapper; // WCORE-style wrapper for native rewards
+    uint256 public minCompoundAmount; // rewards are held until they reach this
+    uint256 public keeperTip; // basis points of the rewards paid to the keeper
+
+    // Rewards claimed from the StakeHub over time, per asset type
+    uint256[] private _claimedRewards;
 
     // Events
     event Staked(address indexed validator, uint256 amount);
     event Unstaked(address indexed validator, uint256 amount);
     event RewardsClaimed(uint256 totalReward);
+    event RewardsClaimedByAsset(uint256[] rewards);
     event VaultSet(address vault);
     event PausedState(bool isPaused);
     event ValidatorChanged(
         address indexed oldValidator,
         address indexed newValidator
     );
+    event ValidatorWeightUpdated(address indexed validator, uint256 weight);
+    event ValidatorsRebalanced(uint256 moved);
+    event UnbondingStarted(uint256 amount);
+    event RedeemQueueSet(address indexed queue);
+    event CompoundConfigUpdated(
+        bool enabled,
+        address rewardWrapper,
+        uint256 minCompoundAmount,
+        uint256 keeperTip
+    );
+    event Compounded(
+        address indexed keeper,
+        uint256 rewards,
+        uint256 tip,
+        uint256 staked
+    );
+    event StakeReconciled(
+        address indexed validator,
+        uint256 recorded,
+        uint256 reported
+    );
 
     // Errors
     error NoVaultSet();
@@ -48,6 +105,15 @@ contract CoreStrategy is ReentrancyGuard {
     error UnstakingFailed(string reason);
     error NoValidator();
     error InsufficientStake();
+    error TooManyValidators();
+    error StakeMismatch(address validator, uint256 recorded, uint256 reported);
+    error InvalidKeeperTip();
+    error NotKeeper();
+    error CompoundDisabled();
+    error BelowCompoundThreshold(uint256 rewards, uint256 minCompoundAmount);
+    error NoRewardSwapper();
+    error InsufficientCompoundOutput(uint256 amountOut, uint256 minAmountOut);
+    error TipTransferFailed();
 
     // Modifiers
     modifier onlyVault() {
@@ -99,6 +165,17 @@ contract CoreStrategy is ReentrancyGuard {
         emit VaultSet(_vault);
     }
 
+    /**
+     * @dev Sets the redeem queue whose pending requests reserve unbonding stake
+     * @dev Reserved stake is left out of availableLiquidity, so withdrawals pulled through
+     *      the vault's withdrawal queue cannot take it from the requests it unbonds for
+     * @param queue Address of the redeem queue, zero to stop reserving
+     */
+    function setRedeemQueue(address queue) external onlyVault {
+        redeemQueue = queue;
+        emit RedeemQueueSet(queue);
+    }
+
     /**
      * @dev Changes the default validator
      * @param _newValidator Address of the new validator
@@ -110,10 +187,37 @@ contract CoreStrategy is ReentrancyGuard {
         emit ValidatorChanged(oldValidator, _newValidator);
     }
 
+    /**
+     * @dev Sets the target weight of a validator, adding it to the validator set if needed
+     * @dev Weights are relative: new stake is split in proportion to weight / totalWeight.
+     *      A validator set to zero weight stays in the set until its stake is withdrawn
+     * @param validator Address of the validator
+     * @param weight New target weight (0 to stop staking new funds with it)
+     */
+    function setValidatorWeight(
+        address validator,
+        uint256 weight
+    ) external onlyVault {
+        if (validator == address(0)) revert InvalidAddress();
+
+        totalWeight = totalWeight - validatorWeight[validator] + weight;
+        validatorWeight[validator] = weight;
+        if (weight != 0) {
+            _trackValidator(validator);
+        } else {
+            _untrackIfIdle(validator);
+        }
+
+        emit ValidatorWeightUpdated(validator, weight);
+    }
+
     /**
      * @dev Executes the strategy by staking CORE tokens
+     * @dev Without data the amount is split across the validator set by weight, the last
+     *      weighted validator taking the rounding remainder. While no validator has a weight
+     *      everything goes to the default validator
      * @param amount Amount of tokens to stake
-     * @param data Additional data (validator address if different from default)
+     * @param data Additional data (a single validator to stake everything with)
      */
     function execute(
         uint256 amount,
@@ -123,120 +227,272 @@ contract CoreStrategy is ReentrancyGuard {
 
         // Handle the token transfer first
         IERC20(underlyingToken).safeTransferFrom(vault, address(this), amount);
+        _approveAgent(amount);
 
-        // Determine validator (use data if provided, otherwise default)
-        address validator = defaultValidator;
         if (data.length == 32) {
-            validator = abi.decode(data, (address));
+            address validator = abi.decode(data, (address));
             require(validator != address(0), "Invalid validator in data");
+            _delegate(validator, amount);
+        } else {
+            _delegateByWeight(amount);
         }
 
-        // Approve Core Agent to spend tokens
-        uint256 currentAllowance = IERC20(underlyingToken).allowance(
-            address(this),
-            coreAgent
+        // Notify StakeHub of stake change
+        IStakeHub(stakeHub).onStakeChange(address(this));
+    }
+
+    /**
+     * @dev Moves stake between validators until each holds its weighted share of totalStaked
+     * @dev Overweight validators are undelegated first, then the released tokens are delegated
+     *      to underweight ones in order; the first weighted validator takes the rounding remainder
+     */
+    function rebalanceValidators() external onlyVault nonReentrant whenNotPaused {
+        if (totalWeight == 0 || totalStaked == 0) revert NoValidator();
+
+        address[] memory validators = _validators.values();
+        uint256[] memory targets = new uint256[](validators.length);
+        uint256 staked = totalStaked;
+        uint256 balanceBefore = IERC20(underlyingToken).balanceOf(
+            address(this)
         );
-        if (currentAllowance < amount) {
-            if (currentAllowance > 0) {
-                IERC20(underlyingToken).approve(coreAgent, 0);
+
+        for (uint256 i = 0; i < validators.length; i++) {
+            targets[i] = (staked * validatorWeight[validators[i]]) / totalWeight;
+            uint256 current = _validatorStake[validators[i]];
+            if (current > targets[i]) {
+                _undelegate(validators[i], current - targets[i]);
             }
-            IERC20(underlyingToken).approve(coreAgent, amount);
         }
 
-        // Execute the staking delegation
-        try ICoreAgent(coreAgent).delegate(validator, amount) {
-            totalStaked += amount;
-
-            // Notify StakeHub of stake change
-            IStakeHub(stakeHub).onStakeChange(address(this));
+        // Only what the agent released right away can be restaked; the rest keeps unbonding
+        uint256 moved = IERC20(underlyingToken).balanceOf(address(this)) -
+            balanceBefore;
+        totalUnbonding -= moved;
+        uint256 remaining = moved;
+        _approveAgent(moved);
+
+        for (uint256 i = 0; i < validators.length && remaining != 0; i++) {
+            uint256 current = _validatorStake[validators[i]];
+            if (current >= targets[i]) continue;
+
+            uint256 deficit = targets[i] - current;
+            uint256 share = deficit < remaining ? deficit : remaining;
+            remaining -= share;
+            _delegate(validators[i], share);
+        }
 
-            emit Staked(validator, amount);
-        } catch Error(string memory reason) {
-            // Revoke approval for security
-            IERC20(underlyingToken).approve(coreAgent, 0);
-            revert StakingFailed(reason);
-        } catch {
-            // Revoke approval for security
-            IERC20(underlyingToken).approve(coreAgent, 0);
-            revert StakingFailed("Unknown error during staking");
+        // Rounding dust goes to the first weighted validator
+        for (uint256 i = 0; remaining != 0; i++) {
+            if (validatorWeight[validators[i]] == 0) continue;
+            _delegate(validators[i], remaining);
+            remaining = 0;
         }
+
+        IStakeHub(stakeHub).onStakeChange(address(this));
+
+        emit ValidatorsRebalanced(moved);
+    }
+
+    /**
+     * @dev Configures compounding of native rewards
+     * @dev Rewards are wrapped with `wrapper` and, if the underlying token is something else,
+     *      swapped through the vault's reward swapper for the wrapper token
+     * @param enabled Whether harvests and keepers restake rewards instead of sending them to the vault
+     * @param wrapper WCORE-style wrapper for native rewards
+     * @param minAmount Minimum native rewards to compound at once
+     * @param tip Keeper tip in basis points of the rewards, up to MAX_KEEPER_TIP
+     */
+    function setCompoundConfig(
+        bool enabled,
+        address wrapper,
+        uint256 minAmount,
+        uint256 tip
+    ) external onlyVault {
+        if (enabled && wrapper == address(0)) revert InvalidAddress();
+        if (tip > MAX_KEEPER_TIP) revert InvalidKeeperTip();
+
+        compoundMode = enabled;
+        rewardWrapper = wrapper;
+        minCompoundAmount = minAmount;
+        keeperTip = tip;
+
+        emit CompoundConfigUpdated(enabled, wrapper, minAmount, tip);
     }
 
     /**
      * @dev Harvests rewards from the StakeHub
-     * @notice Additional data parameter is unused for Core staking
+     * @dev In compound mode the rewards are restaked once they reach minCompoundAmount and
+     *      held until then (or while paused); otherwise every native reward held is sent to the vault
+     * @param data Minimum underlying out (abi-encoded uint256) when compounding needs a swap
      */
-    function harvest(
-        bytes calldata /* data */
-    ) external onlyVault nonReentrant {
-        try IStakeHub(stakeHub).claimReward() returns (
-            uint256[] memory rewards
-        ) {
-            uint256 totalReward = 0;
-            for (uint256 i = 0; i < rewards.length; i++) {
-                totalReward += rewards[i];
+    function harvest(bytes calldata data) external onlyVault nonReentrant {
+        _claimRewards();
+
+        uint256 rewards = address(this).balance;
+        if (compoundMode) {
+            if (!paused && rewards != 0 && rewards >= minCompoundAmount) {
+                uint256 minAmountOut = data.length == 32
+                    ? abi.decode(data, (uint256))
+                    : 0;
+                _compound(rewards, 0, minAmountOut);
             }
+        } else if (rewards > 0) {
+            // Transfer rewards to vault (rewards are in native token/ETH)
+            (bool success, ) = payable(vault).call{value: rewards}("");
+            require(success, "Failed to transfer rewards");
+        }
+    }
 
-            if (totalReward > 0) {
-                // Transfer rewards to vault (rewards are in native token/ETH)
-                (bool success, ) = payable(vault).call{value: totalReward}("");
-                require(success, "Failed to transfer rewards");
-                emit RewardsClaimed(totalReward);
-            }
-        } catch Error(string memory /* reason */) {
-            // Non-critical operation, just emit event
-            emit RewardsClaimed(0);
+    /**
+     * @dev Claims and restakes rewards, paying the caller the keeper tip
+     * @dev Open to the vault's agents, which keeper bots run as
+     * @param minAmountOut Minimum underlying to restake after the tip and any swap
+     * @return staked Amount of underlying restaked
+     */
+    function compound(
+        uint256 minAmountOut
+    ) external nonReentrant whenNotPaused returns (uint256 staked) {
+        if (vault == address(0)) revert NoVaultSet();
+        if (!IVault(vault).hasAgentRole(msg.sender)) revert NotKeeper();
+        if (!compoundMode) revert CompoundDisabled();
+
+        _claimRewards();
+
+        uint256 rewards = address(this).balance;
+        if (rewards == 0 || rewards < minCompoundAmount) {
+            revert BelowCompoundThreshold(rewards, minCompoundAmount);
         }
+
+        staked = _compound(rewards, (rewards * keeperTip) / MAX_BPS, minAmountOut);
+    }
+
+    /**
+     * @dev Undelegates stake without sending it to the vault, so it can unbond ahead of a withdrawal
+     * @dev The amount is taken from validators in set order and keeps counting towards
+     *      getBalance until a later withdraw pays it out
+     * @param amount Amount of tokens to start unbonding
+     */
+    function startUnbonding(uint256 amount) external onlyVault nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        if (amount > totalStaked) revert InsufficientStake();
+
+        _undelegateInOrder(amount);
+
+        // Notify StakeHub of stake change
+        IStakeHub(stakeHub).onStakeChange(address(this));
+
+        emit UnbondingStarted(amount);
     }
 
     /**
-     * @dev Gets the current staked balance
-     * @return uint256 Total staked amount
+     * @dev Gets the current balance: staked plus unbonding
+     * @return uint256 Total amount the strategy holds for the vault
      */
     function getBalance() public view returns (uint256) {
-        return totalStaked;
+        return totalStaked + totalUnbonding;
+    }
+
+    /**
+     * @dev Gets the unbonding stake a withdraw can pay out right now
+     * @return uint256 Liquid tokens plus unbonding the Core Agent has released
+     */
+    function claimableUnbonded() public view returns (uint256) {
+        uint256 claimable = IERC20(underlyingToken).balanceOf(address(this)) +
+            ICoreAgent(coreAgent).claimableUnbonded(address(this));
+        return claimable < totalUnbonding ? claimable : totalUnbonding;
+    }
+
+    /**
+     * @dev Gets the part of the balance a withdraw can pay out right now
+     * @return uint256 The whole balance when the Core Agent returns undelegated stake at
+     *         once, otherwise only the unbonding stake it has released, less the stake
+     *         reserved for pending redeem requests
+     */
+    function availableLiquidity() external view returns (uint256) {
+        uint256 available = ICoreAgent(coreAgent).unbondingPeriod() == 0
+            ? getBalance()
+            : claimableUnbonded();
+        uint256 reserved = redeemQueue == address(0)
+            ? 0
+            : IRedeemQueue(redeemQueue).reservedUnbonding();
+        return available > reserved ? available - reserved : 0;
     }
 
     /**
-     * @dev Performs an emergency exit, unstaking all funds
-     * @param data Additional data (validator address if different from default)
+     * @dev Performs an emergency exit, unstaking all funds from every validator
+     * @dev Exits what the Core Agent reports for each validator; a recorded stake the agent no
+     *      longer holds (e.g. after a slash) is written off so the vault books it as a loss
+     * @notice Additional data parameter is unused; every validator with stake is exited
      */
     function emergencyExit(
-        bytes calldata data
+        bytes calldata /* data */
     ) external onlyVault nonReentrant {
-        if (totalStaked == 0) {
+        if (totalStaked == 0 && totalUnbonding == 0) {
             revert InsufficientStake();
         }
 
-        // Determine validator
-        address validator = defaultValidator;
-        if (data.length == 32) {
-            validator = abi.decode(data, (address));
-            require(validator != address(0), "Invalid validator in data");
-        }
+        address[] memory validators = _validators.values();
+        uint256[] memory reported = _reportedStakes(validators);
+        for (uint256 i = 0; i < validators.length; i++) {
+            uint256 recorded = _validatorStake[validators[i]];
+            if (reported[i] < recorded) {
+                _validatorStake[validators[i]] = reported[i];
+                totalStaked -= recorded - reported[i];
+                emit StakeReconciled(validators[i], recorded, reported[i]);
+            }
 
-        uint256 amountToUnstake = totalStaked;
+            // Never undelegate more than is recorded, even if the agent reports extra
+            uint256 exitable = reported[i] < recorded ? reported[i] : recorded;
+            if (exitable != 0) {
+                _undelegate(validators[i], exitable);
+            } else {
+                _untrackIfIdle(validators[i]);
+            }
+        }
 
-        try ICoreAgent(coreAgent).undelegate(validator, amountToUnstake) {
-            totalStaked = 0;
+        // Notify StakeHub of stake change
+        IStakeHub(stakeHub).onStakeChange(address(this));
 
-            // Notify StakeHub of stake change
-            IStakeHub(stakeHub).onStakeChange(address(this));
+        // Transfer any liquid tokens back to vault; stake still unbonding follows on a later call
+        _releaseUnbonded(type(uint256).max);
+    }
 
-            // Transfer any liquid tokens back to vault
-            uint256 tokenBalance = IERC20(underlyingToken).balanceOf(
-                address(this)
-            );
-            if (tokenBalance > 0) {
-                IERC20(underlyingToken).safeTransfer(vault, tokenBalance);
+    /**
+     * @dev Unstakes part of the position and sends it back to the vault
+     * @dev Stake already unbonding is used first; only the rest is undelegated, taken from
+     *      validators in set order. While the Core Agent applies an unbonding period, only
+     *      released tokens are sent and the remainder keeps unbonding
+     * @param amount Amount of tokens to unstake
+     * @param data Additional data (a single validator to unstake from)
+     * @return withdrawn Amount of tokens sent back to the vault
+     */
+    function withdraw(
+        uint256 amount,
+        bytes calldata data
+    ) external onlyVault nonReentrant returns (uint256 withdrawn) {
+        if (amount == 0) revert InvalidAmount();
+        if (amount > getBalance()) revert InsufficientStake();
+
+        uint256 toUndelegate = amount > totalUnbonding
+            ? amount - totalUnbonding
+            : 0;
+        if (toUndelegate != 0) {
+            if (data.length == 32) {
+                address validator = abi.decode(data, (address));
+                require(validator != address(0), "Invalid validator in data");
+                if (toUndelegate > _validatorStake[validator]) {
+                    revert InsufficientStake();
+                }
+                _undelegate(validator, toUndelegate);
+            } else {
+                _undelegateInOrder(toUndelegate);
             }
 
-            emit Unstaked(validator, amountToUnstake);
-        } catch Error(string memory reason) {
-            revert UnstakingFailed(reason);
-        } catch {
-            revert UnstakingFailed("Unknown error during unstaking");
+            // Notify StakeHub of stake change
+            IStakeHub(stakeHub).onStakeChange(address(this));
         }
+
+        withdrawn = _releaseUnbonded(amount);
     }
 
     /**
@@ -258,6 +514,65 @@ contract CoreStrategy is ReentrancyGuard {
         return IStakeHub(stakeHub).getDelegator(address(this));
     }
 
+    /**
+     * @dev Gets the rewards waiting in the StakeHub, per asset type
+     * @return rewards Pending reward of each asset type (see REWARD_* indexes)
+     * @return total Sum of the pending rewards
+     */
+    function getPendingRewards()
+        external
+        view
+        returns (uint256[] memory rewards, uint256 total)
+    {
+        rewards = IStakeHub(stakeHub).getDelegator(address(this)).rewards;
+        for (uint256 i = 0; i < rewards.length; i++) {
+            total += rewards[i];
+        }
+    }
+
+    /**
+     * @dev Gets the rewards claimed from the StakeHub so far, per asset type
+     * @return rewards Cumulative reward of each asset type (see REWARD_* indexes)
+     */
+    function getClaimedRewards() external view returns (uint256[] memory) {
+        return _claimedRewards;
+    }
+
+    /**
+     * @dev Gets the amount the strategy has staked with a validator
+     * @param validator Address of the validator
+     * @return uint256 Recorded stake with the validator
+     */
+    function getStakeByValidator(
+        address validator
+    ) external view returns (uint256) {
+        return _validatorStake[validator];
+    }
+
+    /**
+     * @dev Gets the validator set with target weights and staked amounts
+     * @return validators Validators with a weight or with stake
+     * @return weights Target weight of each validator
+     * @return stakes Amount staked with each validator
+     */
+    function getValidators()
+        external
+        view
+        returns (
+            address[] memory validators,
+            uint256[] memory weights,
+            uint256[] memory stakes
+        )
+    {
+        validators = _validators.values();
+        weights = new uint256[](validators.length);
+        stakes = new uint256[](validators.length);
+        for (uint256 i = 0; i < validators.length; i++) {
+            weights[i] = validatorWeight[validators[i]];
+            stakes[i] = _validatorStake[validators[i]];
+        }
+    }
+
     /**
      * @dev Sets the pause state
      * @param _paused New pause state
@@ -288,4 +603,256 @@ contract CoreStrategy is ReentrancyGuard {
 
         IERC20(token).safeTransfer(vault, amount);
     }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Makes sure the Core Agent may pull `amount` tokens from the strategy
+     * @param amount Amount of tokens about to be delegated
+     */
+    function _approveAgent(uint256 amount) internal {
+        uint256 currentAllowance = IERC20(underlyingToken).allowance(
+            address(this),
+            coreAgent
+        );
+        if (currentAllowance < amount) {
+            if (currentAllowance > 0) {
+                IERC20(underlyingToken).approve(coreAgent, 0);
+            }
+            IERC20(underlyingToken).approve(coreAgent, amount);
+        }
+    }
+
+    /**
+     * @dev Delegates tokens to a validator and records the stake
+     * @param validator Address of the validator
+     * @param amount Amount of tokens to delegate
+     */
+    function _delegate(address validator, uint256 amount) internal {
+        _trackValidator(validator);
+
+        try ICoreAgent(coreAgent).delegate(validator, amount) {
+            _validatorStake[validator] += amount;
+            totalStaked += amount;
+
+            emit Staked(validator, amount);
+        } catch Error(string memory reason) {
+            // Revoke approval for security
+            IERC20(underlyingToken).approve(coreAgent, 0);
+            revert StakingFailed(reason);
+        } catch {
+            // Revoke approval for security
+            IERC20(underlyingToken).approve(coreAgent, 0);
+            revert StakingFailed("Unknown error during staking");
+        }
+    }
+
+    /**
+     * @dev Undelegates tokens from a validator and releases the recorded stake
+     * @dev Reverts if the Core Agent holds less than the recorded stake, so partial
+     *      unstakes never run on bookkeeping that has drifted from the agent
+     * @param validator Address of the validator
+     * @param amount Amount of tokens to undelegate
+     */
+    function _undelegate(address validator, uint256 amount) internal {
+        address[] memory candidates = new address[](1);
+        candidates[0] = validator;
+        uint256 reported = _reportedStakes(candidates)[0];
+        if (reported < _validatorStake[validator]) {
+            revert StakeMismatch(
+                validator,
+                _validatorStake[validator],
+                reported
+            );
+        }
+
+        try ICoreAgent(coreAgent).undelegate(validator, amount) {
+            _validatorStake[validator] -= amount;
+            totalStaked -= amount;
+            totalUnbonding += amount;
+            _untrackIfIdle(validator);
+
+            emit Unstaked(validator, amount);
+        } catch Error(string memory reason) {
+            revert UnstakingFailed(reason);
+        } catch {
+            revert UnstakingFailed("Unknown error during unstaking");
+        }
+    }
+
+    /**
+     * @dev Undelegates an amount from validators in set order
+     * @param amount Amount of tokens to undelegate, at most totalStaked
+     */
+    function _undelegateInOrder(uint256 amount) internal {
+        address[] memory validators = _validators.values();
+        uint256 remaining = amount;
+        for (uint256 i = 0; remaining != 0; i++) {
+            uint256 stake = _validatorStake[validators[i]];
+            if (stake == 0) continue;
+
+            uint256 share = stake < remaining ? stake : remaining;
+            remaining -= share;
+            _undelegate(validators[i], share);
+        }
+    }
+
+    /**
+     * @dev Collects unbonding the Core Agent has released and sends liquid tokens to the vault
+     * @param max Maximum amount to send
+     * @return released Amount of tokens sent to the vault
+     */
+    function _releaseUnbonded(uint256 max) internal returns (uint256 released) {
+        if (ICoreAgent(coreAgent).claimableUnbonded(address(this)) != 0) {
+            ICoreAgent(coreAgent).withdrawUnbonded();
+        }
+
+        released = IERC20(underlyingToken).balanceOf(address(this));
+        if (released > max) released = max;
+        totalUnbonding -= released < totalUnbonding ? released : totalUnbonding;
+
+        if (released > 0) {
+            IERC20(underlyingToken).safeTransfer(vault, released);
+        }
+    }
+
+    /**
+     * @dev Splits an amount across the validator set by weight, the last weighted validator
+     *      taking the rounding remainder; without weights it all goes to the default validator
+     * @param amount Amount of tokens to delegate, already approved to the Core Agent
+     */
+    function _delegateByWeight(uint256 amount) internal {
+        if (totalWeight == 0) {
+            _delegate(defaultValidator, amount);
+            return;
+        }
+
+        uint256 remaining = amount;
+        uint256 weightLeft = totalWeight;
+        uint256 count = _validators.length();
+        for (uint256 i = 0; i < count && remaining != 0; i++) {
+            address validator = _validators.at(i);
+            uint256 weight = validatorWeight[validator];
+            if (weight == 0) continue;
+
+            uint256 share = weight == weightLeft
+                ? remaining
+                : (amount * weight) / totalWeight;
+            weightLeft -= weight;
+            if (share == 0) continue;
+
+            remaining -= share;
+            _delegate(validator, share);
+        }
+    }
+
+    /**
+     * @dev Claims rewards from the StakeHub into the strategy's native balance
+     */
+    function _claimRewards() internal {
+        try IStakeHub(stakeHub).claimReward() returns (
+            uint256[] memory rewards
+        ) {
+            uint256 totalReward = 0;
+            for (uint256 i = 0; i < rewards.length; i++) {
+                if (i == _claimedRewards.length) _claimedRewards.push();
+                _claimedRewards[i] += rewards[i];
+                totalReward += rewards[i];
+            }
+
+            if (totalReward > 0) {
+                emit RewardsClaimed(totalReward);
+                emit RewardsClaimedByAsset(rewards);
+            }
+        } catch Error(string memory /* reason */) {
+            // Non-critical operation, just emit event
+            emit RewardsClaimed(0);
+        }
+    }
+
+    /**
+     * @dev Pays the keeper tip, converts the rest of the native rewards into the
+     *      underlying token and delegates it by weight
+     * @param rewards Native rewards to compound
+     * @param tip Part of the rewards paid to the caller
+     * @param minAmountOut Minimum underlying to restake
+     * @return staked Amount of underlying restaked
+     */
+    function _compound(
+        uint256 rewards,
+        uint256 tip,
+        uint256 minAmountOut
+    ) internal returns (uint256 staked) {
+        if (tip > 0) {
+            (bool success, ) = payable(msg.sender).call{value: tip}("");
+            if (!success) revert TipTransferFailed();
+        }
+
+        staked = rewards - tip;
+        IWCORE(rewardWrapper).deposit{value: staked}();
+
+        if (rewardWrapper != underlyingToken) {
+            address swapper = IVault(vault).rewardSwapper(rewardWrapper);
+            if (swapper == address(0)) revert NoRewardSwapper();
+
+            uint256 balanceBefore = IERC20(underlyingToken).balanceOf(
+                address(this)
+            );
+            IERC20(rewardWrapper).forceApprove(swapper, staked);
+            ISwapper(swapper).swap(
+                rewardWrapper,
+                underlyingToken,
+                staked,
+                minAmountOut
+            );
+            staked =
+                IERC20(underlyingToken).balanceOf(address(this)) -
+                balanceBefore;
+        }
+        if (staked < minAmountOut) {
+            revert InsufficientCompoundOutput(staked, minAmountOut);
+        }
+
+        _approveAgent(staked);
+        _delegateByWeight(staked);
+        IStakeHub(stakeHub).onStakeChange(address(this));
+
+        emit Compounded(msg.sender, rewards, tip, staked);
+    }
+
+    /**
+     * @dev Reads the strategy's stake with each validator from the Core Agent
+     * @param validators Addresses of the validators
+     * @return amounts Stake the agent reports for each validator
+     */
+    function _reportedStakes(
+        address[] memory validators
+    ) internal view returns (uint256[] memory amounts) {
+        amounts = new uint256[](validators.length);
+        for (uint256 i = 0; i < validators.length; i++) {
+            amounts[i] = ICoreAgent(coreAgent)
+                .getDelegator(validators[i], address(this))
+                .realtimeAmount;
+        }
+    }
+
+    /**
+     * @dev Adds a validator to the set, bounded by MAX_VALIDATORS
+     * @param validator Address of the validator
+     */
+    function _trackValidator(address validator) internal {
+        if (_validators.add(validator) && _validators.length() > MAX_VALIDATORS) {
+            revert TooManyValidators();
+        }
+    }
+
+    /**
+     * @dev Drops a validator from the set once it has neither weight nor stake
+     * @param validator Address of the validator
+     */
+    function _untrackIfIdle(address validator) internal {
+        if (validatorWeight[validator] == 0 && _validatorStake[validator] == 0) {
+            _validators.remove(validator);
+        }
+    }
 }
@@ -5,6 +5,8 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "../interfaces/Vault.sol";
+import "../interfaces/ISwapper.sol";
 
 /**
  * @title GenericStrategyImplementation
@@ -43,6 +45,11 @@ contract Strategies is ReentrancyGuard {
     event RewardTokenAdded(address indexed token);
     event TokensForwarded(address indexed token, uint256 amount);
     event ClaimRewardsFailed(bytes reason);
+    event RewardsSwapped(
+        address indexed token,
+        uint256 amountIn,
+        uint256 amountOut
+    );
 
     // Errors
     error NoVaultSet();
@@ -54,6 +61,13 @@ contract Strategies is ReentrancyGuard {
     error NoUnderlyingBalance();
     error InvalidTokenAddress();
     error InvalidAmount();
+    error SelectorNotAllowed(bytes4 selector);
+    error LengthMismatch();
+    error InsufficientSwapOutput(
+        address token,
+        uint256 amountOut,
+        uint256 minAmountOut
+    );
 
     // Modifiers
     modifier onlyAgent() {
@@ -138,42 +152,17 @@ contract Strategies is ReentrancyGuard {
         // Handle the token transfer first
         IERC20(underlyingToken).safeTransferFrom(vault, address(this), amount);
 
-        // Approve protocol to spend tokens
-        uint256 currentAllowance = IERC20(underlyingToken).allowance(
-            address(this),
-            protocol
-        );
-        if (currentAllowance < amount) {
-            if (currentAllowance > 0) {
-                IERC20(underlyingToken).approve(protocol, 0);
-            }
-            IERC20(underlyingToken).approve(protocol, amount);
-        }
-
         // Use provided data or build default calldata
         bytes memory callData;
         if (data.length > 0) {
+            _requireAllowedSelector(data);
             callData = data;
         } else {
             // Default: just use the selector with amount
             callData = abi.encodeWithSelector(depositSelector, amount);
         }
 
-        // Execute the deposit
-        (bool success, bytes memory result) = protocol.call(callData);
-
-        if (!success) {
-            // Revoke approval for security
-            IERC20(underlyingToken).approve(protocol, 0);
-
-            bytes memory revertReason;
-            if (result.length > 0) {
-                assembly {
-                    revertReason := add(result, 0x20)
-                }
-            }
-            revert DepositFailed(revertReason);
-        }
+        _depositToProtocol(amount, callData);
 
         // Forward any reward tokens that might have been received
         _forwardRewardTokens();
@@ -191,6 +180,76 @@ contract Strategies is ReentrancyGuard {
         emit Harvested(data);
     }
 
+    /**
+     * @dev Harvests rewards and converts them into the underlying token
+     * @param data Additional data needed for claiming rewards
+     * @param minAmountsOut Minimum underlying to accept for each entry of rewardTokensList
+     * @return swapped Amount of underlying received from all swaps
+     * @notice Each known reward token with a swapper registered on the vault is sold for the
+     *         underlying, which is deposited back into the protocol so the vault books it as
+     *         strategy profit on its next report. Tokens without a swapper are forwarded as-is
+     */
+    function harvestAndSwap(
+        bytes calldata data,
+        uint256[] calldata minAmountsOut
+    )
+        external
+        onlyAgent
+        nonReentrant
+        whenNotPaused
+        returns (uint256 swapped)
+    {
+        uint256 tokenCount = rewardTokensList.length;
+        if (minAmountsOut.length != tokenCount) revert LengthMismatch();
+
+        _claim(data);
+
+        for (uint256 i = 0; i < tokenCount; i++) {
+            address tokenAddress = rewardTokensList[i];
+            address swapper = IVault(vault).rewardSwapper(tokenAddress);
+            uint256 amountIn = IERC20(tokenAddress).balanceOf(address(this));
+            if (swapper == address(0) || amountIn == 0) continue;
+
+            uint256 balanceBefore = IERC20(underlyingToken).balanceOf(
+                address(this)
+            );
+            IERC20(tokenAddress).forceApprove(swapper, amountIn);
+            ISwapper(swapper).swap(
+                tokenAddress,
+                underlyingToken,
+                amountIn,
+                minAmountsOut[i]
+            );
+            uint256 amountOut = IERC20(underlyingToken).balanceOf(
+                address(this)
+            ) - balanceBefore;
+
+            if (amountOut < minAmountsOut[i]) {
+                revert InsufficientSwapOutput(
+                    tokenAddress,
+                    amountOut,
+                    minAmountsOut[i]
+                );
+            }
+
+            swapped += amountOut;
+            emit RewardsSwapped(tokenAddress, amountIn, amountOut);
+        }
+
+        if (swapped > 0) {
+            _depositToProtocol(
+                swapped,
+                abi.encodeWithSelector(depositSelector, swapped)
+            );
+            emit Deposit(swapped);
+        }
+
+        // Forward rewards that have no swapper
+        _forwardRewardTokens();
+
+        emit Harvested(data);
+    }
+
     /**
      * @dev Gets the current balance of the strategy in the protocol
      * @return uint256 Balance of the strategy
@@ -235,6 +294,14 @@ contract Strategies is ReentrancyGuard {
         return 0;
     }
 
+    /**
+     * @dev Gets the part of the balance a withdraw can pay out right now
+     * @return uint256 The whole protocol balance, which can be withdrawn at any time
+     */
+    function availableLiquidity() external view returns (uint256) {
+        return getBalance();
+    }
+
     /**
      * @dev Performs an emergency exit, withdrawing all funds from the protocol
      * @param data Additional data needed for emergency exit
@@ -251,6 +318,7 @@ contract Strategies is ReentrancyGuard {
         // Use provided data or build default calldata
         bytes memory callData;
         if (data.length > 0) {
+            _requireAllowedSelector(data);
             callData = data;
         } else {
             // Default: just use the selector with balance
@@ -280,19 +348,71 @@ contract Strategies is ReentrancyGuard {
         emit EmergencyExited(balance, data);
     }
 
+    /**
+     * @dev Withdraws part of the position from the protocol back to the vault
+     * @param amount Amount of tokens to withdraw
+     * @param data Additional data needed for the withdrawal
+     * @return withdrawn Amount of tokens sent back to the vault
+     */
+    function withdraw(
+        uint256 amount,
+        bytes calldata data
+    ) external onlyAgent nonReentrant returns (uint256 withdrawn) {
+        if (amount == 0) revert InvalidAmount();
+
+        // Use provided data or build default calldata
+        bytes memory callData;
+        if (data.length > 0) {
+            _requireAllowedSelector(data);
+            callData = data;
+        } else {
+            // Default: just use the selector with amount
+            callData = abi.encodeWithSelector(withdrawSelector, amount);
+        }
+
+        // Execute the withdraw
+        (bool success, bytes memory result) = protocol.call(callData);
+        if (!success) revert WithdrawFailed(result);
+
+        // Transfer tokens to the vault
+        withdrawn = IERC20(underlyingToken).balanceOf(address(this));
+        if (withdrawn > 0) {
+            IERC20(underlyingToken).safeTransfer(vault, withdrawn);
+        }
+
+        emit Withdraw(withdrawn);
+    }
+
     /**
      * @dev Claims rewards from the protocol
      * @param data Additional data needed for claiming rewards
      */
     function claimRewards(bytes calldata data) public onlyAgent {
+        if (!_claim(data)) {
+            return;
+        }
+
+        // Forward reward tokens
+        _forwardRewardTokens();
+
+        emit Claim(0);
+    }
+
+    /**
+     * @dev Claims rewards from the protocol without forwarding them
+     * @param data Additional data needed for claiming rewards
+     * @return bool Whether the protocol claim succeeded
+     */
+    function _claim(bytes calldata data) internal returns (bool) {
         // Skip if claimSelector is not set
         if (claimSelector == bytes4(0)) {
-            return;
+            return false;
         }
 
         // Use provided data or build default calldata
         bytes memory callData;
         if (data.length > 0) {
+            _requireAllowedSelector(data);
             callData = data;
         } else {
             // Default: just use the selector
@@ -310,13 +430,66 @@ contract Strategies is ReentrancyGuard {
                 }
             }
             emit ClaimRewardsFailed(revertReason);
-            return;
+            return false;
         }
 
-        // Forward reward tokens
-        _forwardRewardTokens();
+        return true;
+    }
 
-        emit Claim(0);
+    /**
+     * @dev Reverts unless custom calldata targets a selector this strategy may forward
+     * @param data Calldata to be sent to the protocol
+     * @notice The deposit, withdraw and claim selectors fixed at construction are always
+     *         allowed; any other selector must be approved for this strategy on the vault
+     */
+    function _requireAllowedSelector(bytes calldata data) internal view {
+        bytes4 selector = bytes4(data);
+        if (
+            selector == depositSelector ||
+            selector == withdrawSelector ||
+            selector == claimSelector
+        ) return;
+        if (!IVault(vault).isSelectorAllowed(address(this), selector)) {
+            revert SelectorNotAllowed(selector);
+        }
+    }
+
+    /**
+     * @dev Deposits underlying tokens held by the strategy into the protocol
+     * @param amount Amount of tokens to deposit
+     * @param callData Calldata for the protocol deposit
+     */
+    function _depositToProtocol(
+        uint256 amount,
+        bytes memory callData
+    ) internal {
+        // Approve protocol to spend tokens
+        uint256 currentAllowance = IERC20(underlyingToken).allowance(
+            address(this),
+            protocol
+        );
+        if (currentAllowance < amount) {
+            if (currentAllowance > 0) {
+                IERC20(underlyingToken).approve(protocol, 0);
+            }
+            IERC20(underlyingToken).approve(protocol, amount);
+        }
+
+        // Execute the deposit
+        (bool success, bytes memory result) = protocol.call(callData);
+
+        if (!success) {
+            // Revoke approval for security
+            IERC20(underlyingToken).approve(protocol, 0);
+
+            bytes memory revertReason;
+            if (result.length > 0) {
+                assembly {
+                    revertReason := add(result, 0x20)
+                }
+            }
+            revert DepositFailed(revertReason);
+        }
     }
 
     /**
@@ -8,6 +8,11 @@ export default buildModule("VaultModule", (m) => {
   const managerAddress = m.getParameter("managerAddress");
   const agentAddress = m.getParameter("agentAddress");
 
+  // Deploy the libraries the vault links against
+  const accessLogic = m.library("AccessLogic");
+  const accountingLogic = m.library("AccountingLogic");
+  const strategyLogic = m.library("StrategyLogic");
+
   // Deploy Vault
   const vault = m.contract("Vault", [
     assetAddress,
@@ -15,7 +20,13 @@ export default buildModule("VaultModule", (m) => {
     vaultSymbol,
     managerAddress,
     agentAddress
-  ]);
+  ], {
+    libraries: {
+      AccessLogic: accessLogic,
+      AccountingLogic: accountingLogic,
+      StrategyLogic: strategyLogic
+    }
+  });
 
   return { vault };
 }); 
\ No newline at end of file
@@ -28,6 +28,11 @@ export default buildModule("VaultSystemModule", (m) => {
     id: "MockProtocol"
   });
 
+  // Deploy the libraries the vault links against
+  const accessLogic = m.library("AccessLogic");
+  const accountingLogic = m.library("AccountingLogic");
+  const strategyLogic = m.library("StrategyLogic");
+
   // Deploy vault
   const vault = m.contract("Vault", [
     underlyingToken,
@@ -36,7 +41,12 @@ export default buildModule("VaultSystemModule", (m) => {
     manager,
     agent
   ], {
-    id: "Vault"
+    id: "Vault",
+    libraries: {
+      AccessLogic: accessLogic,
+      AccountingLogic: accountingLogic,
+      StrategyLogic: strategyLogic
+    }
   });
 
   // Deploy strategy
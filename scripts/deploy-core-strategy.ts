@@ -112,7 +112,9 @@ async function main() {
     if (process.env.DEPLOY_TEST_VAULT === "true") {
       console.log("\n🏦 Deploying test vault...");
 
-      const VaultFactory = await ethers.getContractFactory("Vault");
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await deployVaultLibraries(),
+      });
       const vault = await VaultFactory.deploy(
         config.stCoreToken, // underlying token (stCORE)
         "stCORE Vault", // name
@@ -121,7 +123,8 @@ async function main() {
         deployer.address, // agent
         100, // 1% withdrawal fee
         500, // 5% annual yield
-        deployer.address // treasury
+        deployer.address, // treasury
+        0 // decimals offset
       );
 
       await vault.waitForDeployment();
@@ -147,6 +150,21 @@ async function main() {
   }
 }
 
+// Helper function to deploy the libraries Vault links against
+async function deployVaultLibraries(): Promise<Record<string, string>> {
+  console.log("📚 Deploying vault libraries...");
+
+  const libraries: Record<string, string> = {};
+  for (const name of ["AccessLogic", "AccountingLogic", "StrategyLogic"]) {
+    const library = await ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+    console.log(`✅ ${name} deployed: ${libraries[name]}`);
+  }
+
+  return libraries;
+}
+
 main()
   .then(() => process.exit(0))
   .catch((error) => {
@@ -30,7 +30,7 @@ const DEPLOYMENT_CONFIG = {
     name: "stCORE Vault",
     symbol: "vstCORE",
     withdrawalFee: 100, // 1% (100 basis points)
-    yieldRate: 800, // 8% annual yield (800 basis points)
+    yieldRate: 0, // no fixed yield: share price follows realized strategy P&L
   },
   strategy: {
     // Strategy config handled by CoreStrategy constructor
@@ -115,7 +115,10 @@ async function main() {
 
     // Step 2: Deploy Vault
     console.log("\n🏦 Step 2: Deploying Vault...");
-    const VaultFactory = await ethers.getContractFactory("Vault");
+    const vaultLibraries = await deployVaultLibraries();
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: vaultLibraries,
+    });
 
     const vault = await VaultFactory.deploy(
       stCoreTokenAddress, // underlying token (stCORE)
@@ -125,7 +128,8 @@ async function main() {
       deployer.address, // agent (initially)
       DEPLOYMENT_CONFIG.vault.withdrawalFee, // withdrawal fee
       DEPLOYMENT_CONFIG.vault.yieldRate, // yield rate
-      deployer.address // treasury
+      deployer.address, // treasury
+      0 // decimals offset
     );
 
     console.log("⏳ Waiting for Vault deployment...");
@@ -186,7 +190,8 @@ async function main() {
       console.log("\n🏭 Step 5: Deploying VaultFactory...");
 
       const VaultFactoryContract = await ethers.getContractFactory(
-        "VaultFactory"
+        "VaultFactory",
+        { libraries: vaultLibraries }
       );
       const vaultFactory = await VaultFactoryContract.deploy(
         deployer.address, // default manager
@@ -256,6 +261,21 @@ async function main() {
   }
 }
 
+// Helper function to deploy the libraries Vault links against
+async function deployVaultLibraries(): Promise<Record<string, string>> {
+  console.log("📚 Deploying vault libraries...");
+
+  const libraries: Record<string, string> = {};
+  for (const name of ["AccessLogic", "AccountingLogic", "StrategyLogic"]) {
+    const library = await ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+    console.log(`✅ ${name} deployed: ${libraries[name]}`);
+  }
+
+  return libraries;
+}
+
 // Helper function to deploy mock stCORE token for testnet
 async function deployMockStCoreToken(deployer: any): Promise<string> {
   console.log("🏗️ Deploying Mock stCORE Token...");
@@ -0,0 +1,553 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  BTCStrategy,
+  MockBtcStake,
+  MockStakeHub,
+  MockERC20,
+  MockWCORE,
+  Vault,
+} from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
+
+describe("BTCStrategy", function () {
+  let btcStrategy: BTCStrategy;
+  let btcStake: MockBtcStake;
+  let mockStakeHub: MockStakeHub;
+  let btcToken: MockERC20;
+  let wcore: MockWCORE;
+  let vault: Vault;
+  let owner: SignerWithAddress;
+  let manager: SignerWithAddress;
+  let agent: SignerWithAddress;
+  let validator: SignerWithAddress;
+  let alice: SignerWithAddress;
+
+  const DEPOSIT_AMOUNT = ethers.parseUnits("10", 8);
+  const STAKE_AMOUNT = ethers.parseUnits("4", 8);
+  const LOCK_PERIOD = 30 * 24 * 60 * 60; // 30 days
+  const TX_HASH_A = ethers.id("btc-lock-tx-a");
+  const TX_HASH_B = ethers.id("btc-lock-tx-b");
+
+  const latestTimestamp = async () =>
+    (await ethers.provider.getBlock("latest"))!.timestamp;
+
+  const stakeData = (txHash: string, lockTime: number, validatorAddress: string) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["bytes32", "uint256", "address"],
+      [txHash, lockTime, validatorAddress]
+    );
+
+  const increaseTime = async (seconds: number) => {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  };
+
+  beforeEach(async function () {
+    [owner, manager, agent, validator, alice] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    btcToken = await MockERC20Factory.deploy("Core BTC", "coreBTC", 8);
+    await btcToken.mint(alice.address, DEPOSIT_AMOUNT);
+
+    const MockWCOREFactory = await ethers.getContractFactory("MockWCORE");
+    wcore = await MockWCOREFactory.deploy();
+
+    const MockBtcStakeFactory = await ethers.getContractFactory("MockBtcStake");
+    btcStake = await MockBtcStakeFactory.deploy(await btcToken.getAddress());
+
+    const MockStakeHubFactory = await ethers.getContractFactory("MockStakeHub");
+    mockStakeHub = await MockStakeHubFactory.deploy();
+
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
+    vault = await VaultFactory.deploy(
+      await btcToken.getAddress(),
+      "BTC Vault",
+      "vBTC",
+      manager.address,
+      agent.address,
+      0, // no withdrawal fee
+      0, // no fixed yield
+      owner.address, // treasury address
+      0 // decimals offset
+    );
+
+    const BTCStrategyFactory = await ethers.getContractFactory("BTCStrategy");
+    btcStrategy = await BTCStrategyFactory.deploy(
+      await btcToken.getAddress(),
+      await btcStake.getAddress(),
+      await mockStakeHub.getAddress(),
+      await wcore.getAddress()
+    );
+    await btcStrategy.setVault(await vault.getAddress());
+    await vault.connect(manager).addStrategy(await btcStrategy.getAddress());
+
+    await btcToken
+      .connect(alice)
+      .approve(await vault.getAddress(), DEPOSIT_AMOUNT);
+    await vault.connect(alice).deposit(DEPOSIT_AMOUNT, alice.address);
+  });
+
+  describe("Deployment", function () {
+    it("Should set the protocol addresses and selectors", async function () {
+      expect(await btcStrategy.underlyingToken()).to.equal(
+        await btcToken.getAddress()
+      );
+      expect(await btcStrategy.protocol()).to.equal(
+        await btcStake.getAddress()
+      );
+      expect(await btcStrategy.stakeHub()).to.equal(
+        await mockStakeHub.getAddress()
+      );
+      expect(await btcStrategy.depositSelector()).to.equal(
+        btcStake.interface.getFunction("delegate").selector
+      );
+      expect(await btcStrategy.withdrawSelector()).to.equal(
+        btcStake.interface.getFunction("redeem").selector
+      );
+      expect(await btcStrategy.getBalance()).to.equal(0);
+    });
+
+    it("Should forward wrapped CORE rewards by default", async function () {
+      expect(await btcStrategy.knownRewardTokens(await wcore.getAddress())).to
+        .be.true;
+      expect(await btcStrategy.rewardTokensList()).to.deep.equal([
+        await wcore.getAddress(),
+      ]);
+    });
+
+    it("Should revert with zero addresses", async function () {
+      const BTCStrategyFactory = await ethers.getContractFactory("BTCStrategy");
+      await expect(
+        BTCStrategyFactory.deploy(
+          await btcToken.getAddress(),
+          ethers.ZeroAddress,
+          await mockStakeHub.getAddress(),
+          await wcore.getAddress()
+        )
+      ).to.be.revertedWith("Invalid BTC stake address");
+      await expect(
+        BTCStrategyFactory.deploy(
+          await btcToken.getAddress(),
+          await btcStake.getAddress(),
+          await mockStakeHub.getAddress(),
+          ethers.ZeroAddress
+        )
+      ).to.be.revertedWith("Invalid reward wrapper address");
+    });
+  });
+
+  describe("Recording Stakes", function () {
+    it("Should record a relayed lock transaction", async function () {
+      const lockTime = (await latestTimestamp()) + LOCK_PERIOD;
+
+      await expect(
+        vault
+          .connect(agent)
+          .depositToStrategy(
+            await btcStrategy.getAddress(),
+            STAKE_AMOUNT,
+            stakeData(TX_HASH_A, lockTime, validator.address)
+          )
+      )
+        .to.emit(btcStrategy, "BtcStakeRecorded")
+        .withArgs(TX_HASH_A, validator.address, STAKE_AMOUNT, lockTime)
+        .and.to.emit(btcStake, "BtcDelegated")
+        .withArgs(
+          TX_HASH_A,
+          await btcStrategy.getAddress(),
+          validator.address,
+          STAKE_AMOUNT,
+          lockTime
+        )
+        .and.to.emit(mockStakeHub, "StakeChangeNotified");
+
+      const stake = await btcStrategy.stakes(TX_HASH_A);
+      expect(stake.amount).to.equal(STAKE_AMOUNT);
+      expect(stake.lockTime).to.equal(lockTime);
+      expect(stake.validator).to.equal(validator.address);
+      expect(await btcStrategy.getStakeTxHashes()).to.deep.equal([TX_HASH_A]);
+      expect(await btcStrategy.totalStaked()).to.equal(STAKE_AMOUNT);
+      expect(await btcStrategy.getBalance()).to.equal(STAKE_AMOUNT);
+      expect(
+        await btcStake.stakedAmount(await btcStrategy.getAddress())
+      ).to.equal(STAKE_AMOUNT);
+
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.currentDebt).to.equal(STAKE_AMOUNT);
+    });
+
+    it("Should expose the protocol through queryProtocol", async function () {
+      const lockTime = (await latestTimestamp()) + LOCK_PERIOD;
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await btcStrategy.getAddress(),
+          STAKE_AMOUNT,
+          stakeData(TX_HASH_A, lockTime, validator.address)
+        );
+
+      const result = await btcStrategy.queryProtocol(
+        btcStake.interface.getFunction("stakedAmount").selector,
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          ["address"],
+          [await btcStrategy.getAddress()]
+        )
+      );
+      expect(
+        ethers.AbiCoder.defaultAbiCoder().decode(["uint256"], result)[0]
+      ).to.equal(STAKE_AMOUNT);
+    });
+
+    it("Should revert without lock transaction data", async function () {
+      await expect(
+        vault
+          .connect(agent)
+          .depositToStrategy(await btcStrategy.getAddress(), STAKE_AMOUNT, "0x")
+      ).to.be.revertedWithCustomError(btcStrategy, "InvalidStakeData");
+    });
+
+    it("Should not record the same lock transaction twice", async function () {
+      const lockTime = (await latestTimestamp()) + LOCK_PERIOD;
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await btcStrategy.getAddress(),
+          STAKE_AMOUNT,
+          stakeData(TX_HASH_A, lockTime, validator.address)
+        );
+
+      await expect(
+        vault
+          .connect(agent)
+          .depositToStrategy(
+            await btcStrategy.getAddress(),
+            STAKE_AMOUNT,
+            stakeData(TX_HASH_A, lockTime, validator.address)
+          )
+      ).to.be.revertedWith("Tx already relayed");
+    });
+
+    it("Should not record an already expired lock", async function () {
+      const lockTime = await latestTimestamp();
+
+      await expect(
+        vault
+          .connect(agent)
+          .depositToStrategy(
+            await btcStrategy.getAddress(),
+            STAKE_AMOUNT,
+            stakeData(TX_HASH_A, lockTime, validator.address)
+          )
+      ).to.be.revertedWith("Lock time already passed");
+    });
+
+    it("Should only let the vault record stakes", async function () {
+      await expect(
+        btcStrategy
+          .connect(alice)
+          .execute(
+            STAKE_AMOUNT,
+            stakeData(TX_HASH_A, LOCK_PERIOD, validator.address)
+          )
+      ).to.be.revertedWith("Only vault can call");
+    });
+  });
+
+  describe("Expiry and Withdrawals", function () {
+    let lockTimeA: number;
+
+    beforeEach(async function () {
+      lockTimeA = (await latestTimestamp()) + LOCK_PERIOD;
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await btcStrategy.getAddress(),
+          STAKE_AMOUNT,
+          stakeData(TX_HASH_A, lockTimeA, validator.address)
+        );
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await btcStrategy.getAddress(),
+          STAKE_AMOUNT,
+          stakeData(TX_HASH_B, lockTimeA + LOCK_PERIOD, validator.address)
+        );
+    });
+
+    it("Should track which stakes have expired", async function () {
+      let [expired, amount] = await btcStrategy.getExpiredStakes();
+      expect(expired).to.deep.equal([]);
+      expect(amount).to.equal(0);
+
+      await increaseTime(LOCK_PERIOD);
+
+      [expired, amount] = await btcStrategy.getExpiredStakes();
+      expect(expired).to.deep.equal([TX_HASH_A]);
+      expect(amount).to.equal(STAKE_AMOUNT);
+    });
+
+    it("Should only report expired stake as available liquidity", async function () {
+      expect(await btcStrategy.availableLiquidity()).to.equal(0);
+
+      await increaseTime(LOCK_PERIOD);
+
+      expect(await btcStrategy.availableLiquidity()).to.equal(STAKE_AMOUNT);
+    });
+
+    it("Should leave timelocked stake in place when withdrawing", async function () {
+      await vault
+        .connect(agent)
+        .withdrawFromStrategy(await btcStrategy.getAddress(), STAKE_AMOUNT, "0x");
+
+      expect(await btcStrategy.totalStaked()).to.equal(STAKE_AMOUNT * 2n);
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.currentDebt).to.equal(STAKE_AMOUNT * 2n);
+      expect(params.totalLoss).to.equal(0);
+    });
+
+    it("Should only pull expired stake for vault withdrawals", async function () {
+      await vault
+        .connect(manager)
+        .setWithdrawalQueue([await btcStrategy.getAddress()]);
+      await increaseTime(LOCK_PERIOD);
+
+      const idle = DEPOSIT_AMOUNT - STAKE_AMOUNT * 2n;
+      await vault
+        .connect(alice)
+        .withdraw(idle + STAKE_AMOUNT, alice.address, alice.address);
+
+      expect(await btcToken.balanceOf(alice.address)).to.equal(
+        idle + STAKE_AMOUNT
+      );
+      expect(await btcStrategy.getStakeTxHashes()).to.deep.equal([TX_HASH_B]);
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.currentDebt).to.equal(STAKE_AMOUNT);
+      expect(params.totalLoss).to.equal(0);
+    });
+
+    it("Should redeem expired stakes whole and keep the excess", async function () {
+      await increaseTime(LOCK_PERIOD);
+      const amount = STAKE_AMOUNT / 4n;
+
+      await expect(
+        vault
+          .connect(agent)
+          .withdrawFromStrategy(await btcStrategy.getAddress(), amount, "0x")
+      )
+        .to.emit(btcStrategy, "BtcStakeRedeemed")
+        .withArgs(TX_HASH_A, STAKE_AMOUNT)
+        .and.to.emit(btcStake, "BtcRedeemed");
+
+      expect(await btcStrategy.getStakeTxHashes()).to.deep.equal([TX_HASH_B]);
+      expect(await btcStrategy.totalStaked()).to.equal(STAKE_AMOUNT);
+      expect(
+        await btcToken.balanceOf(await btcStrategy.getAddress())
+      ).to.equal(STAKE_AMOUNT - amount);
+      expect(await btcStrategy.getBalance()).to.equal(
+        STAKE_AMOUNT * 2n - amount
+      );
+
+      // Redeemed stake left in the strategy is not a loss
+      await vault.connect(agent).report(await btcStrategy.getAddress());
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.totalLoss).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("Should redeem expired stakes on request", async function () {
+      await vault
+        .connect(manager)
+        .setStrategySelectors(
+          await btcStrategy.getAddress(),
+          [btcStrategy.interface.getFunction("redeemExpired").selector],
+          true
+        );
+      await increaseTime(LOCK_PERIOD * 2);
+
+      await vault
+        .connect(agent)
+        .executeStrategy(
+          await btcStrategy.getAddress(),
+          btcStrategy.interface.encodeFunctionData("redeemExpired")
+        );
+
+      expect(await btcStrategy.totalStaked()).to.equal(0);
+      expect(await btcStrategy.getStakeTxHashes()).to.deep.equal([]);
+      expect(await btcStrategy.getBalance()).to.equal(STAKE_AMOUNT * 2n);
+    });
+
+    it("Should exit expired stakes and keep timelocked ones on the debt", async function () {
+      await increaseTime(LOCK_PERIOD);
+
+      await expect(
+        vault
+          .connect(agent)
+          .emergencyExitStrategy(await btcStrategy.getAddress(), "0x")
+      )
+        .to.emit(btcStrategy, "EmergencyExited")
+        .withArgs(STAKE_AMOUNT * 2n, "0x");
+
+      expect(await btcStrategy.getStakeTxHashes()).to.deep.equal([TX_HASH_B]);
+      expect(await btcToken.balanceOf(await vault.getAddress())).to.equal(
+        DEPOSIT_AMOUNT - STAKE_AMOUNT
+      );
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.currentDebt).to.equal(STAKE_AMOUNT);
+      expect(params.totalLoss).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("Should exit everything once all stakes have expired", async function () {
+      await increaseTime(LOCK_PERIOD * 2);
+
+      await expect(
+        vault
+          .connect(agent)
+          .emergencyExitStrategy(await btcStrategy.getAddress(), "0x")
+      )
+        .to.emit(btcStrategy, "EmergencyExited")
+        .withArgs(STAKE_AMOUNT * 2n, "0x");
+
+      expect(await btcStrategy.getBalance()).to.equal(0);
+      expect(await btcToken.balanceOf(await vault.getAddress())).to.equal(
+        DEPOSIT_AMOUNT
+      );
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.currentDebt).to.equal(0);
+      expect(params.totalLoss).to.equal(0);
+    });
+  });
+
+  describe("Rewards", function () {
+    const CORE_REWARD = ethers.parseEther("1");
+    const BTC_REWARD = ethers.parseEther("4");
+    const TOTAL_REWARDS = CORE_REWARD + BTC_REWARD;
+
+    beforeEach(async function () {
+      const lockTime = (await latestTimestamp()) + LOCK_PERIOD;
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await btcStrategy.getAddress(),
+          STAKE_AMOUNT,
+          stakeData(TX_HASH_A, lockTime, validator.address)
+        );
+
+      await mockStakeHub.setPendingRewards(await btcStrategy.getAddress(), [
+        CORE_REWARD,
+        0,
+        BTC_REWARD,
+      ]);
+      await mockStakeHub.fundRewards({ value: TOTAL_REWARDS });
+    });
+
+    it("Should claim rewards and forward them to the vault as WCORE", async function () {
+      await expect(
+        vault
+          .connect(agent)
+          .harvestStrategy(await btcStrategy.getAddress(), "0x")
+      )
+        .to.emit(btcStrategy, "RewardsClaimed")
+        .withArgs([CORE_REWARD, 0, BTC_REWARD])
+        .and.to.emit(btcStrategy, "TokensForwarded")
+        .withArgs(await wcore.getAddress(), TOTAL_REWARDS);
+
+      expect(await wcore.balanceOf(await vault.getAddress())).to.equal(
+        TOTAL_REWARDS
+      );
+      expect(await btcStrategy.totalBtcRewards()).to.equal(BTC_REWARD);
+      expect(
+        await ethers.provider.getBalance(await btcStrategy.getAddress())
+      ).to.equal(0);
+    });
+
+    it("Should swap rewards into BTC held as strategy profit", async function () {
+      const POOL_RESERVE = ethers.parseEther("1000");
+      const BTC_RESERVE = ethers.parseUnits("10", 8);
+
+      const MockSushiSwapFactory = await ethers.getContractFactory(
+        "MockSushiSwap"
+      );
+      const pool = await MockSushiSwapFactory.deploy(
+        await wcore.getAddress(),
+        await btcToken.getAddress(),
+        await wcore.getAddress()
+      );
+      await wcore.deposit({ value: POOL_RESERVE });
+      await btcToken.mint(owner.address, BTC_RESERVE);
+      await wcore.approve(await pool.getAddress(), POOL_RESERVE);
+      await btcToken.approve(await pool.getAddress(), BTC_RESERVE);
+      await pool.addLiquidity(POOL_RESERVE, BTC_RESERVE);
+
+      const MockSushiSwapperFactory = await ethers.getContractFactory(
+        "MockSushiSwapper"
+      );
+      const swapper = await MockSushiSwapperFactory.deploy(
+        await pool.getAddress()
+      );
+      await vault
+        .connect(manager)
+        .setRewardSwapper(
+          await wcore.getAddress(),
+          await swapper.getAddress()
+        );
+      await vault
+        .connect(manager)
+        .setStrategySelectors(
+          await btcStrategy.getAddress(),
+          [btcStrategy.interface.getFunction("harvestAndSwap").selector],
+          true
+        );
+
+      await expect(
+        vault
+          .connect(agent)
+          .executeStrategy(
+            await btcStrategy.getAddress(),
+            btcStrategy.interface.encodeFunctionData("harvestAndSwap", [
+              "0x",
+              [0],
+            ])
+          )
+      ).to.emit(btcStrategy, "RewardsSwapped");
+
+      const swapped = await btcToken.balanceOf(await btcStrategy.getAddress());
+      expect(swapped).to.be.gt(0);
+      expect(await btcStrategy.getBalance()).to.equal(STAKE_AMOUNT + swapped);
+
+      await vault.connect(agent).report(await btcStrategy.getAddress());
+      const params = await vault.getStrategyParams(
+        await btcStrategy.getAddress()
+      );
+      expect(params.totalGain).to.equal(swapped);
+    });
+
+    it("Should keep going when the StakeHub claim fails", async function () {
+      // Unfunded StakeHub cannot pay out the rewards
+      await mockStakeHub.emergencyDrain();
+
+      await expect(
+        vault
+          .connect(agent)
+          .harvestStrategy(await btcStrategy.getAddress(), "0x")
+      ).to.emit(btcStrategy, "ClaimRewardsFailed");
+      expect(await btcStrategy.totalBtcRewards()).to.equal(0);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { Vault, MockUSDC } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("Compound Interest Precision Tests", function () {
   let vault: Vault;
@@ -22,7 +23,9 @@ describe("Compound Interest Precision Tests", function () {
     underlyingToken = await MockUSDCFactory.deploy();
 
     // Deploy vault with 5% annual yield rate for testing
-    const VaultFactory = await ethers.getContractFactory("Vault");
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
     vault = await VaultFactory.deploy(
       await underlyingToken.getAddress(),
       "Compound Vault Token",
@@ -31,7 +34,8 @@ describe("Compound Interest Precision Tests", function () {
       agent.address,
       0, // 0% withdrawal fee for cleaner tests
       500, // 5% annual yield rate
-      treasury.address
+      treasury.address,
+      0
     );
 
     // Setup test account with tokens
@@ -232,4 +236,43 @@ describe("Compound Interest Precision Tests", function () {
       expect(pendingYield).to.be.lt(ethers.parseUnits("150000", 6)); // Less than 15% over 2 years
     });
   });
+  describe("Continuous Compounding Mode", function () {
+    it("Should only allow the manager to switch compounding mode", async function () {
+      await expect(
+        vault.connect(alice).setContinuousCompounding(true)
+      ).to.be.revertedWith("Vault: caller is not a manager");
+
+      await expect(vault.connect(manager).setContinuousCompounding(true))
+        .to.emit(vault, "CompoundingModeUpdated")
+        .withArgs(true);
+      expect(await vault.continuousCompounding()).to.be.true;
+    });
+
+    it("Should accrue per-second compounded yield over 1 year", async function () {
+      await vault.connect(manager).setContinuousCompounding(true);
+      const depositAmount = ethers.parseUnits("10000", 6);
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      await ethers.provider.send("evm_increaseTime", [365 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      // 10000 * (e^0.05 - 1) ≈ 512.71 USDC
+      expect(await vault.calculatePendingYield()).to.be.closeTo(
+        ethers.parseUnits("512.71", 6),
+        ethers.parseUnits("0.01", 6)
+      );
+    });
+
+    it("Should settle pending yield before switching mode", async function () {
+      const depositAmount = ethers.parseUnits("10000", 6);
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await vault.connect(manager).setContinuousCompounding(true);
+      expect(await vault.getTotalAccruedYield()).to.be.gt(0);
+      expect(await vault.calculatePendingYield()).to.equal(0);
+    });
+  });
 });
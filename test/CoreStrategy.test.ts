@@ -7,6 +7,7 @@ import {
   MockCoreAgent,
   MockERC20,
 } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("CoreStrategy", function () {
   let coreStrategy: CoreStrategy;
@@ -247,6 +248,49 @@ describe("CoreStrategy", function () {
         .reverted;
     });
 
+    it("Should expose the pending reward breakdown", async function () {
+      const [rewards, total] = await coreStrategy.getPendingRewards();
+      expect(rewards).to.deep.equal([
+        ethers.parseEther("10"),
+        ethers.parseEther("5"),
+        ethers.parseEther("3"),
+      ]);
+      expect(total).to.equal(ethers.parseEther("18"));
+    });
+
+    it("Should account claimed rewards per asset type", async function () {
+      await expect(coreStrategy.connect(vault).harvest("0x"))
+        .to.emit(coreStrategy, "RewardsClaimedByAsset")
+        .withArgs([
+          ethers.parseEther("10"),
+          ethers.parseEther("5"),
+          ethers.parseEther("3"),
+        ]);
+
+      const [pending] = await coreStrategy.getPendingRewards();
+      expect(pending).to.deep.equal([]);
+
+      // A later claim with BTC rewards only adds to the BTC total
+      await mockStakeHub.setPendingRewards(await coreStrategy.getAddress(), [
+        0,
+        0,
+        ethers.parseEther("2"),
+      ]);
+      await mockStakeHub.fundRewards({ value: ethers.parseEther("2") });
+      await coreStrategy.connect(vault).harvest("0x");
+
+      const claimed = await coreStrategy.getClaimedRewards();
+      expect(claimed[Number(await coreStrategy.REWARD_CORE())]).to.equal(
+        ethers.parseEther("10")
+      );
+      expect(claimed[Number(await coreStrategy.REWARD_HASH_POWER())]).to.equal(
+        ethers.parseEther("5")
+      );
+      expect(claimed[Number(await coreStrategy.REWARD_BTC())]).to.equal(
+        ethers.parseEther("5")
+      );
+    });
+
     it("Should not allow non-vault to harvest", async function () {
       await expect(coreStrategy.connect(user).harvest("0x")).to.be.revertedWith(
         "Only vault can call"
@@ -305,16 +349,773 @@ describe("CoreStrategy", function () {
       ).to.be.revertedWithCustomError(coreStrategy, "UnstakingFailed");
     });
 
-    it("Should exit with custom validator", async function () {
+    it("Should exit every validator holding stake", async function () {
       const customValidator = user.address;
       const validatorData = ethers.AbiCoder.defaultAbiCoder().encode(
         ["address"],
         [customValidator]
       );
+      await coreToken
+        .connect(vault)
+        .approve(await coreStrategy.getAddress(), STAKE_AMOUNT);
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, validatorData);
 
-      await expect(coreStrategy.connect(vault).emergencyExit(validatorData))
+      await expect(coreStrategy.connect(vault).emergencyExit("0x"))
         .to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator.address, STAKE_AMOUNT)
+        .and.to.emit(coreStrategy, "Unstaked")
         .withArgs(customValidator, STAKE_AMOUNT);
+
+      expect(
+        await mockCoreAgent.getTotalDelegated(await coreStrategy.getAddress())
+      ).to.equal(0);
+      expect(await coreStrategy.totalStaked()).to.equal(0);
+      const [validators] = await coreStrategy.getValidators();
+      expect(validators).to.be.empty;
+    });
+  });
+
+  describe("Withdraw", function () {
+    beforeEach(async function () {
+      await coreToken
+        .connect(vault)
+        .approve(await coreStrategy.getAddress(), STAKE_AMOUNT);
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x");
+    });
+
+    it("Should unstake part of the position back to the vault", async function () {
+      const withdrawAmount = ethers.parseEther("400");
+      const initialVaultBalance = await coreToken.balanceOf(vault.address);
+
+      const withdrawn = await coreStrategy
+        .connect(vault)
+        .withdraw.staticCall(withdrawAmount, "0x");
+      expect(withdrawn).to.equal(withdrawAmount);
+
+      await expect(coreStrategy.connect(vault).withdraw(withdrawAmount, "0x"))
+        .to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator.address, withdrawAmount)
+        .and.to.emit(mockStakeHub, "StakeChangeNotified")
+        .withArgs(await coreStrategy.getAddress());
+
+      expect(await coreStrategy.totalStaked()).to.equal(
+        STAKE_AMOUNT - withdrawAmount
+      );
+      expect(await coreToken.balanceOf(vault.address)).to.equal(
+        initialVaultBalance + withdrawAmount
+      );
+    });
+
+    it("Should revert on zero amount", async function () {
+      await expect(
+        coreStrategy.connect(vault).withdraw(0, "0x")
+      ).to.be.revertedWithCustomError(coreStrategy, "InvalidAmount");
+    });
+
+    it("Should revert when withdrawing more than staked", async function () {
+      await expect(
+        coreStrategy.connect(vault).withdraw(STAKE_AMOUNT + 1n, "0x")
+      ).to.be.revertedWithCustomError(coreStrategy, "InsufficientStake");
+    });
+
+    it("Should handle undelegate failure", async function () {
+      await mockCoreAgent.setFailureModes(false, true);
+
+      await expect(
+        coreStrategy.connect(vault).withdraw(STAKE_AMOUNT, "0x")
+      ).to.be.revertedWithCustomError(coreStrategy, "UnstakingFailed");
+    });
+
+    it("Should revert if not called by vault", async function () {
+      await expect(
+        coreStrategy.connect(user).withdraw(STAKE_AMOUNT, "0x")
+      ).to.be.revertedWith("Only vault can call");
+    });
+  });
+
+  describe("Validator Set", function () {
+    let validator2: SignerWithAddress;
+    let validator3: SignerWithAddress;
+
+    beforeEach(async function () {
+      [, , , , validator2, validator3] = await ethers.getSigners();
+
+      await coreStrategy
+        .connect(vault)
+        .setValidatorWeight(validator.address, 5000);
+      await coreStrategy
+        .connect(vault)
+        .setValidatorWeight(validator2.address, 3000);
+      await coreStrategy
+        .connect(vault)
+        .setValidatorWeight(validator3.address, 2000);
+
+      await coreToken
+        .connect(vault)
+        .approve(await coreStrategy.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should track weights and emit updates", async function () {
+      await expect(
+        coreStrategy.connect(vault).setValidatorWeight(validator3.address, 1000)
+      )
+        .to.emit(coreStrategy, "ValidatorWeightUpdated")
+        .withArgs(validator3.address, 1000);
+
+      expect(await coreStrategy.totalWeight()).to.equal(9000);
+      const [validators, weights] = await coreStrategy.getValidators();
+      expect(validators).to.deep.equal([
+        validator.address,
+        validator2.address,
+        validator3.address,
+      ]);
+      expect(weights).to.deep.equal([5000n, 3000n, 1000n]);
+    });
+
+    it("Should split stake across validators by weight", async function () {
+      await expect(coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x"))
+        .to.emit(coreStrategy, "Staked")
+        .withArgs(validator.address, ethers.parseEther("500"))
+        .and.to.emit(coreStrategy, "Staked")
+        .withArgs(validator2.address, ethers.parseEther("300"))
+        .and.to.emit(coreStrategy, "Staked")
+        .withArgs(validator3.address, ethers.parseEther("200"));
+
+      const [, , stakes] = await coreStrategy.getValidators();
+      expect(stakes).to.deep.equal([
+        ethers.parseEther("500"),
+        ethers.parseEther("300"),
+        ethers.parseEther("200"),
+      ]);
+      expect(await coreStrategy.totalStaked()).to.equal(STAKE_AMOUNT);
+    });
+
+    it("Should give the rounding remainder to the last weighted validator", async function () {
+      await coreStrategy.connect(vault).execute(10n, "0x");
+
+      const [, , stakes] = await coreStrategy.getValidators();
+      expect(stakes).to.deep.equal([5n, 3n, 2n]);
+
+      await coreStrategy.connect(vault).execute(7n, "0x");
+      const [, , after] = await coreStrategy.getValidators();
+      expect(after[0] + after[1] + after[2]).to.equal(17n);
+      expect(await coreStrategy.totalStaked()).to.equal(17n);
+    });
+
+    it("Should withdraw across validators", async function () {
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x");
+
+      await coreStrategy
+        .connect(vault)
+        .withdraw(ethers.parseEther("600"), "0x");
+
+      const [, , stakes] = await coreStrategy.getValidators();
+      expect(stakes).to.deep.equal([
+        0n,
+        ethers.parseEther("200"),
+        ethers.parseEther("200"),
+      ]);
+      expect(await coreStrategy.totalStaked()).to.equal(
+        ethers.parseEther("400")
+      );
+    });
+
+    it("Should not withdraw more than a validator holds", async function () {
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x");
+      const validatorData = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address"],
+        [validator3.address]
+      );
+
+      await expect(
+        coreStrategy
+          .connect(vault)
+          .withdraw(ethers.parseEther("300"), validatorData)
+      ).to.be.revertedWithCustomError(coreStrategy, "InsufficientStake");
+    });
+
+    it("Should rebalance stake towards target weights", async function () {
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x");
+
+      // Move all weight off the first validator and onto the third
+      await coreStrategy
+        .connect(vault)
+        .setValidatorWeight(validator.address, 0);
+      await coreStrategy
+        .connect(vault)
+        .setValidatorWeight(validator3.address, 7000);
+
+      await expect(coreStrategy.connect(vault).rebalanceValidators())
+        .to.emit(coreStrategy, "ValidatorsRebalanced")
+        .withArgs(ethers.parseEther("500"))
+        .and.to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator.address, ethers.parseEther("500"))
+        .and.to.emit(coreStrategy, "Staked")
+        .withArgs(validator3.address, ethers.parseEther("500"));
+
+      const [validators, , stakes] = await coreStrategy.getValidators();
+      expect(validators).to.deep.equal([
+        validator3.address,
+        validator2.address,
+      ]);
+      expect(stakes).to.deep.equal([
+        ethers.parseEther("700"),
+        ethers.parseEther("300"),
+      ]);
+      expect(await coreStrategy.totalStaked()).to.equal(STAKE_AMOUNT);
+      expect(
+        await mockCoreAgent.getDelegatedAmount(
+          await coreStrategy.getAddress(),
+          validator3.address
+        )
+      ).to.equal(ethers.parseEther("700"));
+    });
+
+    it("Should revert rebalancing without weights or stake", async function () {
+      await expect(
+        coreStrategy.connect(vault).rebalanceValidators()
+      ).to.be.revertedWithCustomError(coreStrategy, "NoValidator");
+    });
+
+    it("Should cap the validator set size", async function () {
+      const max = await coreStrategy.MAX_VALIDATORS();
+      for (let i = 3n; i < max; i++) {
+        await coreStrategy
+          .connect(vault)
+          .setValidatorWeight(ethers.toBeHex(1000n + i, 20), 1);
+      }
+
+      await expect(
+        coreStrategy
+          .connect(vault)
+          .setValidatorWeight(ethers.toBeHex(999n, 20), 1)
+      ).to.be.revertedWithCustomError(coreStrategy, "TooManyValidators");
+    });
+
+    it("Should only let the vault manage validators", async function () {
+      await expect(
+        coreStrategy.connect(user).setValidatorWeight(user.address, 1)
+      ).to.be.revertedWith("Only vault can call");
+      await expect(
+        coreStrategy.connect(user).rebalanceValidators()
+      ).to.be.revertedWith("Only vault can call");
+    });
+  });
+
+  describe("Stake Reconciliation", function () {
+    const SLASH_AMOUNT = ethers.parseEther("100");
+    let validator2: SignerWithAddress;
+
+    beforeEach(async function () {
+      [, , , , validator2] = await ethers.getSigners();
+
+      await coreToken
+        .connect(vault)
+        .approve(await coreStrategy.getAddress(), ethers.MaxUint256);
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x");
+      await coreStrategy
+        .connect(vault)
+        .execute(
+          STAKE_AMOUNT,
+          ethers.AbiCoder.defaultAbiCoder().encode(
+            ["address"],
+            [validator2.address]
+          )
+        );
+    });
+
+    it("Should expose stake per validator", async function () {
+      expect(
+        await coreStrategy.getStakeByValidator(validator.address)
+      ).to.equal(STAKE_AMOUNT);
+      expect(
+        await coreStrategy.getStakeByValidator(validator2.address)
+      ).to.equal(STAKE_AMOUNT);
+      expect(await coreStrategy.getStakeByValidator(user.address)).to.equal(0);
+      expect(await coreStrategy.totalStaked()).to.equal(STAKE_AMOUNT * 2n);
+    });
+
+    it("Should refuse partial unstakes once the agent holds less than recorded", async function () {
+      await mockCoreAgent.slash(
+        await coreStrategy.getAddress(),
+        validator.address,
+        SLASH_AMOUNT
+      );
+
+      await expect(
+        coreStrategy.connect(vault).withdraw(ethers.parseEther("10"), "0x")
+      )
+        .to.be.revertedWithCustomError(coreStrategy, "StakeMismatch")
+        .withArgs(validator.address, STAKE_AMOUNT, STAKE_AMOUNT - SLASH_AMOUNT);
+
+      // Stake with an untouched validator can still be unstaked
+      const validatorData = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address"],
+        [validator2.address]
+      );
+      await coreStrategy
+        .connect(vault)
+        .withdraw(ethers.parseEther("10"), validatorData);
+      expect(
+        await coreStrategy.getStakeByValidator(validator2.address)
+      ).to.equal(STAKE_AMOUNT - ethers.parseEther("10"));
+    });
+
+    it("Should exit what the agent reports and write off the rest", async function () {
+      await mockCoreAgent.slash(
+        await coreStrategy.getAddress(),
+        validator.address,
+        SLASH_AMOUNT
+      );
+      const initialVaultBalance = await coreToken.balanceOf(vault.address);
+
+      await expect(coreStrategy.connect(vault).emergencyExit("0x"))
+        .to.emit(coreStrategy, "StakeReconciled")
+        .withArgs(validator.address, STAKE_AMOUNT, STAKE_AMOUNT - SLASH_AMOUNT)
+        .and.to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator.address, STAKE_AMOUNT - SLASH_AMOUNT)
+        .and.to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator2.address, STAKE_AMOUNT);
+
+      expect(await coreStrategy.totalStaked()).to.equal(0);
+      expect(
+        await coreStrategy.getStakeByValidator(validator.address)
+      ).to.equal(0);
+      expect(await coreToken.balanceOf(vault.address)).to.equal(
+        initialVaultBalance + STAKE_AMOUNT * 2n - SLASH_AMOUNT
+      );
+    });
+
+    it("Should compare against its own stake when others delegate to the same validator", async function () {
+      const otherStake = ethers.parseEther("500");
+      await coreToken.mint(user.address, otherStake);
+      await coreToken
+        .connect(user)
+        .approve(await mockCoreAgent.getAddress(), otherStake);
+      await mockCoreAgent.connect(user).delegate(validator.address, otherStake);
+
+      // The agent reports each candidate's total stake across delegators
+      const [amounts] = await mockCoreAgent.getStakeAmounts(
+        [validator.address],
+        0
+      );
+      expect(amounts[0]).to.equal(STAKE_AMOUNT + otherStake);
+
+      const initialVaultBalance = await coreToken.balanceOf(vault.address);
+      await expect(coreStrategy.connect(vault).emergencyExit("0x"))
+        .to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator.address, STAKE_AMOUNT)
+        .and.not.to.emit(coreStrategy, "StakeReconciled");
+
+      expect(await coreToken.balanceOf(vault.address)).to.equal(
+        initialVaultBalance + STAKE_AMOUNT * 2n
+      );
+      expect(
+        await mockCoreAgent.getDelegatedAmount(user.address, validator.address)
+      ).to.equal(otherStake);
+    });
+
+    it("Should write off a fully slashed validator without undelegating", async function () {
+      await mockCoreAgent.slash(
+        await coreStrategy.getAddress(),
+        validator2.address,
+        STAKE_AMOUNT
+      );
+
+      const initialVaultBalance = await coreToken.balanceOf(vault.address);
+
+      await expect(coreStrategy.connect(vault).emergencyExit("0x"))
+        .to.emit(coreStrategy, "StakeReconciled")
+        .withArgs(validator2.address, STAKE_AMOUNT, 0);
+
+      expect(await coreToken.balanceOf(vault.address)).to.equal(
+        initialVaultBalance + STAKE_AMOUNT
+      );
+
+      const [validators] = await coreStrategy.getValidators();
+      expect(validators).to.be.empty;
+    });
+  });
+
+  describe("Unbonding", function () {
+    const UNBONDING_PERIOD = 3 * 24 * 60 * 60; // 3 days
+    const UNBOND_AMOUNT = ethers.parseEther("300");
+
+    beforeEach(async function () {
+      await coreToken
+        .connect(vault)
+        .approve(await coreStrategy.getAddress(), STAKE_AMOUNT);
+      await coreStrategy.connect(vault).execute(STAKE_AMOUNT, "0x");
+      await mockCoreAgent.setUnbondingPeriod(UNBONDING_PERIOD);
+    });
+
+    it("Should keep unbonding stake in the balance", async function () {
+      await expect(coreStrategy.connect(vault).startUnbonding(UNBOND_AMOUNT))
+        .to.emit(coreStrategy, "UnbondingStarted")
+        .withArgs(UNBOND_AMOUNT)
+        .and.to.emit(coreStrategy, "Unstaked")
+        .withArgs(validator.address, UNBOND_AMOUNT);
+
+      expect(await coreStrategy.totalStaked()).to.equal(
+        STAKE_AMOUNT - UNBOND_AMOUNT
+      );
+      expect(await coreStrategy.totalUnbonding()).to.equal(UNBOND_AMOUNT);
+      expect(await coreStrategy.getBalance()).to.equal(STAKE_AMOUNT);
+      expect(await coreStrategy.claimableUnbonded()).to.equal(0);
+    });
+
+    it("Should pay withdrawals from released unbonding first", async function () {
+      await coreStrategy.connect(vault).startUnbonding(UNBOND_AMOUNT);
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await coreStrategy.claimableUnbonded()).to.equal(UNBOND_AMOUNT);
+
+      const initialVaultBalance = await coreToken.balanceOf(vault.address);
+      await coreStrategy.connect(vault).withdraw(UNBOND_AMOUNT, "0x");
+
+      expect(await coreToken.balanceOf(vault.address)).to.equal(
+        initialVaultBalance + UNBOND_AMOUNT
+      );
+      expect(await coreStrategy.totalUnbonding()).to.equal(0);
+      expect(await coreStrategy.totalStaked()).to.equal(
+        STAKE_AMOUNT - UNBOND_AMOUNT
+      );
+    });
+
+    it("Should only report released unbonding as available liquidity", async function () {
+      await mockCoreAgent.setUnbondingPeriod(0);
+      expect(await coreStrategy.availableLiquidity()).to.equal(STAKE_AMOUNT);
+
+      await mockCoreAgent.setUnbondingPeriod(UNBONDING_PERIOD);
+      await coreStrategy.connect(vault).startUnbonding(UNBOND_AMOUNT);
+      expect(await coreStrategy.availableLiquidity()).to.equal(0);
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await coreStrategy.availableLiquidity()).to.equal(UNBOND_AMOUNT);
+    });
+
+    it("Should only send released tokens and keep the rest unbonding", async function () {
+      const withdrawn = await coreStrategy
+        .connect(vault)
+        .withdraw.staticCall(UNBOND_AMOUNT, "0x");
+      expect(withdrawn).to.equal(0);
+
+      await coreStrategy.connect(vault).withdraw(UNBOND_AMOUNT, "0x");
+      expect(await coreStrategy.totalUnbonding()).to.equal(UNBOND_AMOUNT);
+      expect(await coreStrategy.getBalance()).to.equal(STAKE_AMOUNT);
+    });
+
+    it("Should collect unbonded stake on a later emergency exit", async function () {
+      await coreStrategy.connect(vault).emergencyExit("0x");
+      expect(await coreStrategy.totalStaked()).to.equal(0);
+      expect(await coreStrategy.totalUnbonding()).to.equal(STAKE_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      const initialVaultBalance = await coreToken.balanceOf(vault.address);
+      await coreStrategy.connect(vault).emergencyExit("0x");
+      expect(await coreToken.balanceOf(vault.address)).to.equal(
+        initialVaultBalance + STAKE_AMOUNT
+      );
+      expect(await coreStrategy.getBalance()).to.equal(0);
+    });
+
+    it("Should revert unbonding more than staked", async function () {
+      await expect(
+        coreStrategy.connect(vault).startUnbonding(STAKE_AMOUNT + 1n)
+      ).to.be.revertedWithCustomError(coreStrategy, "InsufficientStake");
+      await expect(
+        coreStrategy.connect(vault).startUnbonding(0)
+      ).to.be.revertedWithCustomError(coreStrategy, "InvalidAmount");
+      await expect(
+        coreStrategy.connect(user).startUnbonding(UNBOND_AMOUNT)
+      ).to.be.revertedWith("Only vault can call");
+    });
+  });
+
+  describe("Compounding", function () {
+    const REWARDS = [ethers.parseEther("4"), ethers.parseEther("1")];
+    const TOTAL_REWARDS = ethers.parseEther("5");
+    const KEEPER_TIP = 100n; // 1%
+
+    let wcore: any;
+    let realVault: any;
+    let strategy: CoreStrategy;
+    let hub: MockStakeHub;
+    let manager: SignerWithAddress;
+    let agent: SignerWithAddress;
+
+    // Deploys a Vault with a CoreStrategy staking `underlying` and lets the agent configure compounding
+    const deployCompounding = async (underlying: string) => {
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
+      realVault = await VaultFactory.deploy(
+        underlying,
+        "Core Vault",
+        "vCORE",
+        manager.address,
+        agent.address,
+        0,
+        0,
+        owner.address,
+        0
+      );
+
+      const MockStakeHubFactory = await ethers.getContractFactory(
+        "MockStakeHub"
+      );
+      hub = await MockStakeHubFactory.deploy();
+      const MockCoreAgentFactory = await ethers.getContractFactory(
+        "MockCoreAgent"
+      );
+      const agentContract = await MockCoreAgentFactory.deploy(underlying);
+      const CoreStrategyFactory = await ethers.getContractFactory(
+        "CoreStrategy"
+      );
+      strategy = await CoreStrategyFactory.deploy(
+        underlying,
+        await hub.getAddress(),
+        await agentContract.getAddress(),
+        validator.address
+      );
+      await strategy.setVault(await realVault.getAddress());
+      await realVault
+        .connect(manager)
+        .addStrategy(await strategy.getAddress());
+      await realVault
+        .connect(manager)
+        .setStrategySelectors(
+          await strategy.getAddress(),
+          [strategy.interface.getFunction("setCompoundConfig").selector],
+          true
+        );
+    };
+
+    const setCompoundConfig = (minAmount: bigint, tip: bigint) =>
+      realVault
+        .connect(agent)
+        .executeStrategy(
+          strategy.getAddress(),
+          strategy.interface.encodeFunctionData("setCompoundConfig", [
+            true,
+            wcore.target,
+            minAmount,
+            tip,
+          ])
+        );
+
+    const fundRewards = async () => {
+      await hub.setPendingRewards(await strategy.getAddress(), REWARDS);
+      await hub.fundRewards({ value: TOTAL_REWARDS });
+    };
+
+    beforeEach(async function () {
+      [, , , , manager, agent] = await ethers.getSigners();
+
+      const MockWCOREFactory = await ethers.getContractFactory("MockWCORE");
+      wcore = await MockWCOREFactory.deploy();
+    });
+
+    describe("WCORE underlying", function () {
+      beforeEach(async function () {
+        await deployCompounding(wcore.target);
+
+        await wcore.connect(user).deposit({ value: STAKE_AMOUNT });
+        await wcore.connect(user).approve(realVault.target, STAKE_AMOUNT);
+        await realVault.connect(user).deposit(STAKE_AMOUNT, user.address);
+        await realVault
+          .connect(agent)
+          .depositToStrategy(strategy.target, STAKE_AMOUNT, "0x");
+
+        await fundRewards();
+      });
+
+      it("Should restake rewards on harvest", async function () {
+        await setCompoundConfig(0n, KEEPER_TIP);
+
+        await expect(
+          realVault.connect(agent).harvestStrategy(strategy.target, "0x")
+        )
+          .to.emit(strategy, "Compounded")
+          .withArgs(realVault.target, TOTAL_REWARDS, 0, TOTAL_REWARDS)
+          .and.to.emit(strategy, "Staked")
+          .withArgs(validator.address, TOTAL_REWARDS);
+
+        expect(await strategy.totalStaked()).to.equal(
+          STAKE_AMOUNT + TOTAL_REWARDS
+        );
+        expect(
+          await ethers.provider.getBalance(strategy.target)
+        ).to.equal(0);
+
+        // The vault books the restaked rewards as strategy profit
+        await realVault.connect(agent).report(strategy.target);
+        expect(await realVault.totalAssets()).to.equal(
+          STAKE_AMOUNT + TOTAL_REWARDS
+        );
+      });
+
+      it("Should hold rewards below the compound threshold", async function () {
+        await setCompoundConfig(ethers.parseEther("8"), KEEPER_TIP);
+
+        await realVault.connect(agent).harvestStrategy(strategy.target, "0x");
+        expect(await strategy.totalStaked()).to.equal(STAKE_AMOUNT);
+        expect(await ethers.provider.getBalance(strategy.target)).to.equal(
+          TOTAL_REWARDS
+        );
+
+        await fundRewards();
+        await realVault.connect(agent).harvestStrategy(strategy.target, "0x");
+        expect(await strategy.totalStaked()).to.equal(
+          STAKE_AMOUNT + TOTAL_REWARDS * 2n
+        );
+      });
+
+      it("Should pay the keeper tip on keeper compounds", async function () {
+        await setCompoundConfig(0n, KEEPER_TIP);
+        const tip = (TOTAL_REWARDS * KEEPER_TIP) / 10000n;
+
+        const tx = strategy.connect(agent).compound(0);
+        await expect(tx)
+          .to.emit(strategy, "Compounded")
+          .withArgs(agent.address, TOTAL_REWARDS, tip, TOTAL_REWARDS - tip);
+        await expect(tx).to.changeEtherBalance(agent, tip);
+
+        expect(await strategy.totalStaked()).to.equal(
+          STAKE_AMOUNT + TOTAL_REWARDS - tip
+        );
+      });
+
+      it("Should only compound for vault agents above the threshold", async function () {
+        await expect(
+          strategy.connect(agent).compound(0)
+        ).to.be.revertedWithCustomError(strategy, "CompoundDisabled");
+
+        await setCompoundConfig(ethers.parseEther("8"), KEEPER_TIP);
+
+        await expect(
+          strategy.connect(user).compound(0)
+        ).to.be.revertedWithCustomError(strategy, "NotKeeper");
+        await expect(strategy.connect(agent).compound(0))
+          .to.be.revertedWithCustomError(strategy, "BelowCompoundThreshold")
+          .withArgs(TOTAL_REWARDS, ethers.parseEther("8"));
+      });
+
+      it("Should enforce the minimum restaked amount", async function () {
+        await setCompoundConfig(0n, KEEPER_TIP);
+
+        await expect(
+          strategy.connect(agent).compound(TOTAL_REWARDS)
+        ).to.be.revertedWithCustomError(strategy, "InsufficientCompoundOutput");
+      });
+    });
+
+    describe("Swapped underlying", function () {
+      const POOL_RESERVE = ethers.parseEther("1000");
+      let stCore: MockERC20;
+
+      beforeEach(async function () {
+        const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+        stCore = await MockERC20Factory.deploy("Staked CORE", "stCORE", 18);
+        await stCore.mint(owner.address, POOL_RESERVE + STAKE_AMOUNT);
+
+        await deployCompounding(await stCore.getAddress());
+
+        await stCore.approve(realVault.target, STAKE_AMOUNT);
+        await realVault.deposit(STAKE_AMOUNT, owner.address);
+        await realVault
+          .connect(agent)
+          .depositToStrategy(strategy.target, STAKE_AMOUNT, "0x");
+
+        await setCompoundConfig(0n, 0n);
+        await fundRewards();
+      });
+
+      it("Should swap wrapped rewards through the vault's reward swapper", async function () {
+        const MockSushiSwapFactory = await ethers.getContractFactory(
+          "MockSushiSwap"
+        );
+        const pool = await MockSushiSwapFactory.deploy(
+          wcore.target,
+          await stCore.getAddress(),
+          wcore.target
+        );
+        await wcore.deposit({ value: POOL_RESERVE });
+        await wcore.approve(await pool.getAddress(), POOL_RESERVE);
+        await stCore.approve(await pool.getAddress(), POOL_RESERVE);
+        await pool.addLiquidity(POOL_RESERVE, POOL_RESERVE);
+
+        const MockSushiSwapperFactory = await ethers.getContractFactory(
+          "MockSushiSwapper"
+        );
+        const swapper = await MockSushiSwapperFactory.deploy(
+          await pool.getAddress()
+        );
+        await realVault
+          .connect(manager)
+          .setRewardSwapper(wcore.target, await swapper.getAddress());
+
+        // Constant product output with MockSushiSwap's 0.3% fee
+        const amountInAfterFee =
+          TOTAL_REWARDS - (TOTAL_REWARDS * 30n) / 10000n;
+        const expectedOut =
+          (POOL_RESERVE * amountInAfterFee) / (POOL_RESERVE + amountInAfterFee);
+
+        await expect(
+          realVault
+            .connect(agent)
+            .harvestStrategy(
+              strategy.target,
+              ethers.AbiCoder.defaultAbiCoder().encode(
+                ["uint256"],
+                [expectedOut + 1n]
+              )
+            )
+        ).to.be.revertedWithCustomError(pool, "SlippageTooHigh");
+
+        await realVault
+          .connect(agent)
+          .harvestStrategy(
+            strategy.target,
+            ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [expectedOut])
+          );
+        expect(await strategy.totalStaked()).to.equal(
+          STAKE_AMOUNT + expectedOut
+        );
+      });
+
+      it("Should revert without a reward swapper", async function () {
+        await expect(
+          realVault.connect(agent).harvestStrategy(strategy.target, "0x")
+        ).to.be.revertedWithCustomError(strategy, "NoRewardSwapper");
+      });
+    });
+
+    it("Should validate the compound config", async function () {
+      await expect(
+        coreStrategy
+          .connect(vault)
+          .setCompoundConfig(true, ethers.ZeroAddress, 0, 0)
+      ).to.be.revertedWithCustomError(coreStrategy, "InvalidAddress");
+      await expect(
+        coreStrategy.connect(vault).setCompoundConfig(true, wcore.target, 0, 501)
+      ).to.be.revertedWithCustomError(coreStrategy, "InvalidKeeperTip");
+      await expect(
+        coreStrategy.connect(user).setCompoundConfig(true, wcore.target, 0, 0)
+      ).to.be.revertedWith("Only vault can call");
+
+      await expect(
+        coreStrategy
+          .connect(vault)
+          .setCompoundConfig(true, wcore.target, ethers.parseEther("1"), 50)
+      )
+        .to.emit(coreStrategy, "CompoundConfigUpdated")
+        .withArgs(true, wcore.target, ethers.parseEther("1"), 50);
+      expect(await coreStrategy.compoundMode()).to.be.true;
+      expect(await coreStrategy.keeperTip()).to.equal(50);
     });
   });
 
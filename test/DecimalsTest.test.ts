@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { Vault, MockUSDC } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("🔢 DECIMALS AND PRECISION TESTS", function () {
   let vault: Vault;
@@ -22,7 +23,9 @@ describe("🔢 DECIMALS AND PRECISION TESTS", function () {
     underlyingToken = await MockUSDCFactory.deploy();
 
     // Deploy vault
-    const VaultFactory = await ethers.getContractFactory("Vault");
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
     vault = await VaultFactory.deploy(
       await underlyingToken.getAddress(),
       "USDC Vault",
@@ -31,7 +34,8 @@ describe("🔢 DECIMALS AND PRECISION TESTS", function () {
       agent.address,
       0, // 0% withdrawal fee for cleaner tests
       0, // 0% yield rate for cleaner tests
-      treasury.address
+      treasury.address,
+      0
     );
 
     // Setup user with tokens
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { Vault, MockUSDC } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("🎯 DECIMALS WITH YIELD TESTS", function () {
   let vault: Vault;
@@ -23,7 +24,9 @@ describe("🎯 DECIMALS WITH YIELD TESTS", function () {
     underlyingToken = await MockUSDCFactory.deploy();
 
     // Deploy vault with 5% yield rate
-    const VaultFactory = await ethers.getContractFactory("Vault");
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
     vault = await VaultFactory.deploy(
       await underlyingToken.getAddress(),
       "USDC Vault",
@@ -32,7 +35,8 @@ describe("🎯 DECIMALS WITH YIELD TESTS", function () {
       agent.address,
       0, // 0% withdrawal fee for cleaner tests
       500, // 5% annual yield rate
-      treasury.address
+      treasury.address,
+      0
     );
 
     // Setup users with tokens
@@ -0,0 +1,355 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  NativeGateway,
+  Vault,
+  MockWCORE,
+  CoreStrategy,
+  MockStakeHub,
+  MockCoreAgent,
+} from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
+
+describe("NativeGateway", function () {
+  let gateway: NativeGateway;
+  let vault: Vault;
+  let wcore: MockWCORE;
+  let owner: SignerWithAddress;
+  let manager: SignerWithAddress;
+  let agent: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+
+  const DEPOSIT_AMOUNT = ethers.parseEther("100");
+
+  beforeEach(async function () {
+    [owner, manager, agent, alice, bob] = await ethers.getSigners();
+
+    const MockWCOREFactory = await ethers.getContractFactory("MockWCORE");
+    wcore = await MockWCOREFactory.deploy();
+
+    // A native CORE vault is a regular Vault over WCORE
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
+    vault = await VaultFactory.deploy(
+      await wcore.getAddress(),
+      "Native Vault",
+      "vCORE",
+      manager.address,
+      agent.address,
+      0, // no withdrawal fee
+      0, // no fixed yield
+      owner.address, // treasury address
+      0 // decimals offset
+    );
+
+    const NativeGatewayFactory = await ethers.getContractFactory(
+      "NativeGateway"
+    );
+    gateway = await NativeGatewayFactory.deploy(await wcore.getAddress());
+  });
+
+  describe("Deployment", function () {
+    it("Should set the WCORE token", async function () {
+      expect(await gateway.wcore()).to.equal(await wcore.getAddress());
+    });
+
+    it("Should revert with zero WCORE address", async function () {
+      const NativeGatewayFactory = await ethers.getContractFactory(
+        "NativeGateway"
+      );
+      await expect(
+        NativeGatewayFactory.deploy(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(gateway, "InvalidAddress");
+    });
+  });
+
+  describe("Native Deposits", function () {
+    it("Should wrap CORE and mint shares to the receiver", async function () {
+      await expect(
+        gateway
+          .connect(alice)
+          .depositNative(await vault.getAddress(), bob.address, {
+            value: DEPOSIT_AMOUNT,
+          })
+      )
+        .to.emit(gateway, "NativeDeposited")
+        .withArgs(
+          await vault.getAddress(),
+          alice.address,
+          bob.address,
+          DEPOSIT_AMOUNT,
+          DEPOSIT_AMOUNT
+        );
+
+      expect(await vault.balanceOf(bob.address)).to.equal(DEPOSIT_AMOUNT);
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+      expect(await wcore.balanceOf(await vault.getAddress())).to.equal(
+        DEPOSIT_AMOUNT
+      );
+      expect(
+        await ethers.provider.getBalance(await gateway.getAddress())
+      ).to.equal(0);
+    });
+
+    it("Should revert without value", async function () {
+      await expect(
+        gateway
+          .connect(alice)
+          .depositNative(await vault.getAddress(), alice.address)
+      ).to.be.revertedWithCustomError(gateway, "InvalidAmount");
+    });
+
+    it("Should reject vaults not denominated in WCORE", async function () {
+      const MockUSDCFactory = await ethers.getContractFactory("MockUSDC");
+      const usdc = await MockUSDCFactory.deploy();
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
+      const usdcVault = await VaultFactory.deploy(
+        await usdc.getAddress(),
+        "USDC Vault",
+        "vUSDC",
+        manager.address,
+        agent.address,
+        0,
+        0,
+        owner.address,
+        0
+      );
+
+      await expect(
+        gateway
+          .connect(alice)
+          .depositNative(await usdcVault.getAddress(), alice.address, {
+            value: DEPOSIT_AMOUNT,
+          })
+      )
+        .to.be.revertedWithCustomError(gateway, "AssetNotWCORE")
+        .withArgs(await usdcVault.getAddress());
+    });
+
+    it("Should only accept CORE from WCORE", async function () {
+      await expect(
+        alice.sendTransaction({
+          to: await gateway.getAddress(),
+          value: DEPOSIT_AMOUNT,
+        })
+      )
+        .to.be.revertedWithCustomError(gateway, "UnexpectedNativeSender")
+        .withArgs(alice.address);
+    });
+  });
+
+  describe("Native Exits", function () {
+    beforeEach(async function () {
+      await gateway
+        .connect(alice)
+        .depositNative(await vault.getAddress(), alice.address, {
+          value: DEPOSIT_AMOUNT,
+        });
+      await vault
+        .connect(alice)
+        .approve(await gateway.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should redeem shares and pay out CORE", async function () {
+      const shares = DEPOSIT_AMOUNT / 2n;
+
+      const tx = gateway
+        .connect(alice)
+        .redeemNative(await vault.getAddress(), shares, bob.address);
+
+      await expect(tx)
+        .to.emit(gateway, "NativeWithdrawn")
+        .withArgs(
+          await vault.getAddress(),
+          alice.address,
+          bob.address,
+          shares,
+          shares
+        );
+      await expect(tx).to.changeEtherBalance(bob, shares);
+
+      expect(await vault.balanceOf(alice.address)).to.equal(
+        DEPOSIT_AMOUNT - shares
+      );
+    });
+
+    it("Should withdraw assets and pay out CORE", async function () {
+      await expect(
+        gateway
+          .connect(alice)
+          .withdrawNative(
+            await vault.getAddress(),
+            DEPOSIT_AMOUNT,
+            alice.address
+          )
+      ).to.changeEtherBalance(alice, DEPOSIT_AMOUNT);
+
+      expect(await vault.balanceOf(alice.address)).to.equal(0);
+      expect(await wcore.balanceOf(await gateway.getAddress())).to.equal(0);
+    });
+
+    it("Should require a share allowance for the gateway", async function () {
+      await vault.connect(alice).approve(await gateway.getAddress(), 0);
+
+      await expect(
+        gateway
+          .connect(alice)
+          .redeemNative(await vault.getAddress(), DEPOSIT_AMOUNT, alice.address)
+      ).to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+    });
+
+    it("Should not let a caller spend another holder's shares", async function () {
+      await expect(
+        gateway
+          .connect(bob)
+          .redeemNative(await vault.getAddress(), DEPOSIT_AMOUNT, bob.address)
+      ).to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxRedeem");
+    });
+
+    it("Should revert with zero receiver", async function () {
+      await expect(
+        gateway
+          .connect(alice)
+          .redeemNative(
+            await vault.getAddress(),
+            DEPOSIT_AMOUNT,
+            ethers.ZeroAddress
+          )
+      ).to.be.revertedWithCustomError(gateway, "InvalidAddress");
+    });
+  });
+
+  describe("Native Strategy Rewards", function () {
+    let coreStrategy: CoreStrategy;
+    let mockStakeHub: MockStakeHub;
+    let mockCoreAgent: MockCoreAgent;
+
+    const REWARDS = [ethers.parseEther("3"), ethers.parseEther("2")];
+    const TOTAL_REWARDS = ethers.parseEther("5");
+
+    beforeEach(async function () {
+      const MockStakeHubFactory = await ethers.getContractFactory(
+        "MockStakeHub"
+      );
+      mockStakeHub = await MockStakeHubFactory.deploy();
+
+      const MockCoreAgentFactory = await ethers.getContractFactory(
+        "MockCoreAgent"
+      );
+      mockCoreAgent = await MockCoreAgentFactory.deploy(
+        await wcore.getAddress()
+      );
+
+      const CoreStrategyFactory = await ethers.getContractFactory(
+        "CoreStrategy"
+      );
+      coreStrategy = await CoreStrategyFactory.deploy(
+        await wcore.getAddress(),
+        await mockStakeHub.getAddress(),
+        await mockCoreAgent.getAddress(),
+        owner.address // validator
+      );
+      await coreStrategy.setVault(await vault.getAddress());
+      await vault
+        .connect(manager)
+        .addStrategy(await coreStrategy.getAddress());
+      await vault.connect(manager).setWrappedNative(await wcore.getAddress());
+
+      await gateway
+        .connect(alice)
+        .depositNative(await vault.getAddress(), alice.address, {
+          value: DEPOSIT_AMOUNT,
+        });
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await coreStrategy.getAddress(),
+          DEPOSIT_AMOUNT,
+          "0x"
+        );
+
+      await mockStakeHub.setPendingRewards(
+        await coreStrategy.getAddress(),
+        REWARDS
+      );
+      await mockStakeHub.fundRewards({ value: TOTAL_REWARDS });
+    });
+
+    it("Should wrap harvested CORE and book it as strategy gain", async function () {
+      await vault
+        .connect(agent)
+        .harvestStrategy(await coreStrategy.getAddress(), "0x");
+
+      const params = await vault.getStrategyParams(
+        await coreStrategy.getAddress()
+      );
+      expect(params.totalGain).to.equal(TOTAL_REWARDS);
+      expect(params.lastReport).to.equal(
+        (await ethers.provider.getBlock("latest"))!.timestamp
+      );
+      expect(await wcore.balanceOf(await vault.getAddress())).to.equal(
+        TOTAL_REWARDS
+      );
+      expect(await vault.totalAssets()).to.equal(
+        DEPOSIT_AMOUNT + TOTAL_REWARDS
+      );
+    });
+
+    it("Should pay harvested rewards out to shareholders in CORE", async function () {
+      await vault
+        .connect(agent)
+        .harvestStrategy(await coreStrategy.getAddress(), "0x");
+      await vault
+        .connect(alice)
+        .approve(await gateway.getAddress(), ethers.MaxUint256);
+
+      await expect(
+        gateway
+          .connect(alice)
+          .withdrawNative(
+            await vault.getAddress(),
+            TOTAL_REWARDS,
+            alice.address
+          )
+      ).to.changeEtherBalance(alice, TOTAL_REWARDS);
+    });
+
+    it("Should reject CORE rewards unless the asset is the configured wrapper", async function () {
+      await expect(
+        vault.connect(manager).setWrappedNative(ethers.ZeroAddress)
+      )
+        .to.emit(vault, "WrappedNativeUpdated")
+        .withArgs(ethers.ZeroAddress);
+      await expect(
+        vault
+          .connect(agent)
+          .harvestStrategy(await coreStrategy.getAddress(), "0x")
+      ).to.be.revertedWith("Failed to transfer rewards");
+
+      await vault.connect(manager).setWrappedNative(alice.address);
+      await expect(
+        vault
+          .connect(agent)
+          .harvestStrategy(await coreStrategy.getAddress(), "0x")
+      ).to.be.revertedWith("Failed to transfer rewards");
+
+      await expect(
+        vault.connect(alice).setWrappedNative(await wcore.getAddress())
+      ).to.be.revertedWith("Vault: caller is not a manager");
+    });
+
+    it("Should reject CORE sent to the vault by non-strategies", async function () {
+      await expect(
+        alice.sendTransaction({
+          to: await vault.getAddress(),
+          value: TOTAL_REWARDS,
+        })
+      ).to.be.revertedWithCustomError(vault, "StrategyDoesNotExist");
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  RedeemQueue,
+  Vault,
+  MockERC20,
+  CoreStrategy,
+  MockStakeHub,
+  MockCoreAgent,
+} from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
+
+describe("RedeemQueue", function () {
+  let queue: RedeemQueue;
+  let vault: Vault;
+  let coreToken: MockERC20;
+  let coreStrategy: CoreStrategy;
+  let mockStakeHub: MockStakeHub;
+  let mockCoreAgent: MockCoreAgent;
+  let owner: SignerWithAddress;
+  let manager: SignerWithAddress;
+  let agent: SignerWithAddress;
+  let validator: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+
+  const DEPOSIT_AMOUNT = ethers.parseEther("1000");
+  const REDEEM_SHARES = ethers.parseEther("400");
+  const UNBONDING_PERIOD = 7 * 24 * 60 * 60; // 7 days
+
+  beforeEach(async function () {
+    [owner, manager, agent, validator, alice, bob] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    coreToken = await MockERC20Factory.deploy("Core Token", "CORE", 18);
+    await coreToken.mint(alice.address, DEPOSIT_AMOUNT);
+
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
+    vault = await VaultFactory.deploy(
+      await coreToken.getAddress(),
+      "Core Vault",
+      "vCORE",
+      manager.address,
+      agent.address,
+      0, // no withdrawal fee
+      0, // no fixed yield
+      owner.address, // treasury address
+      0 // decimals offset
+    );
+
+    const MockStakeHubFactory = await ethers.getContractFactory("MockStakeHub");
+    mockStakeHub = await MockStakeHubFactory.deploy();
+    const MockCoreAgentFactory = await ethers.getContractFactory(
+      "MockCoreAgent"
+    );
+    mockCoreAgent = await MockCoreAgentFactory.deploy(
+      await coreToken.getAddress()
+    );
+    await mockCoreAgent.setUnbondingPeriod(UNBONDING_PERIOD);
+
+    const CoreStrategyFactory = await ethers.getContractFactory("CoreStrategy");
+    coreStrategy = await CoreStrategyFactory.deploy(
+      await coreToken.getAddress(),
+      await mockStakeHub.getAddress(),
+      await mockCoreAgent.getAddress(),
+      validator.address
+    );
+    await coreStrategy.setVault(await vault.getAddress());
+
+    const RedeemQueueFactory = await ethers.getContractFactory("RedeemQueue");
+    queue = await RedeemQueueFactory.deploy(
+      await vault.getAddress(),
+      await coreStrategy.getAddress()
+    );
+
+    // Wire the queue into the vault
+    await vault.connect(manager).addStrategy(await coreStrategy.getAddress());
+    await vault
+      .connect(manager)
+      .setStrategySelectors(
+        await coreStrategy.getAddress(),
+        [coreStrategy.interface.getFunction("startUnbonding").selector],
+        true
+      );
+    await vault.grantRole(await vault.AGENT_ROLE(), await queue.getAddress());
+
+    // Alice deposits and everything is staked
+    await coreToken
+      .connect(alice)
+      .approve(await vault.getAddress(), DEPOSIT_AMOUNT);
+    await vault.connect(alice).deposit(DEPOSIT_AMOUNT, alice.address);
+    await vault
+      .connect(agent)
+      .depositToStrategy(await coreStrategy.getAddress(), DEPOSIT_AMOUNT, "0x");
+
+    await vault
+      .connect(alice)
+      .approve(await queue.getAddress(), ethers.MaxUint256);
+  });
+
+  describe("Deployment", function () {
+    it("Should set the vault and strategy", async function () {
+      expect(await queue.vault()).to.equal(await vault.getAddress());
+      expect(await queue.strategy()).to.equal(await coreStrategy.getAddress());
+    });
+
+    it("Should revert with zero addresses", async function () {
+      const RedeemQueueFactory = await ethers.getContractFactory("RedeemQueue");
+      await expect(
+        RedeemQueueFactory.deploy(
+          ethers.ZeroAddress,
+          await coreStrategy.getAddress()
+        )
+      ).to.be.revertedWithCustomError(queue, "InvalidAddress");
+    });
+  });
+
+  describe("Requesting", function () {
+    it("Should lock shares and start unbonding their value", async function () {
+      await expect(queue.connect(alice).requestRedeem(REDEEM_SHARES, bob.address))
+        .to.emit(queue, "RedeemRequest")
+        .withArgs(bob.address, alice.address, 0, alice.address, REDEEM_SHARES)
+        .and.to.emit(coreStrategy, "UnbondingStarted")
+        .withArgs(REDEEM_SHARES);
+
+      expect(await vault.balanceOf(await queue.getAddress())).to.equal(
+        REDEEM_SHARES
+      );
+      expect(await queue.totalPendingShares()).to.equal(REDEEM_SHARES);
+      expect(await queue.getRequestIds(bob.address)).to.deep.equal([0n]);
+      expect((await queue.requests(0)).unbonding).to.equal(REDEEM_SHARES);
+      expect(await queue.pendingRedeemRequest(0, bob.address)).to.equal(
+        REDEEM_SHARES
+      );
+      expect(await queue.claimableRedeemRequest(0, bob.address)).to.equal(0);
+
+      // Unbonding stake still counts towards the strategy balance
+      expect(await coreStrategy.totalStaked()).to.equal(
+        DEPOSIT_AMOUNT - REDEEM_SHARES
+      );
+      expect(await coreStrategy.totalUnbonding()).to.equal(REDEEM_SHARES);
+      expect(await coreStrategy.getBalance()).to.equal(DEPOSIT_AMOUNT);
+      await vault.connect(agent).report(await coreStrategy.getAddress());
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("Should revert on zero shares or controller", async function () {
+      await expect(
+        queue.connect(alice).requestRedeem(0, alice.address)
+      ).to.be.revertedWithCustomError(queue, "InvalidAmount");
+      await expect(
+        queue.connect(alice).requestRedeem(REDEEM_SHARES, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(queue, "InvalidAddress");
+    });
+
+    it("Should need the unbonding selector approved on the vault", async function () {
+      await vault
+        .connect(manager)
+        .setStrategySelectors(
+          await coreStrategy.getAddress(),
+          [coreStrategy.interface.getFunction("startUnbonding").selector],
+          false
+        );
+
+      await expect(
+        queue.connect(alice).requestRedeem(REDEEM_SHARES, alice.address)
+      ).to.be.revertedWithCustomError(vault, "SelectorNotAllowed");
+    });
+  });
+
+  describe("Claiming", function () {
+    beforeEach(async function () {
+      await queue.connect(alice).requestRedeem(REDEEM_SHARES, alice.address);
+    });
+
+    it("Should not pay out before the unbonding period ends", async function () {
+      const request = await queue.requests(0);
+
+      await expect(queue.connect(alice).claimRedeem(0, alice.address))
+        .to.be.revertedWithCustomError(queue, "RequestNotClaimable")
+        .withArgs(0, request.claimableAt);
+    });
+
+    it("Should pay out once unbonded", async function () {
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await queue.claimableRedeemRequest(0, alice.address)).to.equal(
+        REDEEM_SHARES
+      );
+      expect(await queue.pendingRedeemRequest(0, alice.address)).to.equal(0);
+
+      await expect(queue.connect(alice).claimRedeem(0, bob.address))
+        .to.emit(queue, "RedeemClaimed")
+        .withArgs(alice.address, bob.address, 0, REDEEM_SHARES, REDEEM_SHARES);
+
+      expect(await coreToken.balanceOf(bob.address)).to.equal(REDEEM_SHARES);
+      expect(await vault.totalSupply()).to.equal(
+        DEPOSIT_AMOUNT - REDEEM_SHARES
+      );
+      expect(await vault.totalAssets()).to.equal(
+        DEPOSIT_AMOUNT - REDEEM_SHARES
+      );
+      expect(await queue.totalPendingShares()).to.equal(0);
+      expect(await coreStrategy.totalUnbonding()).to.equal(0);
+
+      // No loss was booked against the strategy
+      const params = await vault.getStrategyParams(
+        await coreStrategy.getAddress()
+      );
+      expect(params.totalLoss).to.equal(0);
+      expect(params.currentDebt).to.equal(DEPOSIT_AMOUNT - REDEEM_SHARES);
+    });
+
+    it("Should only let the controller claim, once", async function () {
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(queue.connect(bob).claimRedeem(0, bob.address))
+        .to.be.revertedWithCustomError(queue, "NotController")
+        .withArgs(0);
+
+      await queue.connect(alice).claimRedeem(0, alice.address);
+      await expect(queue.connect(alice).claimRedeem(0, alice.address))
+        .to.be.revertedWithCustomError(queue, "AlreadyClaimed")
+        .withArgs(0);
+    });
+
+    it("Should track several requests per controller", async function () {
+      await queue.connect(alice).requestRedeem(REDEEM_SHARES, alice.address);
+
+      expect(await queue.getRequestIds(alice.address)).to.deep.equal([0n, 1n]);
+      expect(await queue.totalPendingShares()).to.equal(REDEEM_SHARES * 2n);
+      expect(await coreStrategy.totalUnbonding()).to.equal(REDEEM_SHARES * 2n);
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      await queue.connect(alice).claimRedeem(1, alice.address);
+      await queue.connect(alice).claimRedeem(0, alice.address);
+      expect(await coreToken.balanceOf(alice.address)).to.equal(
+        REDEEM_SHARES * 2n
+      );
+    });
+  });
+
+  describe("Per-request Unbonding", function () {
+    const BOB_SHARES = ethers.parseEther("200");
+    const STILL_STAKED = ethers.parseEther("300");
+
+    beforeEach(async function () {
+      // Bring most of the stake back so the strategy cannot cover every request
+      const strategyAddress = await coreStrategy.getAddress();
+      const returned = DEPOSIT_AMOUNT - STILL_STAKED;
+      await vault
+        .connect(agent)
+        .withdrawFromStrategy(strategyAddress, returned, "0x");
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      await vault
+        .connect(agent)
+        .withdrawFromStrategy(strategyAddress, returned, "0x");
+    });
+
+    it("Should only withdraw the stake unbonded for the request being claimed", async function () {
+      // Bob's request unbonds its full value, Alice's only what is still staked
+      await queue.connect(alice).requestRedeem(BOB_SHARES, bob.address);
+      await queue.connect(alice).requestRedeem(REDEEM_SHARES, alice.address);
+      expect((await queue.requests(0)).unbonding).to.equal(BOB_SHARES);
+      expect((await queue.requests(1)).unbonding).to.equal(
+        STILL_STAKED - BOB_SHARES
+      );
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      // Alice is paid partly from idle assets and leaves Bob's stake unbonded
+      await queue.connect(alice).claimRedeem(1, alice.address);
+      expect(await coreToken.balanceOf(alice.address)).to.equal(REDEEM_SHARES);
+      expect(await coreStrategy.totalUnbonding()).to.equal(BOB_SHARES);
+
+      await queue.connect(bob).claimRedeem(0, bob.address);
+      expect(await coreToken.balanceOf(bob.address)).to.equal(BOB_SHARES);
+      expect(await coreStrategy.totalUnbonding()).to.equal(0);
+    });
+  });
+
+  describe("Withdrawal Queue", function () {
+    beforeEach(async function () {
+      const strategyAddress = await coreStrategy.getAddress();
+      await vault
+        .connect(manager)
+        .setStrategySelectors(
+          strategyAddress,
+          [coreStrategy.interface.getFunction("setRedeemQueue").selector],
+          true
+        );
+      await vault
+        .connect(agent)
+        .executeStrategy(
+          strategyAddress,
+          coreStrategy.interface.encodeFunctionData("setRedeemQueue", [
+            await queue.getAddress(),
+          ])
+        );
+      await vault.connect(manager).setWithdrawalQueue([strategyAddress]);
+
+      await vault.connect(alice).transfer(bob.address, REDEEM_SHARES);
+    });
+
+    it("Should hold unbonded stake back for the request it was unbonded for", async function () {
+      await queue.connect(alice).requestRedeem(REDEEM_SHARES, alice.address);
+      expect(await queue.reservedUnbonding()).to.equal(REDEEM_SHARES);
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await coreStrategy.claimableUnbonded()).to.equal(REDEEM_SHARES);
+      expect(await coreStrategy.availableLiquidity()).to.equal(0);
+
+      // An ordinary redemption cannot pull the reserved stake
+      await expect(
+        vault.connect(bob).redeem(REDEEM_SHARES, bob.address, bob.address)
+      ).to.be.revertedWithCustomError(coreToken, "ERC20InsufficientBalance");
+      expect(await coreStrategy.claimableUnbonded()).to.equal(REDEEM_SHARES);
+
+      await queue.connect(alice).claimRedeem(0, alice.address);
+      expect(await coreToken.balanceOf(alice.address)).to.equal(REDEEM_SHARES);
+      expect(await queue.reservedUnbonding()).to.equal(0);
+    });
+  });
+
+  describe("Unbonding Debt", function () {
+    it("Should keep stake still unbonding on the strategy's debt when withdrawing", async function () {
+      const strategyAddress = await coreStrategy.getAddress();
+
+      await expect(
+        vault
+          .connect(agent)
+          .withdrawFromStrategy(strategyAddress, REDEEM_SHARES, "0x")
+      )
+        .to.emit(vault, "StrategyWithdrawn")
+        .withArgs(strategyAddress, REDEEM_SHARES, 0);
+
+      let params = await vault.getStrategyParams(strategyAddress);
+      expect(params.currentDebt).to.equal(DEPOSIT_AMOUNT);
+      expect(params.totalLoss).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      await vault
+        .connect(agent)
+        .withdrawFromStrategy(strategyAddress, REDEEM_SHARES, "0x");
+
+      params = await vault.getStrategyParams(strategyAddress);
+      expect(params.currentDebt).to.equal(DEPOSIT_AMOUNT - REDEEM_SHARES);
+      expect(params.totalLoss).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("Should keep stake still unbonding on the strategy's debt after an emergency exit", async function () {
+      const strategyAddress = await coreStrategy.getAddress();
+
+      await vault.connect(agent).emergencyExitStrategy(strategyAddress, "0x");
+
+      let params = await vault.getStrategyParams(strategyAddress);
+      expect(params.currentDebt).to.equal(DEPOSIT_AMOUNT);
+      expect(params.totalLoss).to.equal(0);
+      expect(await vault.totalAssets()).to.equal(DEPOSIT_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [UNBONDING_PERIOD]);
+      await ethers.provider.send("evm_mine", []);
+
+      await vault
+        .connect(agent)
+        .withdrawFromStrategy(strategyAddress, DEPOSIT_AMOUNT, "0x");
+
+      params = await vault.getStrategyParams(strategyAddress);
+      expect(params.currentDebt).to.equal(0);
+      expect(params.totalLoss).to.equal(0);
+      expect(await coreToken.balanceOf(await vault.getAddress())).to.equal(
+        DEPOSIT_AMOUNT
+      );
+    });
+  });
+});
@@ -210,6 +210,53 @@ describe("Strategies", function () {
     });
   });
 
+  describe("Withdraw", function () {
+    const depositAmount = ethers.parseEther("100");
+
+    beforeEach(async function () {
+      await strategies.setVault(vault.address);
+
+      await underlyingToken
+        .connect(vault)
+        .approve(await strategies.getAddress(), depositAmount);
+      await strategies.connect(vault).execute(depositAmount, "0x");
+    });
+
+    it("Should withdraw part of the position to the vault", async function () {
+      const withdrawAmount = ethers.parseEther("40");
+      const vaultBalanceBefore = await underlyingToken.balanceOf(vault.address);
+
+      await expect(strategies.connect(vault).withdraw(withdrawAmount, "0x"))
+        .to.emit(strategies, "Withdraw")
+        .withArgs(withdrawAmount);
+
+      expect(await underlyingToken.balanceOf(vault.address)).to.equal(
+        vaultBalanceBefore + withdrawAmount
+      );
+      expect(await strategies.getBalance()).to.equal(
+        depositAmount - withdrawAmount
+      );
+    });
+
+    it("Should revert on zero amount", async function () {
+      await expect(
+        strategies.connect(vault).withdraw(0, "0x")
+      ).to.be.revertedWithCustomError(strategies, "InvalidAmount");
+    });
+
+    it("Should revert if the protocol withdraw fails", async function () {
+      await expect(
+        strategies.connect(vault).withdraw(depositAmount + 1n, "0x")
+      ).to.be.revertedWithCustomError(strategies, "WithdrawFailed");
+    });
+
+    it("Should revert if not called by vault", async function () {
+      await expect(
+        strategies.connect(alice).withdraw(1, "0x")
+      ).to.be.revertedWith("Only agent can call");
+    });
+  });
+
   describe("Harvest", function () {
     beforeEach(async function () {
       await strategies.setVault(vault.address);
@@ -251,6 +298,12 @@ describe("Strategies", function () {
         "Only agent can call"
       );
     });
+
+    it("Should revert harvestAndSwap without a minimum output per reward token", async function () {
+      await expect(
+        strategies.connect(vault).harvestAndSwap("0x", [0])
+      ).to.be.revertedWithCustomError(strategies, "LengthMismatch");
+    });
   });
 
   describe("Reward Token Management", function () {
@@ -499,8 +552,9 @@ describe("Strategies", function () {
         .approve(await strategies.getAddress(), depositAmount);
       await strategies.connect(vault).execute(depositAmount, "0x");
 
-      // Create invalid claim data that will fail
-      const invalidData = "0x1234567890";
+      // Create invalid claim data that will fail: a truncated withdraw call
+      // (custom selectors need vault approval, so reuse a default one)
+      const invalidData = ethers.id("withdraw(uint256)").slice(0, 10) + "90";
 
       // Harvest should not revert even if claim fails
       await expect(strategies.connect(vault).harvest(invalidData)).to.emit(
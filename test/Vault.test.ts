@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { Vault, MockUSDC, Strategies } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("Vault", function () {
   let vault: Vault;
@@ -24,7 +26,9 @@ describe("Vault", function () {
     underlyingToken = await MockUSDCFactory.deploy();
 
     // Deploy vault with 1% withdrawal fee (100 basis points) and 5% yield rate (500 basis points, max 50%)
-    const VaultFactory = await ethers.getContractFactory("Vault");
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
     vault = await VaultFactory.deploy(
       await underlyingToken.getAddress(),
       "Vault Token",
@@ -33,7 +37,8 @@ describe("Vault", function () {
       agent.address,
       100, // 1% withdrawal fee
       500, // 5% annual yield rate
-      owner.address // treasury address
+      owner.address, // treasury address
+      0 // decimals offset
     );
 
     // Setup test accounts with tokens
@@ -145,6 +150,9 @@ describe("Vault", function () {
 
       it("Should execute strategy successfully", async function () {
         const data = "0x12345678";
+        await vault
+          .connect(manager)
+          .setStrategySelectors(mockStrategy.address, [data], true);
 
         await expect(
           vault.connect(agent).executeStrategy(mockStrategy.address, data)
@@ -153,6 +161,44 @@ describe("Vault", function () {
           .withArgs(mockStrategy.address, data);
       });
 
+      it("Should reject selectors that are not approved", async function () {
+        const data = "0x12345678";
+
+        await expect(
+          vault.connect(agent).executeStrategy(mockStrategy.address, data)
+        )
+          .to.be.revertedWithCustomError(vault, "SelectorNotAllowed")
+          .withArgs(mockStrategy.address, data);
+
+        await vault
+          .connect(manager)
+          .setStrategySelectors(mockStrategy.address, [data], true);
+        await expect(
+          vault
+            .connect(manager)
+            .setStrategySelectors(mockStrategy.address, [data], false)
+        )
+          .to.emit(vault, "StrategySelectorUpdated")
+          .withArgs(mockStrategy.address, data, false);
+
+        await expect(
+          vault.connect(agent).executeStrategy(mockStrategy.address, data)
+        ).to.be.revertedWithCustomError(vault, "SelectorNotAllowed");
+      });
+
+      it("Should only let the manager approve selectors for known strategies", async function () {
+        await expect(
+          vault
+            .connect(agent)
+            .setStrategySelectors(mockStrategy.address, ["0x12345678"], true)
+        ).to.be.revertedWith("Vault: caller is not a manager");
+        await expect(
+          vault
+            .connect(manager)
+            .setStrategySelectors(bob.address, ["0x12345678"], true)
+        ).to.be.revertedWithCustomError(vault, "StrategyDoesNotExist");
+      });
+
       it("Should revert if not agent", async function () {
         await expect(
           vault.connect(alice).executeStrategy(mockStrategy.address, "0x")
@@ -226,8 +272,7 @@ describe("Vault", function () {
 
       it("Should withdraw assets successfully with fee", async function () {
         const withdrawAmount = ethers.parseUnits("500", 6); // 500 USDC
-        const expectedFee = ethers.parseUnits("5", 6); // 1% of 500 USDC = 5 USDC
-        const expectedNetAmount = withdrawAmount - expectedFee;
+        const expectedFee = ethers.parseUnits("5.050506", 6); // 1% of the 505.050506 USDC gross
 
         const sharesBefore = await vault.balanceOf(alice.address);
         const balanceBefore = await underlyingToken.balanceOf(alice.address);
@@ -244,8 +289,8 @@ describe("Vault", function () {
         const balanceAfter = await underlyingToken.balanceOf(alice.address);
 
         expect(sharesBefore - sharesAfter).to.be.gt(0);
-        // User should receive net amount (withdrawal - fee)
-        expect(balanceAfter - balanceBefore).to.equal(expectedNetAmount);
+        // User should receive exactly the requested amount
+        expect(balanceAfter - balanceBefore).to.equal(withdrawAmount);
       });
     });
 
@@ -373,6 +418,228 @@ describe("Vault", function () {
       ).to.be.revertedWith("Vault: caller is not an agent");
     });
 
+    it("Should only forward approved protocol selectors from strategies", async function () {
+      const strategyAddress = await strategies.getAddress();
+      const data = mockProtocol.interface.encodeFunctionData("getBalance", [
+        strategyAddress,
+      ]);
+      const selector = data.slice(0, 10);
+
+      await expect(vault.connect(agent).harvestStrategy(strategyAddress, data))
+        .to.be.revertedWithCustomError(strategies, "SelectorNotAllowed")
+        .withArgs(selector);
+
+      await vault
+        .connect(manager)
+        .setStrategySelectors(strategyAddress, [selector], true);
+      await expect(
+        vault.connect(agent).harvestStrategy(strategyAddress, data)
+      ).to.emit(strategies, "Harvested");
+    });
+
+    it("Should always forward the strategy's own default selectors", async function () {
+      const depositAmount = ethers.parseUnits("100", 6);
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), depositAmount);
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      const data = mockProtocol.interface.encodeFunctionData("deposit", [
+        depositAmount,
+      ]);
+      await vault
+        .connect(agent)
+        .depositToStrategy(await strategies.getAddress(), depositAmount, data);
+
+      expect(await strategies.getBalance()).to.equal(depositAmount);
+    });
+
+    describe("Pause and Shutdown", function () {
+      const depositAmount = ethers.parseUnits("1000", 6);
+      let strategyAddress: string;
+
+      beforeEach(async function () {
+        strategyAddress = await strategies.getAddress();
+        await underlyingToken
+          .connect(alice)
+          .approve(await vault.getAddress(), INITIAL_BALANCE);
+        await vault.connect(alice).deposit(depositAmount, alice.address);
+        await vault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, depositAmount / 2n, "0x");
+      });
+
+      it("Should block strategy deployment but allow exits while paused", async function () {
+        await vault.connect(owner).pause();
+
+        await expect(
+          vault.connect(agent).depositToStrategy(strategyAddress, 1n, "0x")
+        ).to.be.revertedWithCustomError(vault, "EnforcedPause");
+        await expect(
+          vault.connect(agent).executeStrategy(strategyAddress, "0x")
+        ).to.be.revertedWithCustomError(vault, "EnforcedPause");
+
+        await vault.connect(agent).harvestStrategy(strategyAddress, "0x");
+        await vault.connect(agent).emergencyExitStrategy(strategyAddress, "0x");
+        expect(await vault.totalDebt()).to.equal(0);
+      });
+
+      it("Should freeze the share price while paused", async function () {
+        await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+
+        await vault.connect(owner).pause();
+        const pausedAssets = await vault.totalAssets();
+        expect(pausedAssets).to.be.gt(depositAmount);
+
+        await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+        expect(await vault.totalAssets()).to.equal(pausedAssets);
+
+        const shares = (await vault.balanceOf(alice.address)) / 4n;
+        const expectedAssets = await vault.previewRedeem(shares);
+        const balanceBefore = await underlyingToken.balanceOf(alice.address);
+        await vault.connect(alice).redeem(shares, alice.address, alice.address);
+        expect(
+          (await underlyingToken.balanceOf(alice.address)) - balanceBefore
+        ).to.equal(expectedAssets);
+
+        // The paused period earns nothing after unpausing either
+        const assetsBeforeUnpause = await vault.totalAssets();
+        await vault.connect(owner).unpause();
+        expect(await vault.totalAssets()).to.equal(assetsBeforeUnpause);
+      });
+
+      it("Should permanently stop deposits after shutdown", async function () {
+        await expect(vault.connect(manager).shutdownVault()).to.be.revertedWith(
+          "Vault: not owner"
+        );
+
+        await expect(vault.connect(owner).shutdownVault()).to.emit(
+          vault,
+          "VaultShutdown"
+        );
+        expect(await vault.shutdown()).to.be.true;
+        expect(await vault.maxDeposit(alice.address)).to.equal(0);
+
+        await expect(
+          vault.connect(alice).deposit(depositAmount, alice.address)
+        ).to.be.revertedWithCustomError(vault, "VaultIsShutdown");
+        await expect(
+          vault.connect(alice).mint(depositAmount, alice.address)
+        ).to.be.revertedWithCustomError(vault, "VaultIsShutdown");
+        await expect(
+          vault.connect(agent).depositToStrategy(strategyAddress, 1n, "0x")
+        ).to.be.revertedWithCustomError(vault, "VaultIsShutdown");
+
+        // Exits keep working
+        await vault.connect(agent).emergencyExitStrategy(strategyAddress, "0x");
+        await vault
+          .connect(alice)
+          .redeem(
+            await vault.balanceOf(alice.address),
+            alice.address,
+            alice.address
+          );
+        expect(await vault.balanceOf(alice.address)).to.equal(0);
+      });
+    });
+
+    describe("Guardian", function () {
+      let guardian: SignerWithAddress;
+      let strategyAddress: string;
+
+      beforeEach(async function () {
+        guardian = bob;
+        strategyAddress = await strategies.getAddress();
+        await vault
+          .connect(owner)
+          .grantRole(await vault.GUARDIAN_ROLE(), guardian.address);
+
+        const depositAmount = ethers.parseUnits("1000", 6);
+        await underlyingToken
+          .connect(alice)
+          .approve(await vault.getAddress(), depositAmount);
+        await vault.connect(alice).deposit(depositAmount, alice.address);
+        await vault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, depositAmount / 2n, "0x");
+      });
+
+      it("Should let the guardian pause but not unpause", async function () {
+        expect(await vault.hasGuardianRole(guardian.address)).to.be.true;
+
+        await vault.connect(guardian).pause();
+        expect(await vault.paused()).to.be.true;
+        await expect(vault.connect(guardian).unpause()).to.be.revertedWith(
+          "Vault: caller is not a pauser"
+        );
+      });
+
+      it("Should let the guardian revoke a strategy", async function () {
+        await expect(vault.connect(guardian).revokeStrategy(strategyAddress))
+          .to.emit(vault, "StrategyLimitsUpdated")
+          .withArgs(strategyAddress, 0, 0);
+
+        await expect(
+          vault.connect(agent).depositToStrategy(strategyAddress, 1n, "0x")
+        ).to.be.revertedWithCustomError(vault, "MaxDebtExceeded");
+        await expect(
+          vault.connect(alice).revokeStrategy(strategyAddress)
+        ).to.be.revertedWith("Vault: caller is not a manager");
+      });
+
+      it("Should let the guardian exit a strategy", async function () {
+        await vault
+          .connect(guardian)
+          .emergencyExitStrategy(strategyAddress, "0x");
+
+        expect(await strategies.getBalance()).to.equal(0);
+        expect(await vault.totalDebt()).to.equal(0);
+      });
+
+      it("Should let the guardian lower but not raise deposit caps", async function () {
+        const cap = ethers.parseUnits("5000", 6);
+        await vault.connect(manager).setDepositLimits(cap, cap);
+
+        await expect(
+          vault.connect(guardian).setDepositLimits(cap + 1n, cap)
+        ).to.be.revertedWith("Vault: not owner/manager");
+
+        await vault.connect(guardian).setDepositLimits(cap / 2n, 0);
+        expect(await vault.depositLimit()).to.equal(cap / 2n);
+        expect(await vault.accountDepositLimit()).to.equal(0);
+      });
+
+      it("Should let the guardian cancel queued operations", async function () {
+        await vault.connect(owner).setTimelockDelay(24 * 60 * 60);
+        const data = vault.interface.encodeFunctionData("addStrategy", [
+          alice.address,
+        ]);
+        await vault.connect(manager).queueOperation(data);
+
+        await expect(
+          vault.connect(guardian).cancelOperation(ethers.keccak256(data))
+        )
+          .to.emit(vault, "OperationCancelled")
+          .withArgs(ethers.keccak256(data));
+      });
+
+      it("Should not let the guardian add risk", async function () {
+        await expect(
+          vault.connect(guardian).addStrategy(alice.address)
+        ).to.be.revertedWith("Vault: caller is not a manager");
+        await expect(
+          vault.connect(guardian).depositToStrategy(strategyAddress, 1n, "0x")
+        ).to.be.revertedWith("Vault: caller is not an agent");
+        await expect(
+          vault
+            .connect(guardian)
+            .setStrategyLimits(strategyAddress, ethers.MaxUint256, 10000)
+        ).to.be.revertedWith("Vault: caller is not a manager");
+      });
+    });
+
     it("Should deposit to strategy successfully", async function () {
       const depositAmount = ethers.parseUnits("500", 6); // 500 USDC
 
@@ -416,478 +683,2092 @@ describe("Vault", function () {
           )
       ).to.be.revertedWith("Vault: caller is not an agent");
     });
-  });
 
-  describe("Access Control", function () {
-    it("Should allow owner to grant roles", async function () {
-      const MANAGER_ROLE = await vault.MANAGER_ROLE();
+    describe("Reward Swaps", function () {
+      const depositAmount = ethers.parseUnits("1000", 6);
+      const poolReserve = ethers.parseUnits("10000", 6);
+      // MockProtocol accrues 10% of each deposit as reward tokens
+      const rewardAmount = depositAmount / 10n;
+      let strategyAddress: string;
+      let swapper: any;
+
+      // Output of MockSushiSwap's constant product formula with its 0.3% fee
+      const expectedOut = (amountIn: bigint) => {
+        const amountInAfterFee = amountIn - (amountIn * 30n) / 10000n;
+        return (
+          (poolReserve * amountInAfterFee) / (poolReserve + amountInAfterFee)
+        );
+      };
 
-      await vault.connect(owner).grantRole(MANAGER_ROLE, alice.address);
-      expect(await vault.hasRole(MANAGER_ROLE, alice.address)).to.be.true;
-    });
+      const harvestAndSwap = (minAmountOut: bigint) =>
+        strategies.interface.encodeFunctionData("harvestAndSwap", [
+          "0x",
+          [minAmountOut],
+        ]);
 
-    it("Should allow owner to revoke roles", async function () {
-      const MANAGER_ROLE = await vault.MANAGER_ROLE();
+      beforeEach(async function () {
+        strategyAddress = await strategies.getAddress();
 
-      await vault.connect(owner).revokeRole(MANAGER_ROLE, manager.address);
-      expect(await vault.hasRole(MANAGER_ROLE, manager.address)).to.be.false;
-    });
+        const MockSushiSwapFactory = await ethers.getContractFactory(
+          "MockSushiSwap"
+        );
+        const pool = await MockSushiSwapFactory.deploy(
+          await rewardToken.getAddress(),
+          await underlyingToken.getAddress(),
+          await rewardToken.getAddress()
+        );
+        await rewardToken.approve(await pool.getAddress(), poolReserve);
+        await underlyingToken.approve(await pool.getAddress(), poolReserve);
+        await pool.addLiquidity(poolReserve, poolReserve);
 
-    it("Should not allow non-admin to grant roles", async function () {
-      const MANAGER_ROLE = await vault.MANAGER_ROLE();
+        const MockSushiSwapperFactory = await ethers.getContractFactory(
+          "MockSushiSwapper"
+        );
+        swapper = await MockSushiSwapperFactory.deploy(await pool.getAddress());
 
-      await expect(vault.connect(alice).grantRole(MANAGER_ROLE, bob.address)).to
-        .be.reverted;
-    });
-  });
+        await vault
+          .connect(manager)
+          .setRewardSwapper(
+            await rewardToken.getAddress(),
+            await swapper.getAddress()
+          );
+        await vault
+          .connect(manager)
+          .setStrategySelectors(
+            strategyAddress,
+            [
+              strategies.interface.getFunction("addRewardToken")!.selector,
+              strategies.interface.getFunction("harvestAndSwap")!.selector,
+            ],
+            true
+          );
+        await vault
+          .connect(agent)
+          .executeStrategy(
+            strategyAddress,
+            strategies.interface.encodeFunctionData("addRewardToken", [
+              await rewardToken.getAddress(),
+            ])
+          );
+
+        await underlyingToken
+          .connect(alice)
+          .approve(await vault.getAddress(), depositAmount);
+        await vault.connect(alice).deposit(depositAmount, alice.address);
+        await vault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, depositAmount, "0x");
+      });
 
-  describe("Advanced ERC4626 Functionality", function () {
-    beforeEach(async function () {
-      // Setup multiple users with different amounts
-      await underlyingToken.transfer(
-        alice.address,
-        ethers.parseUnits("5000", 6)
-      ); // 5,000 USDC
-      await underlyingToken.transfer(bob.address, ethers.parseUnits("2500", 6)); // 2,500 USDC
+      it("Should convert harvested rewards and book them as strategy profit", async function () {
+        const amountOut = expectedOut(rewardAmount);
 
-      await underlyingToken
-        .connect(alice)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
-      await underlyingToken
-        .connect(bob)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
-    });
+        await expect(
+          vault
+            .connect(agent)
+            .executeStrategy(strategyAddress, harvestAndSwap(amountOut))
+        )
+          .to.emit(strategies, "RewardsSwapped")
+          .withArgs(await rewardToken.getAddress(), rewardAmount, amountOut);
 
-    it("Should handle large deposits correctly", async function () {
-      const largeAmount = ethers.parseUnits("4999", 6); // 4,999 USDC
+        expect(await strategies.getBalance()).to.equal(
+          depositAmount + amountOut
+        );
+        expect(await rewardToken.balanceOf(await vault.getAddress())).to.equal(
+          0
+        );
 
-      const sharesBefore = await vault.balanceOf(alice.address);
-      await vault.connect(alice).deposit(largeAmount, alice.address);
-      const sharesAfter = await vault.balanceOf(alice.address);
+        await expect(vault.connect(agent).report(strategyAddress))
+          .to.emit(vault, "StrategyReported")
+          .withArgs(strategyAddress, amountOut, 0, depositAmount + amountOut);
+        expect(
+          (await vault.getStrategyParams(strategyAddress)).totalGain
+        ).to.equal(amountOut);
+      });
 
-      expect(sharesAfter - sharesBefore).to.be.gt(0);
-      expect(await vault.totalAssets()).to.equal(largeAmount);
-    });
+      it("Should revert the harvest when the swap returns less than the minimum", async function () {
+        const amountOut = expectedOut(rewardAmount);
 
-    it("Should maintain correct share-to-asset ratio", async function () {
-      // First deposit
-      await vault
-        .connect(alice)
-        .deposit(ethers.parseUnits("1000", 6), alice.address); // 1,000 USDC
+        await expect(
+          vault
+            .connect(agent)
+            .executeStrategy(strategyAddress, harvestAndSwap(amountOut + 1n))
+        ).to.be.revertedWithCustomError(vault, "ExecutionFailed");
+
+        expect(await strategies.getBalance()).to.equal(depositAmount);
+        expect(
+          await mockProtocol.rewards(await strategies.getAddress())
+        ).to.equal(rewardAmount);
+      });
 
-      // Second deposit from different user
-      await vault
-        .connect(bob)
-        .deposit(ethers.parseUnits("2000", 6), bob.address); // 2,000 USDC
+      it("Should forward rewards that have no swapper to the vault", async function () {
+        await vault
+          .connect(manager)
+          .setRewardSwapper(await rewardToken.getAddress(), ethers.ZeroAddress);
 
-      // Check ratios
-      const aliceShares = await vault.balanceOf(alice.address);
-      const bobShares = await vault.balanceOf(bob.address);
+        await vault
+          .connect(agent)
+          .executeStrategy(strategyAddress, harvestAndSwap(0n));
 
-      // Bob should have approximately 2x Alice's shares
-      expect(bobShares).to.be.closeTo(
-        aliceShares * 2n,
-        ethers.parseUnits("1", 6) // 1 USDC tolerance
-      );
+        expect(await strategies.getBalance()).to.equal(depositAmount);
+        expect(await rewardToken.balanceOf(await vault.getAddress())).to.equal(
+          rewardAmount
+        );
+      });
+
+      it("Should only let managers register swappers for tokens other than the asset", async function () {
+        await expect(
+          vault
+            .connect(agent)
+            .setRewardSwapper(
+              await rewardToken.getAddress(),
+              await swapper.getAddress()
+            )
+        ).to.be.revertedWith("Vault: caller is not a manager");
+
+        await expect(
+          vault
+            .connect(manager)
+            .setRewardSwapper(
+              await underlyingToken.getAddress(),
+              await swapper.getAddress()
+            )
+        ).to.be.revertedWithCustomError(vault, "InvalidAddress");
+      });
     });
 
-    it("Should handle preview functions correctly", async function () {
-      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    describe("Multicall", function () {
+      const depositAmount = ethers.parseUnits("1000", 6);
+      let strategyAddress: string;
 
-      // Test preview functions before any deposits
-      const previewShares = await vault.previewDeposit(depositAmount);
-      const previewAssets = await vault.previewMint(previewShares);
+      beforeEach(async function () {
+        strategyAddress = await strategies.getAddress();
+        await underlyingToken
+          .connect(alice)
+          .approve(await vault.getAddress(), depositAmount);
+        await vault.connect(alice).deposit(depositAmount, alice.address);
+      });
 
-      expect(previewAssets).to.equal(depositAmount);
+      const call = (data: string, allowFailure = false) => ({
+        data,
+        allowFailure,
+      });
+      const deposit = () =>
+        vault.interface.encodeFunctionData("depositToStrategy", [
+          strategyAddress,
+          depositAmount,
+          "0x",
+        ]);
+      const harvest = () =>
+        vault.interface.encodeFunctionData("harvestStrategy", [
+          strategyAddress,
+          "0x",
+        ]);
+      const withdraw = (amount: bigint) =>
+        vault.interface.encodeFunctionData("withdrawFromStrategy", [
+          strategyAddress,
+          amount,
+          "0x",
+        ]);
+      const collectFees = () =>
+        vault.interface.encodeFunctionData("collectFees");
+
+      it("Should run a rebalance batch atomically and return per-call results", async function () {
+        // A keeper holding both roles can batch agent and manager calls
+        await vault
+          .connect(owner)
+          .grantRole(await vault.MANAGER_ROLE(), agent.address);
+
+        const calls = [
+          call(deposit()),
+          call(harvest()),
+          call(withdraw(ethers.parseUnits("400", 6))),
+          call(collectFees()),
+        ];
+
+        const results = await vault.connect(agent).multicall.staticCall(calls);
+        expect(results.length).to.equal(4);
+        expect(results.every((r) => r.success)).to.equal(true);
+        expect(
+          vault.interface.decodeFunctionResult(
+            "withdrawFromStrategy",
+            results[2].returnData
+          )[0]
+        ).to.equal(ethers.parseUnits("400", 6));
+
+        await expect(vault.connect(agent).multicall(calls))
+          .to.emit(vault, "StrategyHarvested")
+          .withArgs(strategyAddress, "0x");
+        expect(await strategies.getBalance()).to.equal(
+          ethers.parseUnits("600", 6)
+        );
+      });
 
-      // Actually deposit and compare
-      await vault.connect(alice).deposit(depositAmount, alice.address);
-      const actualShares = await vault.balanceOf(alice.address);
+      it("Should check the caller's roles on every inner call", async function () {
+        await expect(
+          vault.connect(alice).multicall([call(harvest())])
+        ).to.be.revertedWith("Vault: caller is not an agent");
 
-      expect(actualShares).to.equal(previewShares);
+        await expect(
+          vault.connect(agent).multicall([call(deposit()), call(collectFees())])
+        ).to.be.revertedWith("Vault: not owner/manager");
+      });
+
+      it("Should revert the whole batch when a call fails without allowFailure", async function () {
+        await expect(
+          vault.connect(agent).multicall([call(deposit()), call(withdraw(0n))])
+        ).to.be.revertedWithCustomError(vault, "InvalidAddress");
+
+        expect(await strategies.getBalance()).to.equal(0);
+      });
+
+      it("Should keep going past calls that are allowed to fail", async function () {
+        const calls = [call(collectFees(), true), call(deposit())];
+
+        const results = await vault.connect(agent).multicall.staticCall(calls);
+        expect(results[0].success).to.equal(false);
+        expect(results[0].returnData).to.equal(
+          vault.interface.encodeErrorResult("Error", [
+            "Vault: not owner/manager",
+          ])
+        );
+        expect(results[1].success).to.equal(true);
+
+        await vault.connect(agent).multicall(calls);
+        expect(await strategies.getBalance()).to.equal(depositAmount);
+      });
     });
 
-    it("Should handle max functions correctly", async function () {
+    describe("Strategy Reporting", function () {
       const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
-      await vault.connect(alice).deposit(depositAmount, alice.address);
+      let zeroYieldVault: Vault;
+      let reportingStrategy: Strategies;
+
+      beforeEach(async function () {
+        // Realized accounting is meant for vaults without a fixed yield rate
+        const VaultFactory = await ethers.getContractFactory("Vault", {
+          libraries: await vaultLibraries(),
+        });
+        zeroYieldVault = await VaultFactory.deploy(
+          await underlyingToken.getAddress(),
+          "Realized Vault",
+          "rVAULT",
+          manager.address,
+          agent.address,
+          100, // 1% withdrawal fee
+          0, // no fixed yield
+          owner.address,
+          0
+        );
+
+        const StrategiesFactory = await ethers.getContractFactory(
+          "Strategies"
+        );
+        reportingStrategy = await StrategiesFactory.deploy(
+          await underlyingToken.getAddress(),
+          await mockProtocol.getAddress(),
+          ethers.id("deposit(uint256)").slice(0, 10),
+          ethers.id("withdraw(uint256)").slice(0, 10),
+          ethers.id("claimRewards()").slice(0, 10),
+          ethers.id("getBalance(address)").slice(0, 10)
+        );
+        await reportingStrategy.setVault(await zeroYieldVault.getAddress());
+        await zeroYieldVault
+          .connect(manager)
+          .addStrategy(await reportingStrategy.getAddress());
+
+        await underlyingToken
+          .connect(alice)
+          .approve(await zeroYieldVault.getAddress(), depositAmount);
+        await zeroYieldVault.connect(alice).deposit(depositAmount, alice.address);
+        await zeroYieldVault
+          .connect(agent)
+          .depositToStrategy(
+            await reportingStrategy.getAddress(),
+            depositAmount,
+            "0x"
+          );
+      });
+
+      it("Should record strategy debt on deposit", async function () {
+        const params = await zeroYieldVault.getStrategyParams(
+          await reportingStrategy.getAddress()
+        );
+
+        expect(params.currentDebt).to.equal(depositAmount);
+        expect(await zeroYieldVault.totalDebt()).to.equal(depositAmount);
+        expect(await zeroYieldVault.totalAssets()).to.equal(depositAmount);
+      });
+
+      it("Should book realized gains into totalAssets", async function () {
+        const gain = ethers.parseUnits("50", 6);
+        const strategyAddress = await reportingStrategy.getAddress();
+
+        // Back the simulated yield with real tokens in the protocol
+        await underlyingToken.transfer(await mockProtocol.getAddress(), gain);
+        await mockProtocol.simulateYield(strategyAddress, gain);
+
+        await expect(zeroYieldVault.connect(agent).report(strategyAddress))
+          .to.emit(zeroYieldVault, "StrategyReported")
+          .withArgs(strategyAddress, gain, 0, depositAmount + gain);
+
+        const params = await zeroYieldVault.getStrategyParams(strategyAddress);
+        expect(params.currentDebt).to.equal(depositAmount + gain);
+        expect(params.totalGain).to.equal(gain);
+        expect(await zeroYieldVault.totalAssets()).to.equal(
+          depositAmount + gain
+        );
+        expect(await zeroYieldVault.getCollectableFees()).to.equal(0);
+      });
+
+      it("Should book realized losses into totalAssets", async function () {
+        const loss = ethers.parseUnits("100", 6);
+        const strategyAddress = await reportingStrategy.getAddress();
+
+        await mockProtocol.simulateLoss(strategyAddress, loss);
+
+        await expect(zeroYieldVault.connect(agent).report(strategyAddress))
+          .to.emit(zeroYieldVault, "StrategyReported")
+          .withArgs(strategyAddress, 0, loss, depositAmount - loss);
+
+        const params = await zeroYieldVault.getStrategyParams(strategyAddress);
+        expect(params.totalLoss).to.equal(loss);
+        expect(await zeroYieldVault.totalDebt()).to.equal(
+          depositAmount - loss
+        );
+        expect(await zeroYieldVault.totalAssets()).to.equal(
+          depositAmount - loss
+        );
+      });
+
+      it("Should not book gains on top of a fixed yield rate", async function () {
+        const gain = ethers.parseUnits("50", 6);
+        const strategyAddress = await reportingStrategy.getAddress();
+        await zeroYieldVault.connect(manager).setYieldRate(500);
+
+        await underlyingToken.transfer(await mockProtocol.getAddress(), gain);
+        await mockProtocol.simulateYield(strategyAddress, gain);
+        await zeroYieldVault.connect(agent).report(strategyAddress);
+
+        // The gain is tracked against the strategy but only backs the promised yield
+        const params = await zeroYieldVault.getStrategyParams(strategyAddress);
+        expect(params.totalGain).to.equal(gain);
+        expect(await zeroYieldVault.getBaseAssets()).to.equal(depositAmount);
+        expect(await zeroYieldVault.totalAssets()).to.be.lessThan(
+          depositAmount + gain
+        );
+      });
+
+      it("Should release realized profit linearly over the unlock period", async function () {
+        const gain = ethers.parseUnits("100", 6);
+        const period = 6 * 60 * 60; // 6 hours
+        const strategyAddress = await reportingStrategy.getAddress();
+
+        await expect(
+          zeroYieldVault.connect(manager).setProfitUnlockPeriod(period)
+        )
+          .to.emit(zeroYieldVault, "ProfitUnlockPeriodUpdated")
+          .withArgs(period);
+
+        await underlyingToken.transfer(await mockProtocol.getAddress(), gain);
+        await mockProtocol.simulateYield(strategyAddress, gain);
+        await zeroYieldVault.connect(agent).report(strategyAddress);
+
+        expect(await zeroYieldVault.lockedProfit()).to.equal(gain);
+        expect(await zeroYieldVault.totalAssets()).to.equal(depositAmount);
+
+        await ethers.provider.send("evm_increaseTime", [period / 2]);
+        await ethers.provider.send("evm_mine", []);
+
+        expect(await zeroYieldVault.lockedProfit()).to.equal(gain / 2n);
+        expect(await zeroYieldVault.totalAssets()).to.equal(
+          depositAmount + gain / 2n
+        );
+
+        await ethers.provider.send("evm_increaseTime", [period / 2]);
+        await ethers.provider.send("evm_mine", []);
+
+        expect(await zeroYieldVault.lockedProfit()).to.equal(0);
+        expect(await zeroYieldVault.totalAssets()).to.equal(
+          depositAmount + gain
+        );
+      });
+
+      it("Should give no profit to a deposit, harvest and redeem in one block", async function () {
+        const gain = ethers.parseUnits("100", 6);
+        const strategyAddress = await reportingStrategy.getAddress();
+        const vaultAddress = await zeroYieldVault.getAddress();
+
+        await zeroYieldVault.connect(manager).setProfitUnlockPeriod(6 * 60 * 60);
+        await underlyingToken.transfer(await mockProtocol.getAddress(), gain);
+        await mockProtocol.simulateYield(strategyAddress, gain);
+        await underlyingToken.connect(bob).approve(vaultAddress, depositAmount);
+
+        const balanceBefore = await underlyingToken.balanceOf(bob.address);
+        const shares = await zeroYieldVault.previewDeposit(depositAmount);
+
+        await ethers.provider.send("evm_setAutomine", [false]);
+        try {
+          await zeroYieldVault
+            .connect(bob)
+            .deposit(depositAmount, bob.address, { gasLimit: 1_000_000 });
+          await zeroYieldVault
+            .connect(agent)
+            .report(strategyAddress, { gasLimit: 1_000_000 });
+          await zeroYieldVault
+            .connect(bob)
+            .redeem(shares, bob.address, bob.address, { gasLimit: 1_000_000 });
+          await ethers.provider.send("evm_mine", []);
+        } finally {
+          await ethers.provider.send("evm_setAutomine", [true]);
+        }
+
+        expect(await zeroYieldVault.balanceOf(bob.address)).to.equal(0);
+        expect(await zeroYieldVault.lockedProfit()).to.equal(gain);
+        expect(await underlyingToken.balanceOf(bob.address)).to.be.lte(
+          balanceBefore
+        );
+      });
+
+      it("Should absorb losses with locked profit first", async function () {
+        const gain = ethers.parseUnits("100", 6);
+        const loss = ethers.parseUnits("40", 6);
+        const strategyAddress = await reportingStrategy.getAddress();
+
+        await zeroYieldVault.connect(manager).setProfitUnlockPeriod(6 * 60 * 60);
+        await underlyingToken.transfer(await mockProtocol.getAddress(), gain);
+        await mockProtocol.simulateYield(strategyAddress, gain);
+        await zeroYieldVault.connect(agent).report(strategyAddress);
+
+        await mockProtocol.simulateLoss(strategyAddress, loss);
+        await zeroYieldVault.connect(agent).report(strategyAddress);
+
+        // A few seconds of unlocking pass between the two reports
+        const tolerance = ethers.parseUnits("0.1", 6);
+        expect(await zeroYieldVault.lockedProfit()).to.be.closeTo(
+          gain - loss,
+          tolerance
+        );
+        expect(await zeroYieldVault.totalAssets()).to.be.closeTo(
+          depositAmount,
+          tolerance
+        );
+      });
+
+      it("Should only let the manager set a bounded unlock period", async function () {
+        await expect(
+          zeroYieldVault.connect(alice).setProfitUnlockPeriod(3600)
+        ).to.be.revertedWith("Vault: caller is not a manager");
+        await expect(
+          zeroYieldVault
+            .connect(manager)
+            .setProfitUnlockPeriod(31 * 24 * 60 * 60)
+        ).to.be.revertedWithCustomError(zeroYieldVault, "InvalidUnlockPeriod");
+      });
+
+      it("Should settle debt on emergency exit", async function () {
+        const gain = ethers.parseUnits("20", 6);
+        const strategyAddress = await reportingStrategy.getAddress();
+
+        await underlyingToken.transfer(await mockProtocol.getAddress(), gain);
+        await mockProtocol.simulateYield(strategyAddress, gain);
+
+        await zeroYieldVault
+          .connect(agent)
+          .emergencyExitStrategy(strategyAddress, "0x");
+
+        const params = await zeroYieldVault.getStrategyParams(strategyAddress);
+        expect(params.currentDebt).to.equal(0);
+        expect(params.totalGain).to.equal(gain);
+        expect(await zeroYieldVault.totalDebt()).to.equal(0);
+        expect(await zeroYieldVault.totalAssets()).to.equal(
+          depositAmount + gain
+        );
+      });
+
+      it("Should not remove a strategy that still holds debt", async function () {
+        await expect(
+          zeroYieldVault
+            .connect(manager)
+            .removeStrategy(await reportingStrategy.getAddress())
+        ).to.be.revertedWithCustomError(zeroYieldVault, "StrategyHasDebt");
+      });
+
+      it("Should revert report if not agent", async function () {
+        await expect(
+          zeroYieldVault
+            .connect(alice)
+            .report(await reportingStrategy.getAddress())
+        ).to.be.revertedWith("Vault: caller is not an agent");
+      });
+
+      it("Should revert report for unknown strategy", async function () {
+        await expect(
+          zeroYieldVault.connect(agent).report(bob.address)
+        ).to.be.revertedWithCustomError(zeroYieldVault, "StrategyDoesNotExist");
+      });
+    });
+
+    describe("Strategy Debt Limits", function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+      let limitedVault: Vault;
+      let limitedStrategy: Strategies;
+      let strategyAddress: string;
+
+      beforeEach(async function () {
+        const VaultFactory = await ethers.getContractFactory("Vault", {
+          libraries: await vaultLibraries(),
+        });
+        limitedVault = await VaultFactory.deploy(
+          await underlyingToken.getAddress(),
+          "Limited Vault",
+          "lVAULT",
+          manager.address,
+          agent.address,
+          100, // 1% withdrawal fee
+          0, // no fixed yield
+          owner.address,
+          0
+        );
+
+        const StrategiesFactory = await ethers.getContractFactory(
+          "Strategies"
+        );
+        limitedStrategy = await StrategiesFactory.deploy(
+          await underlyingToken.getAddress(),
+          await mockProtocol.getAddress(),
+          ethers.id("deposit(uint256)").slice(0, 10),
+          ethers.id("withdraw(uint256)").slice(0, 10),
+          ethers.id("claimRewards()").slice(0, 10),
+          ethers.id("getBalance(address)").slice(0, 10)
+        );
+        strategyAddress = await limitedStrategy.getAddress();
+        await limitedStrategy.setVault(await limitedVault.getAddress());
+        await limitedVault.connect(manager).addStrategy(strategyAddress);
+
+        await underlyingToken
+          .connect(alice)
+          .approve(await limitedVault.getAddress(), depositAmount);
+        await limitedVault.connect(alice).deposit(depositAmount, alice.address);
+      });
+
+      it("Should start new strategies without limits", async function () {
+        const params = await limitedVault.getStrategyParams(strategyAddress);
+        expect(params.maxDebt).to.equal(ethers.MaxUint256);
+        expect(params.targetAllocation).to.equal(10000);
+      });
+
+      it("Should allow manager to set strategy limits", async function () {
+        const maxDebt = ethers.parseUnits("500", 6);
+
+        await expect(
+          limitedVault
+            .connect(manager)
+            .setStrategyLimits(strategyAddress, maxDebt, 4000)
+        )
+          .to.emit(limitedVault, "StrategyLimitsUpdated")
+          .withArgs(strategyAddress, maxDebt, 4000);
+
+        const params = await limitedVault.getStrategyParams(strategyAddress);
+        expect(params.maxDebt).to.equal(maxDebt);
+        expect(params.targetAllocation).to.equal(4000);
+      });
+
+      it("Should revert setting limits if not manager", async function () {
+        await expect(
+          limitedVault
+            .connect(agent)
+            .setStrategyLimits(strategyAddress, 0, 0)
+        ).to.be.revertedWith("Vault: caller is not a manager");
+      });
+
+      it("Should revert on allocation above 100%", async function () {
+        await expect(
+          limitedVault
+            .connect(manager)
+            .setStrategyLimits(strategyAddress, ethers.MaxUint256, 10001)
+        ).to.be.revertedWithCustomError(limitedVault, "InvalidAllocation");
+      });
+
+      it("Should enforce the debt ceiling on deposit", async function () {
+        await limitedVault
+          .connect(manager)
+          .setStrategyLimits(
+            strategyAddress,
+            ethers.parseUnits("600", 6),
+            10000
+          );
+
+        await limitedVault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, ethers.parseUnits("600", 6), "0x");
+
+        await expect(
+          limitedVault
+            .connect(agent)
+            .depositToStrategy(strategyAddress, 1, "0x")
+        ).to.be.revertedWithCustomError(limitedVault, "MaxDebtExceeded");
+      });
+
+      it("Should enforce the target allocation on deposit", async function () {
+        await limitedVault
+          .connect(manager)
+          .setStrategyLimits(strategyAddress, ethers.MaxUint256, 2500);
+
+        await expect(
+          limitedVault
+            .connect(agent)
+            .depositToStrategy(strategyAddress, ethers.parseUnits("251", 6), "0x")
+        ).to.be.revertedWithCustomError(limitedVault, "AllocationExceeded");
+
+        await limitedVault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, ethers.parseUnits("250", 6), "0x");
+        expect(await limitedVault.totalDebt()).to.equal(
+          ethers.parseUnits("250", 6)
+        );
+      });
+
+      it("Should withdraw from a strategy and reduce its debt", async function () {
+        const withdrawAmount = ethers.parseUnits("400", 6);
+        await limitedVault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, depositAmount, "0x");
+
+        await expect(
+          limitedVault
+            .connect(agent)
+            .withdrawFromStrategy(strategyAddress, withdrawAmount, "0x")
+        )
+          .to.emit(limitedVault, "StrategyWithdrawn")
+          .withArgs(strategyAddress, withdrawAmount, withdrawAmount)
+          .and.to.emit(limitedVault, "DebtUpdated")
+          .withArgs(strategyAddress, depositAmount, depositAmount - withdrawAmount);
+
+        expect(
+          await underlyingToken.balanceOf(await limitedVault.getAddress())
+        ).to.equal(withdrawAmount);
+        expect(await limitedVault.totalDebt()).to.equal(
+          depositAmount - withdrawAmount
+        );
+        expect(await limitedVault.totalAssets()).to.equal(depositAmount);
+      });
+
+      it("Should realize a loss when a strategy returns less than its debt", async function () {
+        const loss = ethers.parseUnits("100", 6);
+        await limitedVault
+          .connect(agent)
+          .depositToStrategy(strategyAddress, depositAmount, "0x");
+        await mockProtocol.setWithdrawSlippage(1000); // 10%
+
+        // All debt leaves the protocol but only 90% of it reaches the vault
+        const data = mockProtocol.interface.encodeFunctionData("withdraw", [
+          depositAmount,
+        ]);
+        await limitedVault
+          .connect(agent)
+          .withdrawFromStrategy(strategyAddress, depositAmount, data);
+
+        const params = await limitedVault.getStrategyParams(strategyAddress);
+        expect(params.currentDebt).to.equal(0);
+        expect(params.totalLoss).to.equal(loss);
+        expect(await limitedVault.totalAssets()).to.equal(depositAmount - loss);
+      });
+
+      it("Should revert withdrawFromStrategy if not agent", async function () {
+        await expect(
+          limitedVault
+            .connect(alice)
+            .withdrawFromStrategy(strategyAddress, 1, "0x")
+        ).to.be.revertedWith("Vault: caller is not an agent");
+      });
+    });
+
+    describe("Withdrawal Queue", function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+      let queueVault: Vault;
+      let firstStrategy: Strategies;
+      let secondStrategy: Strategies;
+      let firstAddress: string;
+      let secondAddress: string;
+
+      beforeEach(async function () {
+        const VaultFactory = await ethers.getContractFactory("Vault", {
+          libraries: await vaultLibraries(),
+        });
+        queueVault = await VaultFactory.deploy(
+          await underlyingToken.getAddress(),
+          "Queue Vault",
+          "qVAULT",
+          manager.address,
+          agent.address,
+          100, // 1% withdrawal fee
+          0, // no fixed yield
+          owner.address,
+          0
+        );
+
+        const StrategiesFactory = await ethers.getContractFactory(
+          "Strategies"
+        );
+        const deployStrategy = async () => {
+          const strategy = await StrategiesFactory.deploy(
+            await underlyingToken.getAddress(),
+            await mockProtocol.getAddress(),
+            ethers.id("deposit(uint256)").slice(0, 10),
+            ethers.id("withdraw(uint256)").slice(0, 10),
+            ethers.id("claimRewards()").slice(0, 10),
+            ethers.id("getBalance(address)").slice(0, 10)
+          );
+          await strategy.setVault(await queueVault.getAddress());
+          await queueVault
+            .connect(manager)
+            .addStrategy(await strategy.getAddress());
+          return strategy;
+        };
+        firstStrategy = await deployStrategy();
+        secondStrategy = await deployStrategy();
+        firstAddress = await firstStrategy.getAddress();
+        secondAddress = await secondStrategy.getAddress();
+
+        await underlyingToken
+          .connect(alice)
+          .approve(await queueVault.getAddress(), depositAmount);
+        await queueVault.connect(alice).deposit(depositAmount, alice.address);
+
+        await queueVault
+          .connect(agent)
+          .depositToStrategy(firstAddress, ethers.parseUnits("600", 6), "0x");
+        await queueVault
+          .connect(agent)
+          .depositToStrategy(secondAddress, ethers.parseUnits("400", 6), "0x");
+      });
+
+      it("Should allow manager to set the withdrawal queue", async function () {
+        await expect(
+          queueVault
+            .connect(manager)
+            .setWithdrawalQueue([secondAddress, firstAddress])
+        )
+          .to.emit(queueVault, "WithdrawalQueueUpdated")
+          .withArgs([secondAddress, firstAddress]);
+
+        expect(await queueVault.getWithdrawalQueue()).to.deep.equal([
+          secondAddress,
+          firstAddress,
+        ]);
+      });
+
+      it("Should reject unknown or duplicate strategies in the queue", async function () {
+        await expect(
+          queueVault.connect(manager).setWithdrawalQueue([bob.address])
+        ).to.be.revertedWithCustomError(queueVault, "StrategyDoesNotExist");
+
+        await expect(
+          queueVault
+            .connect(manager)
+            .setWithdrawalQueue([firstAddress, firstAddress])
+        ).to.be.revertedWithCustomError(queueVault, "InvalidQueue");
+      });
+
+      it("Should revert setting the queue if not manager", async function () {
+        await expect(
+          queueVault.connect(agent).setWithdrawalQueue([firstAddress])
+        ).to.be.revertedWith("Vault: caller is not a manager");
+      });
+
+      it("Should pull liquidity from strategies in queue order on redeem", async function () {
+        await queueVault
+          .connect(manager)
+          .setWithdrawalQueue([secondAddress, firstAddress]);
+
+        const shares = await queueVault.balanceOf(alice.address);
+        const balanceBefore = await underlyingToken.balanceOf(alice.address);
+        await queueVault
+          .connect(alice)
+          .redeem(shares, alice.address, alice.address);
+
+        // 1% fee stays in the vault, so only 990 is pulled: 400 + 590
+        expect(await underlyingToken.balanceOf(alice.address)).to.equal(
+          balanceBefore + ethers.parseUnits("990", 6)
+        );
+        expect(
+          (await queueVault.getStrategyParams(secondAddress)).currentDebt
+        ).to.equal(0);
+        expect(
+          (await queueVault.getStrategyParams(firstAddress)).currentDebt
+        ).to.equal(ethers.parseUnits("10", 6));
+      });
+
+      it("Should pull only the missing liquidity on withdraw", async function () {
+        await queueVault.connect(manager).setWithdrawalQueue([firstAddress]);
+
+        await queueVault
+          .connect(alice)
+          .withdraw(ethers.parseUnits("100", 6), alice.address, alice.address);
+
+        expect(
+          (await queueVault.getStrategyParams(firstAddress)).currentDebt
+        ).to.equal(ethers.parseUnits("500", 6));
+        expect(
+          (await queueVault.getStrategyParams(secondAddress)).currentDebt
+        ).to.equal(ethers.parseUnits("400", 6));
+      });
+
+      it("Should revert withdrawals when the queue cannot cover them", async function () {
+        await expect(
+          queueVault
+            .connect(alice)
+            .withdraw(ethers.parseUnits("100", 6), alice.address, alice.address)
+        ).to.be.reverted;
+      });
+
+      it("Should revert when pulling realizes more than maxLoss", async function () {
+        await queueVault.connect(manager).setWithdrawalQueue([firstAddress]);
+        await mockProtocol.setWithdrawSlippage(100); // 1%
+
+        await expect(
+          queueVault
+            .connect(alice)
+            .withdraw(ethers.parseUnits("100", 6), alice.address, alice.address)
+        ).to.be.revertedWithCustomError(queueVault, "ExcessiveLoss");
+
+        await queueVault.connect(manager).setMaxLoss(100);
+        const balanceBefore = await underlyingToken.balanceOf(alice.address);
+        await queueVault
+          .connect(alice)
+          .withdraw(ethers.parseUnits("100", 6), alice.address, alice.address);
+
+        // The withdrawer bears the 1% slippage on the 100 pulled
+        expect(await underlyingToken.balanceOf(alice.address)).to.equal(
+          balanceBefore + ethers.parseUnits("99", 6)
+        );
+        const params = await queueVault.getStrategyParams(firstAddress);
+        expect(params.totalLoss).to.equal(ethers.parseUnits("1", 6));
+      });
+
+      it("Should reject maxLoss above 100%", async function () {
+        await expect(
+          queueVault.connect(manager).setMaxLoss(10001)
+        ).to.be.revertedWithCustomError(queueVault, "InvalidMaxLoss");
+      });
+
+      it("Should drop removed strategies from the queue", async function () {
+        await queueVault
+          .connect(manager)
+          .setWithdrawalQueue([firstAddress, secondAddress]);
+        await queueVault
+          .connect(agent)
+          .emergencyExitStrategy(firstAddress, "0x");
+        await queueVault.connect(manager).removeStrategy(firstAddress);
+
+        expect(await queueVault.getWithdrawalQueue()).to.deep.equal([
+          secondAddress,
+        ]);
+      });
+    });
+  });
+
+  describe("Access Control", function () {
+    it("Should allow owner to grant roles", async function () {
+      const MANAGER_ROLE = await vault.MANAGER_ROLE();
+
+      await vault.connect(owner).grantRole(MANAGER_ROLE, alice.address);
+      expect(await vault.hasRole(MANAGER_ROLE, alice.address)).to.be.true;
+    });
+
+    it("Should allow owner to revoke roles", async function () {
+      const MANAGER_ROLE = await vault.MANAGER_ROLE();
+
+      await vault.connect(owner).revokeRole(MANAGER_ROLE, manager.address);
+      expect(await vault.hasRole(MANAGER_ROLE, manager.address)).to.be.false;
+    });
+
+    it("Should not allow non-admin to grant roles", async function () {
+      const MANAGER_ROLE = await vault.MANAGER_ROLE();
+
+      await expect(vault.connect(alice).grantRole(MANAGER_ROLE, bob.address)).to
+        .be.reverted;
+    });
+  });
+
+  describe("Advanced ERC4626 Functionality", function () {
+    beforeEach(async function () {
+      // Setup multiple users with different amounts
+      await underlyingToken.transfer(
+        alice.address,
+        ethers.parseUnits("5000", 6)
+      ); // 5,000 USDC
+      await underlyingToken.transfer(bob.address, ethers.parseUnits("2500", 6)); // 2,500 USDC
+
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+      await underlyingToken
+        .connect(bob)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should handle large deposits correctly", async function () {
+      const largeAmount = ethers.parseUnits("4999", 6); // 4,999 USDC
+
+      const sharesBefore = await vault.balanceOf(alice.address);
+      await vault.connect(alice).deposit(largeAmount, alice.address);
+      const sharesAfter = await vault.balanceOf(alice.address);
+
+      expect(sharesAfter - sharesBefore).to.be.gt(0);
+      expect(await vault.totalAssets()).to.equal(largeAmount);
+    });
+
+    it("Should maintain correct share-to-asset ratio", async function () {
+      // First deposit
+      await vault
+        .connect(alice)
+        .deposit(ethers.parseUnits("1000", 6), alice.address); // 1,000 USDC
+
+      // Second deposit from different user
+      await vault
+        .connect(bob)
+        .deposit(ethers.parseUnits("2000", 6), bob.address); // 2,000 USDC
+
+      // Check ratios
+      const aliceShares = await vault.balanceOf(alice.address);
+      const bobShares = await vault.balanceOf(bob.address);
+
+      // Bob should have approximately 2x Alice's shares
+      expect(bobShares).to.be.closeTo(
+        aliceShares * 2n,
+        ethers.parseUnits("1", 6) // 1 USDC tolerance
+      );
+    });
+
+    it("Should handle preview functions correctly", async function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+
+      // Test preview functions before any deposits
+      const previewShares = await vault.previewDeposit(depositAmount);
+      const previewAssets = await vault.previewMint(previewShares);
+
+      expect(previewAssets).to.equal(depositAmount);
+
+      // Actually deposit and compare
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+      const actualShares = await vault.balanceOf(alice.address);
+
+      expect(actualShares).to.equal(previewShares);
+    });
+
+    it("Should handle max functions correctly", async function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+      await vault.connect(alice).deposit(depositAmount, alice.address);
 
       // Test max functions
       const maxWithdraw = await vault.maxWithdraw(alice.address);
       const maxRedeem = await vault.maxRedeem(alice.address);
 
-      expect(maxWithdraw).to.be.gt(0);
-      expect(maxRedeem).to.be.gt(0);
-      expect(maxRedeem).to.equal(await vault.balanceOf(alice.address));
+      expect(maxWithdraw).to.be.gt(0);
+      expect(maxRedeem).to.be.gt(0);
+      expect(maxRedeem).to.equal(await vault.balanceOf(alice.address));
+    });
+  });
+
+  describe("Advanced Strategy Integration", function () {
+    let mockProtocol: any;
+    let rewardToken: any;
+    let secondStrategy: any;
+
+    beforeEach(async function () {
+      // Deploy additional infrastructure
+      const MockTokenFactory = await ethers.getContractFactory("MockToken");
+      rewardToken = await MockTokenFactory.deploy("Reward Token", "REWARD");
+
+      const MockProtocolFactory = await ethers.getContractFactory(
+        "MockProtocol"
+      );
+      mockProtocol = await MockProtocolFactory.deploy(
+        await underlyingToken.getAddress(),
+        await rewardToken.getAddress()
+      );
+
+      // Deploy first strategy
+      const StrategiesFactory = await ethers.getContractFactory("Strategies");
+      strategies = await StrategiesFactory.deploy(
+        await underlyingToken.getAddress(),
+        await mockProtocol.getAddress(),
+        ethers.id("deposit(uint256)").slice(0, 10),
+        ethers.id("withdraw(uint256)").slice(0, 10),
+        ethers.id("claimRewards()").slice(0, 10),
+        ethers.id("getBalance(address)").slice(0, 10)
+      );
+
+      // Deploy second strategy with different protocol
+      secondStrategy = await StrategiesFactory.deploy(
+        await underlyingToken.getAddress(),
+        await mockProtocol.getAddress(),
+        ethers.id("deposit(uint256)").slice(0, 10),
+        ethers.id("withdraw(uint256)").slice(0, 10),
+        ethers.id("claimRewards()").slice(0, 10),
+        ethers.id("getBalance(address)").slice(0, 10)
+      );
+
+      // Setup strategies
+      await strategies.setVault(await vault.getAddress());
+      await secondStrategy.setVault(await vault.getAddress());
+
+      await vault.connect(manager).addStrategy(await strategies.getAddress());
+      await vault
+        .connect(manager)
+        .addStrategy(await secondStrategy.getAddress());
+
+      // Fund protocol
+      await rewardToken.transfer(
+        await mockProtocol.getAddress(),
+        ethers.parseUnits("10000", 18) // Reward tokens can have 18 decimals
+      );
+
+      // Setup user funds
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should handle multiple strategies simultaneously", async function () {
+      const depositAmount = ethers.parseUnits("2000", 6); // 2,000 USDC
+
+      // User deposits to vault
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      // Distribute to multiple strategies
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await strategies.getAddress(),
+          ethers.parseUnits("1000", 6),
+          "0x"
+        );
+
+      await vault
+        .connect(agent)
+        .depositToStrategy(
+          await secondStrategy.getAddress(),
+          ethers.parseUnits("1000", 6),
+          "0x"
+        );
+
+      // Verify both strategies have balances
+      expect(await strategies.getBalance()).to.equal(
+        ethers.parseUnits("1000", 6)
+      );
+      expect(await secondStrategy.getBalance()).to.equal(
+        ethers.parseUnits("1000", 6)
+      );
+    });
+
+    it("Should handle strategy failures gracefully", async function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+
+      // Deposit to vault
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      // Try to deposit more than vault has
+      await expect(
+        vault.connect(agent).depositToStrategy(
+          await strategies.getAddress(),
+          ethers.parseUnits("2000", 6), // More than vault balance
+          "0x"
+        )
+      ).to.be.revertedWithCustomError(vault, "InsufficientBalance");
+    });
+
+    it("Should handle complete strategy lifecycle", async function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+
+      // 1. User deposits
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      // 2. Deploy to strategy
+      await vault
+        .connect(agent)
+        .depositToStrategy(await strategies.getAddress(), depositAmount, "0x");
+
+      // 3. Harvest (will work even without rewards)
+      await vault
+        .connect(agent)
+        .harvestStrategy(await strategies.getAddress(), "0x");
+
+      // 4. Emergency exit
+      await vault
+        .connect(agent)
+        .emergencyExitStrategy(await strategies.getAddress(), "0x");
+
+      // 5. Verify funds returned to vault
+      expect(await strategies.getBalance()).to.equal(0);
+      expect(
+        await underlyingToken.balanceOf(await vault.getAddress())
+      ).to.be.gt(0);
     });
   });
 
-  describe("Advanced Strategy Integration", function () {
-    let mockProtocol: any;
-    let rewardToken: any;
-    let secondStrategy: any;
+  describe("Edge Cases and Security", function () {
+    beforeEach(async function () {
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should handle zero amount operations correctly", async function () {
+      // Zero deposit may not revert in OpenZeppelin ERC4626, just check it works
+      await vault.connect(alice).deposit(0, alice.address);
+
+      // Zero withdraw should work
+      await vault.connect(alice).withdraw(0, alice.address, alice.address);
+    });
+
+    it("Should prevent unauthorized access", async function () {
+      // Non-manager cannot add strategies
+      await expect(
+        vault.connect(alice).addStrategy(bob.address)
+      ).to.be.revertedWith("Vault: caller is not a manager");
+
+      // Non-agent cannot execute strategies
+      await expect(
+        vault.connect(alice).depositToStrategy(bob.address, 100, "0x")
+      ).to.be.revertedWith("Vault: caller is not an agent");
+    });
+
+    it("Should handle reentrancy protection", async function () {
+      // This is implicitly tested by our strategy contracts
+      // The nonReentrant modifier should prevent any reentrancy attacks
+      expect(await vault.hasAgentRole(agent.address)).to.be.true;
+    });
+
+    it("Should handle large numbers correctly", async function () {
+      const largeAmount = ethers.parseUnits("500000", 6); // 500K USDC - more reasonable
+
+      // Mint large amount to owner first
+      await underlyingToken.mint(owner.address, largeAmount);
+
+      // Transfer large amount to alice
+      await underlyingToken.transfer(alice.address, largeAmount);
+
+      // Should handle large deposit
+      await vault.connect(alice).deposit(largeAmount, alice.address);
+
+      expect(await vault.totalAssets()).to.equal(largeAmount);
+    });
+  });
 
+  describe("Gas Optimization Tests", function () {
+    it("Should optimize gas for multiple operations", async function () {
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+
+      // First operation (more expensive due to storage initialization)
+      const tx1 = await vault
+        .connect(alice)
+        .deposit(ethers.parseUnits("1000", 6), alice.address); // 1,000 USDC
+      const receipt1 = await tx1.wait();
+
+      // Second operation (should be cheaper)
+      const tx2 = await vault
+        .connect(alice)
+        .deposit(ethers.parseUnits("1000", 6), alice.address); // 1,000 USDC
+      const receipt2 = await tx2.wait();
+
+      // Gas usage should be reasonable
+      expect(receipt1?.gasUsed).to.be.lt(200000);
+      expect(receipt2?.gasUsed).to.be.lt(150000);
+    });
+  });
+
+  describe("Withdrawal Fee Tests", function () {
     beforeEach(async function () {
-      // Deploy additional infrastructure
-      const MockTokenFactory = await ethers.getContractFactory("MockToken");
-      rewardToken = await MockTokenFactory.deploy("Reward Token", "REWARD");
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+      await underlyingToken
+        .connect(bob)
+        .approve(await vault.getAddress(), ethers.MaxUint256);
+    });
+
+    it("Should get withdrawal fee correctly", async function () {
+      expect(await vault.getWithdrawalFee()).to.equal(100); // 1%
+    });
+
+    it("Should calculate withdrawal fee correctly", async function () {
+      const withdrawAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+      const expectedFee = ethers.parseUnits("10", 6); // 1% of 1,000 USDC = 10 USDC
+
+      expect(await vault.calculateWithdrawalFee(withdrawAmount)).to.equal(
+        expectedFee
+      );
+    });
+
+    it("Should charge correct fee on withdrawal", async function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+      const withdrawAmount = ethers.parseUnits("500", 6); // 500 USDC
+      const expectedFee = ethers.parseUnits("5.050506", 6); // 1% of the 505.050506 USDC gross
+
+      // Deposit first
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      const balanceBefore = await underlyingToken.balanceOf(alice.address);
+      const vaultBalanceBefore = await underlyingToken.balanceOf(
+        await vault.getAddress()
+      );
+
+      // Withdraw with fee
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(withdrawAmount, alice.address, alice.address)
+      )
+        .to.emit(vault, "WithdrawalFeeCollected")
+        .withArgs(alice.address, expectedFee);
+
+      const balanceAfter = await underlyingToken.balanceOf(alice.address);
+      const vaultBalanceAfter = await underlyingToken.balanceOf(
+        await vault.getAddress()
+      );
+
+      // User should receive the requested amount
+      expect(balanceAfter - balanceBefore).to.equal(withdrawAmount);
+
+      // Vault should have lost only the amount paid out (the fee stays in the vault)
+      expect(vaultBalanceBefore - vaultBalanceAfter).to.equal(withdrawAmount);
+    });
+
+    it("Should charge correct fee on redeem", async function () {
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+
+      // Deposit first
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+
+      const sharesToRedeem = (await vault.balanceOf(alice.address)) / 2n;
+      const balanceBefore = await underlyingToken.balanceOf(alice.address);
+
+      // Redeem with fee
+      await expect(
+        vault
+          .connect(alice)
+          .redeem(sharesToRedeem, alice.address, alice.address)
+      ).to.emit(vault, "WithdrawalFeeCollected");
+
+      const balanceAfter = await underlyingToken.balanceOf(alice.address);
 
-      const MockProtocolFactory = await ethers.getContractFactory(
-        "MockProtocol"
+      // User should receive less than the full asset amount due to fee
+      expect(balanceAfter - balanceBefore).to.be.lt(
+        ethers.parseUnits("500", 6)
       );
-      mockProtocol = await MockProtocolFactory.deploy(
-        await underlyingToken.getAddress(),
-        await rewardToken.getAddress()
+      expect(balanceAfter - balanceBefore).to.be.gt(
+        ethers.parseUnits("490", 6)
       );
+    });
 
-      // Deploy first strategy
-      const StrategiesFactory = await ethers.getContractFactory("Strategies");
-      strategies = await StrategiesFactory.deploy(
+    it("Should handle zero withdrawal fee", async function () {
+      // Deploy a vault with 0% withdrawal fee
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
+      const vaultZeroFee = await VaultFactory.deploy(
         await underlyingToken.getAddress(),
-        await mockProtocol.getAddress(),
-        ethers.id("deposit(uint256)").slice(0, 10),
-        ethers.id("withdraw(uint256)").slice(0, 10),
-        ethers.id("claimRewards()").slice(0, 10),
-        ethers.id("getBalance(address)").slice(0, 10)
+        "Zero Fee Vault",
+        "ZFV",
+        manager.address,
+        agent.address,
+        0, // 0% withdrawal fee
+        0, // 0% yield rate
+        owner.address, // treasury address
+        0 // decimals offset
       );
 
-      // Deploy second strategy with different protocol
-      secondStrategy = await StrategiesFactory.deploy(
-        await underlyingToken.getAddress(),
-        await mockProtocol.getAddress(),
-        ethers.id("deposit(uint256)").slice(0, 10),
-        ethers.id("withdraw(uint256)").slice(0, 10),
-        ethers.id("claimRewards()").slice(0, 10),
-        ethers.id("getBalance(address)").slice(0, 10)
-      );
+      await underlyingToken
+        .connect(alice)
+        .approve(await vaultZeroFee.getAddress(), ethers.MaxUint256);
 
-      // Setup strategies
-      await strategies.setVault(await vault.getAddress());
-      await secondStrategy.setVault(await vault.getAddress());
+      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+      const withdrawAmount = ethers.parseUnits("500", 6); // 500 USDC
 
-      await vault.connect(manager).addStrategy(await strategies.getAddress());
-      await vault
-        .connect(manager)
-        .addStrategy(await secondStrategy.getAddress());
+      // Deposit
+      await vaultZeroFee.connect(alice).deposit(depositAmount, alice.address);
 
-      // Fund protocol
-      await rewardToken.transfer(
-        await mockProtocol.getAddress(),
-        ethers.parseUnits("10000", 18) // Reward tokens can have 18 decimals
-      );
+      const balanceBefore = await underlyingToken.balanceOf(alice.address);
 
-      // Setup user funds
-      await underlyingToken
+      // Withdraw - should not emit fee event
+      await vaultZeroFee
         .connect(alice)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
+        .withdraw(withdrawAmount, alice.address, alice.address);
+
+      const balanceAfter = await underlyingToken.balanceOf(alice.address);
+
+      // Should receive full amount with no fee
+      expect(balanceAfter - balanceBefore).to.equal(withdrawAmount);
     });
 
-    it("Should handle multiple strategies simultaneously", async function () {
-      const depositAmount = ethers.parseUnits("2000", 6); // 2,000 USDC
+    it("Should revert with fee too high", async function () {
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
 
-      // User deposits to vault
-      await vault.connect(alice).deposit(depositAmount, alice.address);
+      await expect(
+        VaultFactory.deploy(
+          await underlyingToken.getAddress(),
+          "High Fee Vault",
+          "HFV",
+          manager.address,
+          agent.address,
+          1500, // 15% withdrawal fee (too high)
+          500, // 5% yield rate
+          owner.address, // treasury address
+          0 // decimals offset
+        )
+      ).to.be.revertedWithCustomError(vault, "WithdrawalFeeTooHigh");
+    });
 
-      // Distribute to multiple strategies
-      await vault
-        .connect(agent)
-        .depositToStrategy(
-          await strategies.getAddress(),
-          ethers.parseUnits("1000", 6),
-          "0x"
+    it("Should allow maximum withdrawal fee", async function () {
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
+
+      // Should allow 10% fee (1000 basis points)
+      const vaultMaxFee = await VaultFactory.deploy(
+        await underlyingToken.getAddress(),
+        "Max Fee Vault",
+        "MFV",
+        manager.address,
+        agent.address,
+        1000, // 10% withdrawal fee (maximum allowed)
+        500, // 5% yield rate
+        owner.address, // treasury address
+        0 // decimals offset
+      );
+
+      expect(await vaultMaxFee.getWithdrawalFee()).to.equal(1000);
+    });
+
+    describe("Fee-inclusive previews", function () {
+      let previewVault: Vault;
+
+      beforeEach(async function () {
+        // No fixed yield, so previews do not drift between blocks
+        const VaultFactory = await ethers.getContractFactory("Vault", {
+          libraries: await vaultLibraries(),
+        });
+        previewVault = await VaultFactory.deploy(
+          await underlyingToken.getAddress(),
+          "Preview Vault",
+          "pVAULT",
+          manager.address,
+          agent.address,
+          100, // 1% withdrawal fee
+          0, // no fixed yield
+          owner.address,
+          0
         );
+        await underlyingToken
+          .connect(alice)
+          .approve(await previewVault.getAddress(), ethers.MaxUint256);
+        await previewVault
+          .connect(alice)
+          .deposit(ethers.parseUnits("1000", 6), alice.address);
+      });
 
-      await vault
-        .connect(agent)
-        .depositToStrategy(
-          await secondStrategy.getAddress(),
-          ethers.parseUnits("1000", 6),
-          "0x"
+      it("Should burn exactly previewWithdraw shares", async function () {
+        const assets = ethers.parseUnits("300", 6);
+        const expectedShares = await previewVault.previewWithdraw(assets);
+        const sharesBefore = await previewVault.balanceOf(alice.address);
+
+        await previewVault
+          .connect(alice)
+          .withdraw(assets, alice.address, alice.address);
+
+        expect(
+          sharesBefore - (await previewVault.balanceOf(alice.address))
+        ).to.equal(expectedShares);
+        expect(expectedShares).to.be.gt(
+          await previewVault.convertToShares(assets)
         );
+      });
 
-      // Verify both strategies have balances
-      expect(await strategies.getBalance()).to.equal(
-        ethers.parseUnits("1000", 6)
-      );
-      expect(await secondStrategy.getBalance()).to.equal(
-        ethers.parseUnits("1000", 6)
-      );
+      it("Should pay exactly previewRedeem assets", async function () {
+        const shares = (await previewVault.balanceOf(alice.address)) / 3n;
+        const expectedAssets = await previewVault.previewRedeem(shares);
+        const balanceBefore = await underlyingToken.balanceOf(alice.address);
+
+        await previewVault
+          .connect(alice)
+          .redeem(shares, alice.address, alice.address);
+
+        expect(
+          (await underlyingToken.balanceOf(alice.address)) - balanceBefore
+        ).to.equal(expectedAssets);
+      });
+
+      it("Should let the owner withdraw maxWithdraw net of the fee", async function () {
+        const maxAssets = await previewVault.maxWithdraw(alice.address);
+        expect(maxAssets).to.equal(ethers.parseUnits("990", 6));
+
+        await previewVault
+          .connect(alice)
+          .withdraw(maxAssets, alice.address, alice.address);
+
+        expect(await previewVault.balanceOf(alice.address)).to.equal(0);
+      });
+
+      it("Should withdraw exactly maxWithdraw from a small balance", async function () {
+        // 150 shares at 1%: the fee grossed back up must not exceed the balance
+        const balance = await previewVault.balanceOf(alice.address);
+        await previewVault.connect(alice).transfer(bob.address, balance - 150n);
+
+        const maxAssets = await previewVault.maxWithdraw(alice.address);
+        expect(maxAssets).to.equal(148n);
+        expect(await previewVault.previewWithdraw(maxAssets)).to.be.lte(150n);
+
+        await previewVault
+          .connect(alice)
+          .withdraw(maxAssets, alice.address, alice.address);
+        expect(await previewVault.balanceOf(alice.address)).to.be.lte(1n);
+      });
+
+      it("Should keep max withdraw and redeem open while paused", async function () {
+        await previewVault.connect(owner).pause();
+
+        expect(await previewVault.maxWithdraw(alice.address)).to.equal(
+          ethers.parseUnits("990", 6)
+        );
+        expect(await previewVault.maxRedeem(alice.address)).to.equal(
+          await previewVault.balanceOf(alice.address)
+        );
+      });
     });
 
-    it("Should handle strategy failures gracefully", async function () {
-      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    it("Should apply a proposed fee only after the delay", async function () {
+      const delay = await vault.withdrawalFeeDelay();
+      expect(delay).to.equal(3 * 24 * 60 * 60);
 
-      // Deposit to vault
-      await vault.connect(alice).deposit(depositAmount, alice.address);
+      const tx = await vault.connect(manager).setWithdrawalFee(300);
+      const block = await ethers.provider.getBlock(tx.blockNumber!);
+      const activationTime = BigInt(block!.timestamp) + delay;
 
-      // Try to deposit more than vault has
+      await expect(tx)
+        .to.emit(vault, "WithdrawalFeeProposed")
+        .withArgs(100, 300, activationTime);
+      expect(await vault.withdrawalFee()).to.equal(100);
+      expect(await vault.pendingWithdrawalFee()).to.equal(300);
+
+      await ethers.provider.send("evm_increaseTime", [Number(delay)]);
+      await ethers.provider.send("evm_mine", []);
+
+      expect(await vault.withdrawalFee()).to.equal(300);
+      expect(
+        await vault.calculateWithdrawalFee(ethers.parseUnits("1000", 6))
+      ).to.equal(ethers.parseUnits("30", 6));
+    });
+
+    it("Should replace a pending proposal from the fee in effect", async function () {
+      await vault.connect(manager).setWithdrawalFee(300);
+      await ethers.provider.send("evm_increaseTime", [3 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      // The activated fee becomes the old fee of the next proposal
+      await expect(vault.connect(manager).setWithdrawalFee(50))
+        .to.emit(vault, "WithdrawalFeeProposed")
+        .withArgs(300, 50, anyValue);
+      expect(await vault.withdrawalFee()).to.equal(300);
+    });
+
+    it("Should revert proposing a fee above the cap", async function () {
       await expect(
-        vault.connect(agent).depositToStrategy(
-          await strategies.getAddress(),
-          ethers.parseUnits("2000", 6), // More than vault balance
-          "0x"
-        )
-      ).to.be.revertedWithCustomError(vault, "InsufficientBalance");
+        vault.connect(manager).setWithdrawalFee(1001)
+      ).to.be.revertedWithCustomError(vault, "WithdrawalFeeTooHigh");
     });
 
-    it("Should handle complete strategy lifecycle", async function () {
-      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    it("Should revert proposing a fee if not manager", async function () {
+      await expect(
+        vault.connect(alice).setWithdrawalFee(200)
+      ).to.be.revertedWith("Vault: caller is not a manager");
+    });
 
-      // 1. User deposits
-      await vault.connect(alice).deposit(depositAmount, alice.address);
+    it("Should allow owner to change the fee delay", async function () {
+      await expect(vault.connect(owner).setWithdrawalFeeDelay(3600))
+        .to.emit(vault, "WithdrawalFeeDelayUpdated")
+        .withArgs(3 * 24 * 60 * 60, 3600);
 
-      // 2. Deploy to strategy
-      await vault
-        .connect(agent)
-        .depositToStrategy(await strategies.getAddress(), depositAmount, "0x");
+      await expect(
+        vault.connect(owner).setWithdrawalFeeDelay(31 * 24 * 60 * 60)
+      ).to.be.revertedWithCustomError(vault, "WithdrawalFeeDelayTooLong");
+      await expect(
+        vault.connect(manager).setWithdrawalFeeDelay(0)
+      ).to.be.revertedWith("Vault: not owner");
+    });
 
-      // 3. Harvest (will work even without rewards)
-      await vault
-        .connect(agent)
-        .harvestStrategy(await strategies.getAddress(), "0x");
+    it("Should delay fee increases even after the delay is dropped to zero", async function () {
+      const currentFee = await vault.withdrawalFee();
+      await vault.connect(owner).setWithdrawalFeeDelay(0);
 
-      // 4. Emergency exit
-      await vault
-        .connect(agent)
-        .emergencyExitStrategy(await strategies.getAddress(), "0x");
+      await vault.connect(manager).setWithdrawalFee(currentFee + 100n);
+      expect(await vault.withdrawalFee()).to.equal(currentFee);
 
-      // 5. Verify funds returned to vault
-      expect(await strategies.getBalance()).to.equal(0);
-      expect(
-        await underlyingToken.balanceOf(await vault.getAddress())
-      ).to.be.gt(0);
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await vault.withdrawalFee()).to.equal(currentFee + 100n);
+
+      // Decreases still follow the configured delay
+      await vault.connect(manager).setWithdrawalFee(currentFee);
+      expect(await vault.withdrawalFee()).to.equal(currentFee);
     });
   });
 
-  describe("Edge Cases and Security", function () {
+  describe("Deposit Limits", function () {
+    const cap = ethers.parseUnits("1000", 6); // 1,000 USDC
+
     beforeEach(async function () {
       await underlyingToken
         .connect(alice)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
+        .approve(await vault.getAddress(), INITIAL_BALANCE);
+      await underlyingToken
+        .connect(bob)
+        .approve(await vault.getAddress(), INITIAL_BALANCE);
     });
 
-    it("Should handle zero amount operations correctly", async function () {
-      // Zero deposit may not revert in OpenZeppelin ERC4626, just check it works
-      await vault.connect(alice).deposit(0, alice.address);
+    it("Should be uncapped by default", async function () {
+      expect(await vault.depositLimit()).to.equal(ethers.MaxUint256);
+      expect(await vault.accountDepositLimit()).to.equal(ethers.MaxUint256);
+      expect(await vault.maxDeposit(alice.address)).to.equal(
+        ethers.MaxUint256
+      );
+      expect(await vault.maxMint(alice.address)).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should only allow owner or manager to set limits", async function () {
+      await expect(
+        vault.connect(alice).setDepositLimits(cap, cap)
+      ).to.be.revertedWith("Vault: not owner/manager");
+
+      await expect(vault.connect(manager).setDepositLimits(cap, cap / 2n))
+        .to.emit(vault, "DepositLimitsUpdated")
+        .withArgs(cap, cap / 2n);
+      await vault.connect(owner).setDepositLimits(cap, cap);
+      expect(await vault.accountDepositLimit()).to.equal(cap);
+    });
+
+    it("Should report and enforce the vault-wide cap", async function () {
+      await vault.connect(manager).setDepositLimits(cap, ethers.MaxUint256);
+      await vault
+        .connect(alice)
+        .deposit(ethers.parseUnits("600", 6), alice.address);
+
+      const room = await vault.maxDeposit(bob.address);
+      expect(room).to.be.closeTo(ethers.parseUnits("400", 6), 1000n);
+      expect(await vault.maxMint(bob.address)).to.equal(
+        await vault.convertToShares(room)
+      );
+
+      await expect(
+        vault.connect(bob).deposit(ethers.parseUnits("500", 6), bob.address)
+      ).to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxDeposit");
+      await expect(
+        vault.connect(bob).mint(ethers.parseUnits("500", 6), bob.address)
+      ).to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxMint");
+
+      await vault
+        .connect(bob)
+        .deposit(ethers.parseUnits("300", 6), bob.address);
+    });
+
+    it("Should enforce the per-account cap on the receiver", async function () {
+      await vault
+        .connect(manager)
+        .setDepositLimits(ethers.MaxUint256, ethers.parseUnits("500", 6));
+      await vault
+        .connect(alice)
+        .deposit(ethers.parseUnits("500", 6), alice.address);
+
+      expect(await vault.maxDeposit(alice.address)).to.equal(0);
+      await expect(
+        vault.connect(bob).deposit(ethers.parseUnits("1", 6), alice.address)
+      )
+        .to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxDeposit")
+        .withArgs(alice.address, ethers.parseUnits("1", 6), 0);
+
+      // Other accounts keep their own allowance
+      expect(await vault.maxDeposit(bob.address)).to.equal(
+        ethers.parseUnits("500", 6)
+      );
+      await vault
+        .connect(bob)
+        .deposit(ethers.parseUnits("500", 6), bob.address);
+    });
+
+    it("Should report no room while paused", async function () {
+      await vault.connect(owner).pause();
+      expect(await vault.maxDeposit(alice.address)).to.equal(0);
+      expect(await vault.maxMint(alice.address)).to.equal(0);
+    });
+  });
+
+  describe("Allowlist Mode", function () {
+    const depositAmount = ethers.parseUnits("100", 6);
+
+    // Leaves follow the OpenZeppelin standard Merkle tree encoding
+    const leafFor = (account: string) =>
+      ethers.keccak256(
+        ethers.keccak256(
+          ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account])
+        )
+      );
+    const hashPair = (a: string, b: string) =>
+      ethers.keccak256(ethers.concat(BigInt(a) < BigInt(b) ? [a, b] : [b, a]));
 
-      // Zero withdraw should work
-      await vault.connect(alice).withdraw(0, alice.address, alice.address);
+    beforeEach(async function () {
+      await underlyingToken
+        .connect(alice)
+        .approve(await vault.getAddress(), INITIAL_BALANCE);
+      await underlyingToken
+        .connect(bob)
+        .approve(await vault.getAddress(), INITIAL_BALANCE);
     });
 
-    it("Should prevent unauthorized access", async function () {
-      // Non-manager cannot add strategies
-      await expect(
-        vault.connect(alice).addStrategy(bob.address)
-      ).to.be.revertedWith("Vault: caller is not a manager");
+    it("Should grant the allowlist admin role to the owner", async function () {
+      const ALLOWLIST_ADMIN_ROLE = await vault.ALLOWLIST_ADMIN_ROLE();
+      expect(await vault.hasRole(ALLOWLIST_ADMIN_ROLE, owner.address)).to.be
+        .true;
+      expect(await vault.allowlistEnabled()).to.be.false;
 
-      // Non-agent cannot execute strategies
       await expect(
-        vault.connect(alice).depositToStrategy(bob.address, 100, "0x")
-      ).to.be.revertedWith("Vault: caller is not an agent");
+        vault.connect(manager).setAllowlistEnabled(true)
+      ).to.be.revertedWith("Vault: caller is not an allowlist admin");
+      await expect(
+        vault.connect(manager).setAllowlisted([alice.address], true)
+      ).to.be.revertedWith("Vault: caller is not an allowlist admin");
+      await expect(
+        vault.connect(manager).setAllowlistRoot(ethers.ZeroHash)
+      ).to.be.revertedWith("Vault: caller is not an allowlist admin");
     });
 
-    it("Should handle reentrancy protection", async function () {
-      // This is implicitly tested by our strategy contracts
-      // The nonReentrant modifier should prevent any reentrancy attacks
-      expect(await vault.hasAgentRole(agent.address)).to.be.true;
+    it("Should only accept deposits from allowlisted addresses", async function () {
+      await expect(vault.connect(owner).setAllowlistEnabled(true))
+        .to.emit(vault, "AllowlistModeUpdated")
+        .withArgs(true);
+
+      await expect(vault.connect(alice).deposit(depositAmount, alice.address))
+        .to.be.revertedWithCustomError(vault, "NotAllowlisted")
+        .withArgs(alice.address);
+      await expect(vault.connect(alice).mint(depositAmount, alice.address))
+        .to.be.revertedWithCustomError(vault, "NotAllowlisted")
+        .withArgs(alice.address);
+      expect(await vault.maxDeposit(alice.address)).to.equal(0);
+
+      await expect(vault.connect(owner).setAllowlisted([alice.address], true))
+        .to.emit(vault, "AllowlistUpdated")
+        .withArgs(alice.address, true);
+
+      // The receiver must be allowlisted as well
+      await expect(vault.connect(alice).deposit(depositAmount, bob.address))
+        .to.be.revertedWithCustomError(vault, "NotAllowlisted")
+        .withArgs(bob.address);
+
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+      expect(await vault.balanceOf(alice.address)).to.be.gt(0);
     });
 
-    it("Should handle large numbers correctly", async function () {
-      const largeAmount = ethers.parseUnits("500000", 6); // 500K USDC - more reasonable
+    it("Should restrict share transfers but not withdrawals", async function () {
+      await vault.connect(alice).deposit(depositAmount, alice.address);
+      await vault.connect(owner).setAllowlistEnabled(true);
+      await vault
+        .connect(owner)
+        .setAllowlisted([alice.address, bob.address], true);
 
-      // Mint large amount to owner first
-      await underlyingToken.mint(owner.address, largeAmount);
+      await vault.connect(alice).transfer(bob.address, 1000n);
 
-      // Transfer large amount to alice
-      await underlyingToken.transfer(alice.address, largeAmount);
+      await expect(
+        vault.connect(owner).setAllowlisted([alice.address, bob.address], false)
+      )
+        .to.emit(vault, "AllowlistUpdated")
+        .withArgs(bob.address, false);
 
-      // Should handle large deposit
-      await vault.connect(alice).deposit(largeAmount, alice.address);
+      await expect(vault.connect(alice).transfer(bob.address, 1000n))
+        .to.be.revertedWithCustomError(vault, "NotAllowlisted")
+        .withArgs(alice.address);
 
-      expect(await vault.totalAssets()).to.equal(largeAmount);
+      // Removed holders can still exit
+      await vault
+        .connect(alice)
+        .redeem(
+          await vault.balanceOf(alice.address),
+          alice.address,
+          alice.address
+        );
+      expect(await vault.balanceOf(alice.address)).to.equal(0);
     });
-  });
 
-  describe("Gas Optimization Tests", function () {
-    it("Should optimize gas for multiple operations", async function () {
-      await underlyingToken
-        .connect(alice)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
+    it("Should admit addresses with a Merkle proof", async function () {
+      const aliceLeaf = leafFor(alice.address);
+      const bobLeaf = leafFor(bob.address);
+      const root = hashPair(aliceLeaf, bobLeaf);
 
-      // First operation (more expensive due to storage initialization)
-      const tx1 = await vault
-        .connect(alice)
-        .deposit(ethers.parseUnits("1000", 6), alice.address); // 1,000 USDC
-      const receipt1 = await tx1.wait();
+      await vault.connect(owner).setAllowlistEnabled(true);
 
-      // Second operation (should be cheaper)
-      const tx2 = await vault
-        .connect(alice)
-        .deposit(ethers.parseUnits("1000", 6), alice.address); // 1,000 USDC
-      const receipt2 = await tx2.wait();
+      // No root set yet
+      await expect(
+        vault.claimAllowlist(alice.address, [bobLeaf])
+      ).to.be.revertedWithCustomError(vault, "InvalidAllowlistProof");
 
-      // Gas usage should be reasonable
-      expect(receipt1?.gasUsed).to.be.lt(200000);
-      expect(receipt2?.gasUsed).to.be.lt(150000);
+      await expect(vault.connect(owner).setAllowlistRoot(root))
+        .to.emit(vault, "AllowlistRootUpdated")
+        .withArgs(root);
+
+      await expect(
+        vault.claimAllowlist(manager.address, [bobLeaf])
+      ).to.be.revertedWithCustomError(vault, "InvalidAllowlistProof");
+
+      await expect(vault.connect(bob).claimAllowlist(alice.address, [bobLeaf]))
+        .to.emit(vault, "AllowlistUpdated")
+        .withArgs(alice.address, true);
+      expect(await vault.isAllowlisted(alice.address)).to.be.true;
+
+      await vault.connect(alice).deposit(depositAmount, alice.address);
     });
   });
 
-  describe("Withdrawal Fee Tests", function () {
+  describe("Timelock", function () {
+    const DELAY = 2 * 24 * 60 * 60; // 2 days
+
     beforeEach(async function () {
-      await underlyingToken
-        .connect(alice)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
-      await underlyingToken
-        .connect(bob)
-        .approve(await vault.getAddress(), ethers.MaxUint256);
+      await vault.connect(owner).setTimelockDelay(DELAY);
     });
 
-    it("Should get withdrawal fee correctly", async function () {
-      expect(await vault.getWithdrawalFee()).to.equal(100); // 1%
+    it("Should run timelocked calls immediately while the delay is zero", async function () {
+      const freshVault = await (
+        await ethers.getContractFactory("Vault", {
+          libraries: await vaultLibraries(),
+        })
+      ).deploy(
+        await underlyingToken.getAddress(),
+        "Vault Token",
+        "vUNDER",
+        manager.address,
+        agent.address,
+        100,
+        500,
+        owner.address,
+        0
+      );
+
+      expect(await freshVault.timelockDelay()).to.equal(0);
+      await freshVault.connect(manager).addStrategy(alice.address);
+      await expect(
+        freshVault
+          .connect(manager)
+          .queueOperation(
+            freshVault.interface.encodeFunctionData("removeStrategy", [
+              alice.address,
+            ])
+          )
+      ).to.be.revertedWithCustomError(freshVault, "TimelockInactive");
     });
 
-    it("Should calculate withdrawal fee correctly", async function () {
-      const withdrawAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
-      const expectedFee = ethers.parseUnits("10", 6); // 1% of 1,000 USDC = 10 USDC
+    it("Should require queueing before timelocked calls", async function () {
+      const data = vault.interface.encodeFunctionData("addStrategy", [
+        alice.address,
+      ]);
+      const id = ethers.keccak256(data);
 
-      expect(await vault.calculateWithdrawalFee(withdrawAmount)).to.equal(
-        expectedFee
-      );
-    });
+      await expect(vault.connect(manager).addStrategy(alice.address))
+        .to.be.revertedWithCustomError(vault, "OperationNotQueued")
+        .withArgs(id);
 
-    it("Should charge correct fee on withdrawal", async function () {
-      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
-      const withdrawAmount = ethers.parseUnits("500", 6); // 500 USDC
-      const expectedFee = ethers.parseUnits("5", 6); // 1% of 500 USDC = 5 USDC
-      const expectedNetAmount = withdrawAmount - expectedFee;
+      await expect(vault.connect(manager).queueOperation(data))
+        .to.emit(vault, "OperationQueued")
+        .withArgs(id, data, anyValue);
 
-      // Deposit first
-      await vault.connect(alice).deposit(depositAmount, alice.address);
+      await expect(
+        vault.connect(manager).addStrategy(alice.address)
+      ).to.be.revertedWithCustomError(vault, "OperationNotReady");
 
-      const balanceBefore = await underlyingToken.balanceOf(alice.address);
-      const vaultBalanceBefore = await underlyingToken.balanceOf(
-        await vault.getAddress()
-      );
+      await ethers.provider.send("evm_increaseTime", [DELAY]);
+      await ethers.provider.send("evm_mine", []);
 
-      // Withdraw with fee
+      await expect(vault.connect(manager).addStrategy(alice.address))
+        .to.emit(vault, "OperationExecuted")
+        .withArgs(id);
+      expect(await vault.isStrategy(alice.address)).to.be.true;
+      expect(await vault.operationReadyAt(id)).to.equal(0);
+    });
+
+    it("Should timelock yield rate and treasury changes", async function () {
       await expect(
-        vault
-          .connect(alice)
-          .withdraw(withdrawAmount, alice.address, alice.address)
-      )
-        .to.emit(vault, "WithdrawalFeeCollected")
-        .withArgs(alice.address, expectedFee);
+        vault.connect(manager).setYieldRate(800)
+      ).to.be.revertedWithCustomError(vault, "OperationNotQueued");
+      await expect(
+        vault.connect(owner).setTreasury(bob.address)
+      ).to.be.revertedWithCustomError(vault, "OperationNotQueued");
 
-      const balanceAfter = await underlyingToken.balanceOf(alice.address);
-      const vaultBalanceAfter = await underlyingToken.balanceOf(
-        await vault.getAddress()
-      );
+      await vault
+        .connect(manager)
+        .queueOperation(vault.interface.encodeFunctionData("setYieldRate", [800]));
+      await vault
+        .connect(owner)
+        .queueOperation(
+          vault.interface.encodeFunctionData("setTreasury", [bob.address])
+        );
 
-      // User should receive net amount
-      expect(balanceAfter - balanceBefore).to.equal(expectedNetAmount);
+      await ethers.provider.send("evm_increaseTime", [DELAY]);
+      await ethers.provider.send("evm_mine", []);
 
-      // Vault should have lost only the net amount (the fee stays in the vault)
-      expect(vaultBalanceBefore - vaultBalanceAfter).to.equal(
-        expectedNetAmount
+      // The usual role checks still apply on execution
+      await expect(vault.connect(alice).setYieldRate(800)).to.be.revertedWith(
+        "Vault: caller is not a manager"
       );
+
+      await vault.connect(manager).setYieldRate(800);
+      await vault.connect(owner).setTreasury(bob.address);
+      expect(await vault.getYieldRate()).to.equal(800);
+      expect(await vault.treasury()).to.equal(bob.address);
     });
 
-    it("Should charge correct fee on redeem", async function () {
-      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    it("Should let the owner cancel queued operations", async function () {
+      const data = vault.interface.encodeFunctionData("addStrategy", [
+        alice.address,
+      ]);
+      const id = ethers.keccak256(data);
 
-      // Deposit first
-      await vault.connect(alice).deposit(depositAmount, alice.address);
+      await vault.connect(manager).queueOperation(data);
+      await expect(
+        vault.connect(manager).queueOperation(data)
+      ).to.be.revertedWithCustomError(vault, "OperationAlreadyQueued");
+      await expect(
+        vault.connect(manager).cancelOperation(id)
+      ).to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
 
-      const sharesToRedeem = (await vault.balanceOf(alice.address)) / 2n;
-      const balanceBefore = await underlyingToken.balanceOf(alice.address);
+      await expect(vault.connect(owner).cancelOperation(id))
+        .to.emit(vault, "OperationCancelled")
+        .withArgs(id);
 
-      // Redeem with fee
+      await ethers.provider.send("evm_increaseTime", [DELAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        vault.connect(manager).addStrategy(alice.address)
+      ).to.be.revertedWithCustomError(vault, "OperationNotQueued");
+      await expect(
+        vault.connect(owner).cancelOperation(id)
+      ).to.be.revertedWithCustomError(vault, "OperationNotQueued");
+    });
+
+    it("Should only let managers and the owner queue", async function () {
       await expect(
         vault
           .connect(alice)
-          .redeem(sharesToRedeem, alice.address, alice.address)
-      ).to.emit(vault, "WithdrawalFeeCollected");
+          .queueOperation(
+            vault.interface.encodeFunctionData("addStrategy", [alice.address])
+          )
+      ).to.be.revertedWith("Vault: not owner/manager");
+    });
 
-      const balanceAfter = await underlyingToken.balanceOf(alice.address);
+    it("Should timelock changes to the delay itself", async function () {
+      await expect(
+        vault.connect(owner).setTimelockDelay(0)
+      ).to.be.revertedWithCustomError(vault, "OperationNotQueued");
 
-      // User should receive less than the full asset amount due to fee
-      expect(balanceAfter - balanceBefore).to.be.lt(
-        ethers.parseUnits("500", 6)
-      );
-      expect(balanceAfter - balanceBefore).to.be.gt(
-        ethers.parseUnits("490", 6)
-      );
+      await vault
+        .connect(owner)
+        .queueOperation(
+          vault.interface.encodeFunctionData("setTimelockDelay", [0])
+        );
+      await ethers.provider.send("evm_increaseTime", [DELAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(vault.connect(owner).setTimelockDelay(0))
+        .to.emit(vault, "TimelockDelayUpdated")
+        .withArgs(DELAY, 0);
+      await vault.connect(manager).addStrategy(alice.address);
     });
 
-    it("Should handle zero withdrawal fee", async function () {
-      // Deploy a vault with 0% withdrawal fee
-      const VaultFactory = await ethers.getContractFactory("Vault");
-      const vaultZeroFee = await VaultFactory.deploy(
+    it("Should cap the delay", async function () {
+      const tooLong = 31 * 24 * 60 * 60;
+      await vault
+        .connect(owner)
+        .queueOperation(
+          vault.interface.encodeFunctionData("setTimelockDelay", [tooLong])
+        );
+      await ethers.provider.send("evm_increaseTime", [DELAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        vault.connect(owner).setTimelockDelay(tooLong)
+      ).to.be.revertedWithCustomError(vault, "TimelockDelayTooLong");
+    });
+  });
+
+  describe("Management and Performance Fees", function () {
+    const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    let feeVault: Vault;
+    let feeStrategy: Strategies;
+    let strategyAddress: string;
+
+    beforeEach(async function () {
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
+      feeVault = await VaultFactory.deploy(
         await underlyingToken.getAddress(),
-        "Zero Fee Vault",
-        "ZFV",
+        "Fee Vault",
+        "fVAULT",
         manager.address,
         agent.address,
-        0, // 0% withdrawal fee
-        0, // 0% yield rate
-        owner.address // treasury address
+        0, // no withdrawal fee
+        0, // no fixed yield
+        owner.address, // treasury address
+        0 // decimals offset
+      );
+
+      const MockProtocolFactory = await ethers.getContractFactory(
+        "MockProtocol"
+      );
+      const protocol = await MockProtocolFactory.deploy(
+        await underlyingToken.getAddress(),
+        await underlyingToken.getAddress()
+      );
+      const StrategiesFactory = await ethers.getContractFactory("Strategies");
+      feeStrategy = await StrategiesFactory.deploy(
+        await underlyingToken.getAddress(),
+        await protocol.getAddress(),
+        ethers.id("deposit(uint256)").slice(0, 10),
+        ethers.id("withdraw(uint256)").slice(0, 10),
+        ethers.id("claimRewards()").slice(0, 10),
+        ethers.id("getBalance(address)").slice(0, 10)
       );
+      strategyAddress = await feeStrategy.getAddress();
+      await feeStrategy.setVault(await feeVault.getAddress());
+      await feeVault.connect(manager).addStrategy(strategyAddress);
 
       await underlyingToken
         .connect(alice)
-        .approve(await vaultZeroFee.getAddress(), ethers.MaxUint256);
+        .approve(await feeVault.getAddress(), ethers.MaxUint256);
+      await feeVault.connect(alice).deposit(depositAmount, alice.address);
+    });
 
-      const depositAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
-      const withdrawAmount = ethers.parseUnits("500", 6); // 500 USDC
+    const simulateGain = async (amount: bigint) => {
+      const protocol = await ethers.getContractAt(
+        "MockProtocol",
+        await feeStrategy.protocol()
+      );
+      await underlyingToken.transfer(await protocol.getAddress(), amount);
+      await protocol.simulateYield(strategyAddress, amount);
+    };
 
-      // Deposit
-      await vaultZeroFee.connect(alice).deposit(depositAmount, alice.address);
+    const treasuryAssets = async () =>
+      feeVault.convertToAssets(await feeVault.balanceOf(owner.address));
 
-      const balanceBefore = await underlyingToken.balanceOf(alice.address);
+    it("Should allow manager to set fees within caps", async function () {
+      await expect(feeVault.connect(manager).setManagementFee(200))
+        .to.emit(feeVault, "ManagementFeeUpdated")
+        .withArgs(0, 200);
+      await expect(feeVault.connect(manager).setPerformanceFee(2000))
+        .to.emit(feeVault, "PerformanceFeeUpdated")
+        .withArgs(0, 2000);
 
-      // Withdraw - should not emit fee event
-      await vaultZeroFee
-        .connect(alice)
-        .withdraw(withdrawAmount, alice.address, alice.address);
+      await expect(
+        feeVault.connect(manager).setManagementFee(501)
+      ).to.be.revertedWithCustomError(feeVault, "ManagementFeeTooHigh");
+      await expect(
+        feeVault.connect(manager).setPerformanceFee(5001)
+      ).to.be.revertedWithCustomError(feeVault, "PerformanceFeeTooHigh");
+      await expect(
+        feeVault.connect(alice).setManagementFee(100)
+      ).to.be.revertedWith("Vault: caller is not a manager");
+    });
 
-      const balanceAfter = await underlyingToken.balanceOf(alice.address);
+    it("Should mint management fee shares to treasury over time", async function () {
+      await feeVault.connect(manager).setManagementFee(200); // 2% per year
 
-      // Should receive full amount with no fee
-      expect(balanceAfter - balanceBefore).to.equal(withdrawAmount);
+      await ethers.provider.send("evm_increaseTime", [365 * 24 * 60 * 60]);
+      await expect(
+        feeVault.connect(alice).deposit(1, alice.address)
+      ).to.emit(feeVault, "ManagementFeeCharged");
+
+      // The treasury's shares are worth ~2% of the vault, without moving any tokens
+      expect(await treasuryAssets()).to.be.closeTo(
+        ethers.parseUnits("20", 6),
+        ethers.parseUnits("0.01", 6)
+      );
+      expect(await feeVault.totalAssets()).to.equal(depositAmount + 1n);
     });
 
-    it("Should revert with fee too high", async function () {
-      const VaultFactory = await ethers.getContractFactory("Vault");
+    it("Should charge performance fees on realized gains", async function () {
+      await feeVault.connect(manager).setPerformanceFee(2000); // 20%
+      await feeVault
+        .connect(agent)
+        .depositToStrategy(strategyAddress, depositAmount, "0x");
 
-      await expect(
-        VaultFactory.deploy(
-          await underlyingToken.getAddress(),
-          "High Fee Vault",
-          "HFV",
-          manager.address,
-          agent.address,
-          1500, // 15% withdrawal fee (too high)
-          500, // 5% yield rate
-          owner.address // treasury address
-        )
-      ).to.be.revertedWithCustomError(vault, "WithdrawalFeeTooHigh");
+      await simulateGain(ethers.parseUnits("100", 6));
+      await expect(feeVault.connect(agent).report(strategyAddress)).to.emit(
+        feeVault,
+        "PerformanceFeeCharged"
+      );
+
+      expect(await treasuryAssets()).to.be.closeTo(
+        ethers.parseUnits("20", 6),
+        ethers.parseUnits("0.01", 6)
+      );
+      expect(await feeVault.highWaterMark()).to.be.gt(ethers.parseUnits("1", 18));
     });
 
-    it("Should allow maximum withdrawal fee", async function () {
-      const VaultFactory = await ethers.getContractFactory("Vault");
+    it("Should charge performance fees on every gain inside one unlock period", async function () {
+      await feeVault.connect(manager).setPerformanceFee(2000); // 20%
+      await feeVault.connect(manager).setProfitUnlockPeriod(7 * 24 * 60 * 60);
+      await feeVault
+        .connect(agent)
+        .depositToStrategy(strategyAddress, depositAmount, "0x");
 
-      // Should allow 10% fee (1000 basis points)
-      const vaultMaxFee = await VaultFactory.deploy(
-        await underlyingToken.getAddress(),
-        "Max Fee Vault",
-        "MFV",
-        manager.address,
-        agent.address,
-        1000, // 10% withdrawal fee (maximum allowed)
-        500, // 5% yield rate
-        owner.address // treasury address
+      for (let i = 0; i < 3; i++) {
+        await simulateGain(ethers.parseUnits("10", 6));
+        await expect(feeVault.connect(agent).report(strategyAddress)).to.emit(
+          feeVault,
+          "PerformanceFeeCharged"
+        );
+        await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+      }
+
+      // Once everything unlocks, the treasury holds 20% of the 30 tokens gained
+      await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await feeVault.lockedProfit()).to.equal(0);
+      expect(await treasuryAssets()).to.be.closeTo(
+        ethers.parseUnits("6", 6),
+        ethers.parseUnits("0.05", 6)
       );
+    });
 
-      expect(await vaultMaxFee.getWithdrawalFee()).to.equal(1000);
+    it("Should not charge performance fees below the high-water mark", async function () {
+      await feeVault.connect(manager).setPerformanceFee(2000); // 20%
+      await feeVault
+        .connect(agent)
+        .depositToStrategy(strategyAddress, depositAmount, "0x");
+
+      await simulateGain(ethers.parseUnits("100", 6));
+      await feeVault.connect(agent).report(strategyAddress);
+      const feeAfterFirstGain = await treasuryAssets();
+
+      // Lose 50 then win it back: price only returns to the mark
+      const protocol = await ethers.getContractAt(
+        "MockProtocol",
+        await feeStrategy.protocol()
+      );
+      await protocol.simulateLoss(strategyAddress, ethers.parseUnits("50", 6));
+      await feeVault.connect(agent).report(strategyAddress);
+      await simulateGain(ethers.parseUnits("50", 6));
+      await expect(
+        feeVault.connect(agent).report(strategyAddress)
+      ).to.not.emit(feeVault, "PerformanceFeeCharged");
+
+      expect(await treasuryAssets()).to.be.closeTo(
+        feeAfterFirstGain,
+        ethers.parseUnits("0.01", 6)
+      );
     });
   });
 
@@ -1000,7 +2881,9 @@ describe("Vault", function () {
 
     it("Should handle zero yield rate", async function () {
       // Deploy vault with 0% yield
-      const VaultFactory = await ethers.getContractFactory("Vault");
+      const VaultFactory = await ethers.getContractFactory("Vault", {
+        libraries: await vaultLibraries(),
+      });
       const vaultNoYield = await VaultFactory.deploy(
         await underlyingToken.getAddress(),
         "No Yield Vault",
@@ -1009,7 +2892,8 @@ describe("Vault", function () {
         agent.address,
         100, // 1% withdrawal fee
         0, // 0% yield rate
-        owner.address // treasury address
+        owner.address, // treasury address
+        0 // decimals offset
       );
 
       await underlyingToken
@@ -1069,8 +2953,8 @@ describe("Vault", function () {
       expect(baseAssetsBefore).to.equal(depositAmount);
       expect(accruedYieldBefore).to.be.gt(0);
 
-      // Withdraw 50% of total assets
-      const withdrawAmount = totalAssetsBefore / 2n;
+      // Withdraw 50% of total assets, gross of the 1% fee
+      const withdrawAmount = ((totalAssetsBefore / 2n) * 99n) / 100n;
       await vault
         .connect(alice)
         .withdraw(withdrawAmount, alice.address, alice.address);
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { Vault, MockUSDC } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("Vault Enhancements", function () {
   let vault: Vault;
@@ -24,7 +25,9 @@ describe("Vault Enhancements", function () {
     underlyingToken = await MockUSDCFactory.deploy();
 
     // Deploy vault with 1% withdrawal fee and 5% yield rate
-    const VaultFactory = await ethers.getContractFactory("Vault");
+    const VaultFactory = await ethers.getContractFactory("Vault", {
+      libraries: await vaultLibraries(),
+    });
     vault = await VaultFactory.deploy(
       await underlyingToken.getAddress(),
       "Enhanced Vault Token",
@@ -33,7 +36,8 @@ describe("Vault Enhancements", function () {
       agent.address,
       100, // 1% withdrawal fee
       500, // 5% annual yield rate
-      treasury.address // treasury address
+      treasury.address, // treasury address
+      0 // decimals offset
     );
 
     // Setup test accounts with tokens
@@ -76,7 +80,7 @@ describe("Vault Enhancements", function () {
       ).to.be.revertedWithCustomError(vault, "EnforcedPause");
     });
 
-    it("Should prevent withdrawals when paused", async function () {
+    it("Should allow withdrawals when paused", async function () {
       // First make a deposit when not paused
       await underlyingToken
         .connect(alice)
@@ -88,12 +92,12 @@ describe("Vault Enhancements", function () {
       // Pause the vault
       await vault.connect(owner).pause();
 
-      // Withdrawals should revert when paused
+      // Withdrawals stay open so depositors can exit
       await expect(
         vault
           .connect(alice)
           .withdraw(ethers.parseUnits("500", 6), alice.address, alice.address)
-      ).to.be.revertedWithCustomError(vault, "EnforcedPause");
+      ).to.not.be.reverted;
     });
 
     it("Should revert pause if not pauser", async function () {
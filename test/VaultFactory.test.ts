@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { VaultFactory, MockERC20, Vault } from "../typechain-types";
+import { vaultLibraries } from "./helpers/libraries";
 
 describe("VaultFactory", function () {
   let vaultFactory: VaultFactory;
@@ -38,7 +39,12 @@ describe("VaultFactory", function () {
     mockToken = await MockERC20Factory.deploy("Test Token", "TEST", 18);
 
     // Deploy VaultFactory
-    const VaultFactoryFactory = await ethers.getContractFactory("VaultFactory");
+    const VaultFactoryFactory = await ethers.getContractFactory(
+      "VaultFactory",
+      {
+        libraries: await vaultLibraries(),
+      }
+    );
     vaultFactory = await VaultFactoryFactory.deploy(
       defaultManager.address,
       defaultAgent.address,
@@ -75,7 +81,10 @@ describe("VaultFactory", function () {
 
     it("Should revert with invalid constructor parameters", async function () {
       const VaultFactoryFactory = await ethers.getContractFactory(
-        "VaultFactory"
+        "VaultFactory",
+        {
+          libraries: await vaultLibraries(),
+        }
       );
 
       await expect(
@@ -124,6 +133,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         const tx = await vaultFactory.connect(user1).createVault(vaultParams, {
@@ -154,6 +167,226 @@ describe("VaultFactory", function () {
         expect(await vaultFactory.isVaultFromFactory(vaultAddress)).to.be.true;
       });
 
+      it("Should hand the vault over to its creator", async function () {
+        const vaultParams = {
+          asset: await mockToken.getAddress(),
+          name: "Owned Vault",
+          symbol: "OVAULT",
+          manager: customManager.address,
+          agent: customAgent.address,
+          withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
+          yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
+        };
+
+        await vaultFactory.connect(user1).createVault(vaultParams, {
+          value: CREATION_FEE,
+        });
+
+        const vault = await ethers.getContractAt(
+          "Vault",
+          await vaultFactory.vaults(1)
+        );
+        const factoryAddress = await vaultFactory.getAddress();
+        expect(await vault.owner()).to.equal(user1.address);
+        for (const role of [
+          await vault.DEFAULT_ADMIN_ROLE(),
+          await vault.PAUSER_ROLE(),
+          await vault.ALLOWLIST_ADMIN_ROLE(),
+        ]) {
+          expect(await vault.hasRole(role, user1.address)).to.be.true;
+          expect(await vault.hasRole(role, factoryAddress)).to.be.false;
+        }
+        expect(await vault.hasManagerRole(customManager.address)).to.be.true;
+        expect(await vault.hasAgentRole(customAgent.address)).to.be.true;
+
+        // The creator can use the owner-only settings
+        await vault.connect(user1).setTimelockDelay(60 * 60);
+        await vault.connect(user1).setAllowlistEnabled(true);
+        await vault.connect(user1).shutdownVault();
+        expect(await vault.shutdown()).to.be.true;
+      });
+
+      it("Should let the creator grant a guardian", async function () {
+        await vaultFactory
+          .connect(user1)
+          .createVaultWithDefaults(
+            await mockToken.getAddress(),
+            "Guarded Vault",
+            "GVAULT",
+            { value: CREATION_FEE }
+          );
+
+        const vault = await ethers.getContractAt(
+          "Vault",
+          await vaultFactory.vaults(1)
+        );
+        await vault
+          .connect(user1)
+          .grantRole(await vault.GUARDIAN_ROLE(), user2.address);
+        expect(await vault.hasGuardianRole(user2.address)).to.be.true;
+
+        await vault.connect(user2).pause();
+        expect(await vault.paused()).to.be.true;
+      });
+
+      it("Should seed deposit caps from the creation parameters", async function () {
+        const vaultParams = {
+          asset: await mockToken.getAddress(),
+          name: "Capped Vault",
+          symbol: "CAPVAULT",
+          manager: customManager.address,
+          agent: customAgent.address,
+          withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
+          yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: ethers.parseEther("1000"),
+          accountDepositLimit: 0, // No per-account cap
+          decimalsOffset: 0,
+          seedDeposit: 0,
+        };
+
+        await vaultFactory.connect(user1).createVault(vaultParams, {
+          value: CREATION_FEE,
+        });
+
+        const vault = await ethers.getContractAt(
+          "Vault",
+          await vaultFactory.vaults(1)
+        );
+        expect(await vault.depositLimit()).to.equal(ethers.parseEther("1000"));
+        expect(await vault.accountDepositLimit()).to.equal(ethers.MaxUint256);
+        expect(await vault.maxDeposit(user1.address)).to.equal(
+          ethers.parseEther("1000")
+        );
+      });
+
+      it("Should leave deposits uncapped by default", async function () {
+        await vaultFactory
+          .connect(user1)
+          .createVaultWithDefaults(
+            await mockToken.getAddress(),
+            "Default Vault",
+            "DVAULT",
+            { value: CREATION_FEE }
+          );
+
+        const vault = await ethers.getContractAt(
+          "Vault",
+          await vaultFactory.vaults(1)
+        );
+        expect(await vault.depositLimit()).to.equal(ethers.MaxUint256);
+        expect(await vault.accountDepositLimit()).to.equal(ethers.MaxUint256);
+      });
+
+      it("Should set the decimals offset and seed dead shares", async function () {
+        const seed = ethers.parseEther("1");
+        const vaultParams = {
+          asset: await mockToken.getAddress(),
+          name: "Seeded Vault",
+          symbol: "SEEDVAULT",
+          manager: customManager.address,
+          agent: customAgent.address,
+          withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
+          yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 3,
+          seedDeposit: seed,
+        };
+
+        await mockToken.mint(user1.address, seed);
+        await mockToken
+          .connect(user1)
+          .approve(await vaultFactory.getAddress(), seed);
+        await vaultFactory.connect(user1).createVault(vaultParams, {
+          value: CREATION_FEE,
+        });
+
+        const vault = await ethers.getContractAt(
+          "Vault",
+          await vaultFactory.vaults(1)
+        );
+        const deadShares = seed * 1000n;
+        expect(await vault.decimals()).to.equal(21);
+        expect(await vault.totalAssets()).to.equal(seed);
+        expect(
+          await vault.balanceOf(await vaultFactory.DEAD_SHARES_RECEIVER())
+        ).to.equal(deadShares);
+        expect(await vault.totalSupply()).to.equal(deadShares);
+        expect(await mockToken.balanceOf(user1.address)).to.equal(0);
+      });
+
+      it("Should revert the seed deposit without an allowance", async function () {
+        const vaultParams = {
+          asset: await mockToken.getAddress(),
+          name: "Seeded Vault",
+          symbol: "SEEDVAULT",
+          manager: customManager.address,
+          agent: customAgent.address,
+          withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
+          yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: ethers.parseEther("1"),
+        };
+
+        await expect(
+          vaultFactory.connect(user1).createVault(vaultParams, {
+            value: CREATION_FEE,
+          })
+        ).to.be.revertedWithCustomError(mockToken, "ERC20InsufficientAllowance");
+      });
+
+      it("Should bubble up vault constructor errors", async function () {
+        const vaultParams = {
+          asset: await mockToken.getAddress(),
+          name: "Bad Fee Vault",
+          symbol: "BVAULT",
+          manager: customManager.address,
+          agent: customAgent.address,
+          withdrawalFee: 1500, // Above the vault's 10% cap
+          yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
+        };
+        const VaultContract = await ethers.getContractFactory("Vault", {
+          libraries: await vaultLibraries(),
+        });
+
+        await expect(
+          vaultFactory.connect(user1).createVault(vaultParams, {
+            value: CREATION_FEE,
+          })
+        ).to.be.revertedWithCustomError(VaultContract, "WithdrawalFeeTooHigh");
+      });
+
+      it("Should not allow calling the vault deployer directly", async function () {
+        const deployer = await ethers.getContractAt(
+          "VaultDeployer",
+          await vaultFactory.vaultDeployer()
+        );
+
+        await expect(
+          deployer.deployVault(
+            await mockToken.getAddress(),
+            "Direct Vault",
+            "DIRECT",
+            customManager.address,
+            customAgent.address,
+            DEFAULT_WITHDRAWAL_FEE,
+            DEFAULT_YIELD_RATE,
+            treasury.address,
+            0
+          )
+        ).to.be.revertedWithCustomError(deployer, "DelegateCallOnly");
+      });
+
       it("Should create vault with default manager and agent when not specified", async function () {
         const vaultParams = {
           asset: await mockToken.getAddress(),
@@ -163,6 +396,10 @@ describe("VaultFactory", function () {
           agent: ZERO_ADDRESS, // Will use default
           withdrawalFee: 0, // Will use default
           yieldRate: 0, // Will use default
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         await expect(
@@ -183,6 +420,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         await expect(
@@ -201,6 +442,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         await expect(
@@ -219,6 +464,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         await expect(
@@ -237,6 +486,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         await expect(
@@ -255,6 +508,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         const treasuryBalanceBefore = await ethers.provider.getBalance(
@@ -449,6 +706,10 @@ describe("VaultFactory", function () {
           agent: customAgent.address,
           withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
           yieldRate: DEFAULT_YIELD_RATE,
+          depositLimit: 0,
+          accountDepositLimit: 0,
+          decimalsOffset: 0,
+          seedDeposit: 0,
         };
 
         await vaultFactory.connect(user1).createVault(vaultParams, {
@@ -509,6 +770,10 @@ describe("VaultFactory", function () {
         agent: customAgent.address,
         withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
         yieldRate: DEFAULT_YIELD_RATE,
+        depositLimit: 0,
+        accountDepositLimit: 0,
+        decimalsOffset: 0,
+        seedDeposit: 0,
       };
 
       const tx = await vaultFactory.connect(user1).createVault(vaultParams, {
@@ -632,6 +897,10 @@ describe("VaultFactory", function () {
         agent: customAgent.address,
         withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
         yieldRate: DEFAULT_YIELD_RATE,
+        depositLimit: 0,
+        accountDepositLimit: 0,
+        decimalsOffset: 0,
+        seedDeposit: 0,
       };
 
       const vaultParams2 = {
@@ -642,6 +911,10 @@ describe("VaultFactory", function () {
         agent: customAgent.address,
         withdrawalFee: DEFAULT_WITHDRAWAL_FEE,
         yieldRate: DEFAULT_YIELD_RATE,
+        depositLimit: 0,
+        accountDepositLimit: 0,
+        decimalsOffset: 0,
+        seedDeposit: 0,
       };
 
       await vaultFactory
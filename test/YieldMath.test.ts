@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MockYieldMath } from "../typechain-types";
+
+describe("YieldMath", function () {
+  let yieldMath: MockYieldMath;
+
+  const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+  const PRINCIPAL = ethers.parseUnits("1000000", 18); // 1M tokens
+  const RAY = 10n ** 27n;
+
+  const RATES = [0, 1, 10, 100, 500, 1000, 2000, 3500, 5000];
+  const PERIODS = [
+    1, // 1 second
+    60 * 60, // 1 hour
+    24 * 60 * 60, // 1 day
+    30 * 24 * 60 * 60, // 30 days
+    SECONDS_PER_YEAR, // 1 year
+    2 * SECONDS_PER_YEAR, // 2 years
+    5 * SECONDS_PER_YEAR, // 5 years
+    10 * SECONDS_PER_YEAR, // 10 years
+  ];
+
+  // principal * (e^(r * t) - 1), computed in floating point
+  const continuousYield = (rate: number, seconds: number) =>
+    Number(PRINCIPAL) *
+    Math.expm1((rate / 10000) * (seconds / SECONDS_PER_YEAR));
+
+  beforeEach(async function () {
+    const MockYieldMathFactory = await ethers.getContractFactory(
+      "MockYieldMath"
+    );
+    yieldMath = await MockYieldMathFactory.deploy();
+  });
+
+  describe("rpow", function () {
+    it("Should return RAY for a zero exponent", async function () {
+      expect(await yieldMath.rpow(RAY * 2n, 0)).to.equal(RAY);
+    });
+
+    it("Should raise ray numbers to integer powers", async function () {
+      expect(await yieldMath.rpow(RAY * 2n, 10)).to.equal(RAY * 1024n);
+      expect(await yieldMath.rpow(RAY / 2n, 3)).to.equal(RAY / 8n);
+    });
+  });
+
+  describe("computeContinuousYield", function () {
+    it("Should stay within 1e-7 of continuous compounding across rates and periods", async function () {
+      for (const rate of RATES) {
+        for (const period of PERIODS) {
+          const actual = await yieldMath.computeContinuousYield(
+            PRINCIPAL,
+            rate,
+            period
+          );
+          const expected = continuousYield(rate, period);
+          const tolerance = expected * 1e-7 + 1;
+
+          expect(
+            Math.abs(Number(actual) - expected),
+            `rate ${rate} bps over ${period}s`
+          ).to.be.lte(tolerance);
+        }
+      }
+    });
+
+    it("Should keep accruing beyond two years", async function () {
+      const twoYears = await yieldMath.computeContinuousYield(
+        PRINCIPAL,
+        500,
+        2 * SECONDS_PER_YEAR
+      );
+      const tenYears = await yieldMath.computeContinuousYield(
+        PRINCIPAL,
+        500,
+        10 * SECONDS_PER_YEAR
+      );
+
+      // The Taylor approximation stops at 730 days
+      expect(
+        await yieldMath.computeYield(PRINCIPAL, 500, 10 * SECONDS_PER_YEAR)
+      ).to.be.lt(twoYears);
+      expect(tenYears).to.be.gt(twoYears * 4n);
+    });
+
+    it("Should be more precise than the Taylor approximation at low rates", async function () {
+      const rate = 100; // 1%, where the daily rate truncates to 0 bps
+      const actual = await yieldMath.computeContinuousYield(
+        PRINCIPAL,
+        rate,
+        SECONDS_PER_YEAR
+      );
+      const expected = continuousYield(rate, SECONDS_PER_YEAR);
+
+      expect(
+        await yieldMath.computeYield(PRINCIPAL, rate, SECONDS_PER_YEAR)
+      ).to.equal(0);
+      expect(Math.abs(Number(actual) - expected)).to.be.lte(expected * 1e-7);
+    });
+
+    it("Should return zero for zero inputs", async function () {
+      expect(
+        await yieldMath.computeContinuousYield(0, 500, SECONDS_PER_YEAR)
+      ).to.equal(0);
+      expect(
+        await yieldMath.computeContinuousYield(PRINCIPAL, 0, SECONDS_PER_YEAR)
+      ).to.equal(0);
+      expect(
+        await yieldMath.computeContinuousYield(PRINCIPAL, 500, 0)
+      ).to.equal(0);
+    });
+  });
+});
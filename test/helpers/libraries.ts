@@ -0,0 +1,19 @@
+import { ethers } from "hardhat";
+
+let deployed: Promise<Record<string, string>> | undefined;
+
+/**
+ * Deploys the external libraries Vault links against, once per test run.
+ * Pass the result as `libraries` when getting the Vault or VaultFactory factory.
+ */
+export function vaultLibraries(): Promise<Record<string, string>> {
+  deployed ??= (async () => {
+    const libraries: Record<string, string> = {};
+    for (const name of ["AccessLogic", "AccountingLogic", "StrategyLogic"]) {
+      const library = await ethers.deployContract(name);
+      libraries[name] = await library.getAddress();
+    }
+    return libraries;
+  })();
+  return deployed;
+}